@@ -3,9 +3,17 @@ import { Header } from './components/Header';
 import { UploadZone } from './components/UploadZone';
 import { ChatInterface } from './components/ChatInterface';
 import { DocumentEditor } from './components/DocumentEditor'; 
-import { ExportModal } from './components/ExportModal';
-import { DocumentState } from './types';
+import { ExportModal, ExportVersion } from './components/ExportModal';
+import { TranslateModal } from './components/TranslateModal';
+import { TranslationView } from './components/TranslationView';
+import { NewReportWizard } from './components/NewReportWizard';
+import { SanitizeDiagnosticsModal } from './components/SanitizeDiagnosticsModal';
+import { BatchModal } from './components/BatchModal';
+import { DocumentState, SelectionScope } from './types';
 import { parseWordDocument, exportToWord, generatePdf } from './services/docService';
+import { BLOCK_ID_ATTR, ensureBlockIds } from './services/blockService';
+import { sanitizeDocumentHtml } from './services/sanitizeService';
+import { TranslationResult } from './services/geminiService';
 
 const App: React.FC = () => {
   const [docState, setDocState] = useState<DocumentState>({
@@ -18,8 +26,18 @@ const App: React.FC = () => {
   });
 
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isTranslateModalOpen, setIsTranslateModalOpen] = useState(false);
+  const [isNewReportOpen, setIsNewReportOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  // Translated copy shown next to the original; edits to either side stay separate
+  const [translation, setTranslation] = useState<TranslationResult | null>(null);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [selectionScope, setSelectionScope] = useState<SelectionScope | null>(null);
+  // Changes every time a document is loaded so chat history never leaks between documents
+  const [sessionId, setSessionId] = useState(0);
   const editorRef = useRef<HTMLDivElement>(null);
+  const translationEditorRef = useRef<HTMLDivElement>(null);
   
   // Undo/Redo history
   const historyRef = useRef<string[]>([]);
@@ -61,6 +79,30 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [docState.isLoaded]);
 
+  // Starts a fresh editing session: new undo history, chat and translation
+  const openDocument = (html: string, name: string, file: File | null) => {
+    historyRef.current = [html];
+    historyIndexRef.current = 0;
+    setSessionId(Date.now());
+    setSelectionScope(null);
+    setTranslation(null);
+
+    setDocState({
+      file,
+      name,
+      htmlContent: html,
+      isProcessing: false,
+      isLoaded: true,
+      lastUpdated: Date.now()
+    });
+  };
+
+  const handleReportCreated = (name: string, html: string) => {
+    setIsNewReportOpen(false);
+    openDocument(html, name, null);
+    console.log('New report created:', name);
+  };
+
   const handleFileUpload = async (file: File) => {
     console.log('File upload started:', file.name, 'Size:', (file.size / 1024).toFixed(2), 'KB');
     setDocState(prev => ({ ...prev, isProcessing: true, name: file.name }));
@@ -89,18 +131,7 @@ const App: React.FC = () => {
       
       // Use setTimeout to ensure state update happens after current execution
       setTimeout(() => {
-        // Initialize history with the loaded document
-        historyRef.current = [html];
-        historyIndexRef.current = 0;
-        
-        setDocState({
-          file: file,
-          name: file.name,
-          htmlContent: html,
-          isProcessing: false,
-          isLoaded: true,
-          lastUpdated: Date.now()
-        });
+        openDocument(html, file.name, file);
         console.log('Document loaded successfully');
       }, 0);
       
@@ -111,7 +142,10 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateDocument = (newHtml: string) => {
+  const handleUpdateDocument = (updatedHtml: string) => {
+    // New blocks (typed paragraphs, AI inserts) get ids; existing ids are kept
+    const newHtml = ensureBlockIds(updatedHtml);
+    
     // Don't add to history if this is an undo/redo operation
     if (!isUndoRedoRef.current) {
       // Remove any future history if we're not at the end
@@ -145,7 +179,7 @@ const App: React.FC = () => {
     if (historyIndexRef.current > 0) {
       historyIndexRef.current--;
       isUndoRedoRef.current = true;
-      const previousContent = historyRef.current[historyIndexRef.current];
+      const previousContent = sanitizeDocumentHtml(historyRef.current[historyIndexRef.current], 'history');
       setDocState(prev => ({
         ...prev,
         htmlContent: previousContent,
@@ -160,7 +194,7 @@ const App: React.FC = () => {
     if (historyIndexRef.current < historyRef.current.length - 1) {
       historyIndexRef.current++;
       isUndoRedoRef.current = true;
-      const nextContent = historyRef.current[historyIndexRef.current];
+      const nextContent = sanitizeDocumentHtml(historyRef.current[historyIndexRef.current], 'history');
       setDocState(prev => ({
         ...prev,
         htmlContent: nextContent,
@@ -170,8 +204,28 @@ const App: React.FC = () => {
     }
   };
 
+  const handleAskAiAboutSelection = (scope: SelectionScope) => {
+    setSelectionScope(scope);
+    setIsChatOpen(true); // Mobile: bring the chat panel in
+  };
+
+  // Citations in chat answers: bring the block into view and outline it briefly
+  const handleCitationClick = (blockId: string) => {
+    const block = editorRef.current?.querySelector<HTMLElement>(`[${BLOCK_ID_ATTR}="${blockId}"]`);
+    if (!block) {
+      alert('That part of the document no longer exists.');
+      return;
+    }
+    setIsChatOpen(false); // Mobile: get the chat panel out of the way
+    block.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    block.classList.add('linked-block');
+    setTimeout(() => block.classList.remove('linked-block'), 1500);
+  };
+
   const handleReset = () => {
     if (confirm("Are you sure? All unsaved changes will be lost.")) {
+      setSelectionScope(null);
+      setTranslation(null);
       setDocState({
         file: null,
         name: '',
@@ -183,14 +237,31 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExport = async (filename: string, format: 'docx' | 'pdf') => {
-    if (!docState.htmlContent) return;
+  const handleTranslated = (result: TranslationResult) => {
+    setTranslation(result);
+    setIsTranslateModalOpen(false);
+  };
+
+  const handleTranslationChange = (newHtml: string) => {
+    setTranslation(prev => prev ? { ...prev, html: ensureBlockIds(newHtml) } : prev);
+  };
+
+  const handleCloseTranslation = () => {
+    if (confirm("Close the translation? Export it first if you want to keep it.")) {
+      setTranslation(null);
+    }
+  };
+
+  const handleExport = async (filename: string, format: 'docx' | 'pdf', version: ExportVersion = 'original') => {
+    const exportTranslation = version === 'translation' && translation;
+    const htmlContent = exportTranslation ? translation.html : docState.htmlContent;
+    if (!htmlContent) return;
     
     const cleanFilename = filename.replace(/\.(pdf|docx)$/, '');
 
     if (format === 'docx') {
         try {
-            const blob = exportToWord(docState.htmlContent);
+            const blob = exportToWord(htmlContent);
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -204,7 +275,7 @@ const App: React.FC = () => {
     } else {
         // PDF Export
         try {
-            await generatePdf(editorRef.current, cleanFilename);
+            await generatePdf(exportTranslation ? translationEditorRef.current : editorRef.current, cleanFilename);
         } catch (e) {
             console.error("PDF Export failed", e);
             alert("Failed to generate PDF. Make sure all content is loaded.");
@@ -219,12 +290,14 @@ const App: React.FC = () => {
       <Header 
         onReset={handleReset} 
         onExportClick={() => setIsExportModalOpen(true)} 
+        onTranslateClick={docState.isLoaded ? () => setIsTranslateModalOpen(true) : undefined}
+        onDiagnosticsClick={docState.isLoaded ? () => setIsDiagnosticsOpen(true) : undefined}
         docName={docState.name}
       />
 
       <main className="flex-1 flex overflow-hidden h-[calc(100vh-64px)]">
         {!docState.isLoaded ? (
-          <UploadZone onFileAccepted={handleFileUpload} isProcessing={docState.isProcessing} />
+          <UploadZone onFileAccepted={handleFileUpload} isProcessing={docState.isProcessing} onNewReportClick={() => setIsNewReportOpen(true)} onBatchClick={() => setIsBatchOpen(true)} />
         ) : (
           <div className="flex md:flex-row w-full h-full relative">
             {/* Desktop: Fixed sidebar, Mobile: Slide-in panel */}
@@ -238,9 +311,13 @@ const App: React.FC = () => {
               ${isChatOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}
             `}>
               <ChatInterface 
+                key={sessionId}
                 documentHtml={docState.htmlContent} 
                 onUpdateDocument={handleUpdateDocument}
                 isProcessing={docState.isProcessing}
+                selectionScope={selectionScope}
+                onClearSelectionScope={() => setSelectionScope(null)}
+                onCitationClick={handleCitationClick}
               />
             </div>
 
@@ -254,11 +331,26 @@ const App: React.FC = () => {
 
             {/* Document Editor */}
             <div className="flex-1 h-full overflow-hidden bg-[#0a0a0a] relative md:ml-[400px]">
-               <DocumentEditor 
+              {translation ? (
+                <TranslationView
+                  sourceHtml={docState.htmlContent}
+                  translatedHtml={translation.html}
+                  language={translation.language}
+                  untranslatedCount={translation.untranslatedBlockIds.length}
+                  onSourceChange={handleUpdateDocument}
+                  onTranslationChange={handleTranslationChange}
+                  sourceEditorRef={editorRef}
+                  translationEditorRef={translationEditorRef}
+                  onClose={handleCloseTranslation}
+                />
+              ) : (
+                <DocumentEditor 
                   htmlContent={docState.htmlContent}
                   onContentChange={handleUpdateDocument}
                   editorRef={editorRef}
-               />
+                  onAskAiAboutSelection={handleAskAiAboutSelection}
+                />
+              )}
             </div>
 
             {/* Mobile: Floating AI Button */}
@@ -285,6 +377,30 @@ const App: React.FC = () => {
         onClose={() => setIsExportModalOpen(false)}
         onExport={handleExport}
         initialFilename={docState.name}
+        translationLanguage={translation?.language}
+      />
+
+      <TranslateModal
+        isOpen={isTranslateModalOpen}
+        onClose={() => setIsTranslateModalOpen(false)}
+        documentHtml={docState.htmlContent}
+        onTranslated={handleTranslated}
+      />
+
+      <NewReportWizard
+        isOpen={isNewReportOpen}
+        onClose={() => setIsNewReportOpen(false)}
+        onCreate={handleReportCreated}
+      />
+
+      <SanitizeDiagnosticsModal
+        isOpen={isDiagnosticsOpen}
+        onClose={() => setIsDiagnosticsOpen(false)}
+      />
+
+      <BatchModal
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
       />
     </div>
   );
@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Files, Check, AlertCircle, Loader2, Download, ChevronDown, ChevronRight, Trash2, Square, FileText } from 'lucide-react';
+import { Button } from './Button';
+import { ChangePreview, KIND_LABELS } from './ReviewChangesModal';
+import {
+  BATCH_REPORT_FILE_NAME, BatchFileStatus, BatchItem, buildBatchReport, buildBatchZip, createBatchItems, editedFileName, runBatch
+} from '../services/batchService';
+import { describeQueueStatus } from '../services/requestQueue';
+
+interface BatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchFileStatus, string> = {
+  pending: 'Waiting',
+  importing: 'Importing',
+  editing: 'Editing',
+  exporting: 'Exporting',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const isActive = (status: BatchFileStatus) => status === 'importing' || status === 'editing' || status === 'exporting';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const StatusIcon: React.FC<{ status: BatchFileStatus }> = ({ status }) => {
+  if (status === 'done') return <Check size={12} className="text-green-400 flex-shrink-0" />;
+  if (status === 'failed') return <AlertCircle size={12} className="text-red-400 flex-shrink-0" />;
+  if (isActive(status)) return <Loader2 size={12} className="animate-spin text-zinc-400 flex-shrink-0" />;
+  return <div className="w-3 h-3 rounded-full border border-zinc-600 flex-shrink-0" />;
+};
+
+export const BatchModal: React.FC<BatchModalProps> = ({ isOpen, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [instruction, setInstruction] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (!isOpen) return null;
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const docxFiles = Array.from(files).filter(file => file.name.toLowerCase().endsWith('.docx'));
+    if (docxFiles.length < files.length) {
+      alert('Only Word (.docx) files can be processed; the other files were skipped.');
+    }
+    setItems(prev => [...prev, ...createBatchItems(docxFiles)]);
+  };
+
+  const handleRun = async () => {
+    const prompt = instruction.trim();
+    if (!prompt || isRunning) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(items, prompt, { signal: controller.signal, onUpdate: setItems });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      downloadBlob(await buildBatchZip(items, instruction.trim()), 'reportremix-batch.zip');
+    } catch (e) {
+      console.error('Batch zip failed', e);
+      alert('Failed to build the zip file.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed' || item.status === 'cancelled').length;
+  const remainingCount = items.length - doneCount;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-3xl max-h-[85vh] flex flex-col p-5 md:p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xl font-serif font-bold text-white">Batch Edit</h3>
+          <button onClick={handleClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-zinc-500 mb-6">
+          Apply one instruction to many Word documents. Each file is imported, edited by the AI and exported again; requests wait their turn in the same queue as the chat.
+        </p>
+
+        <div className="space-y-5 overflow-y-auto flex-1 min-h-0">
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">Instruction</label>
+            <textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              disabled={isRunning}
+              rows={2}
+              className="w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded focus:ring-1 focus:ring-zinc-700 focus:border-zinc-700 outline-none text-sm text-white disabled:opacity-50 resize-none"
+              placeholder='e.g. Replace "Acme Ltd" with "Acme Group" everywhere, or add the standard disclaimer at the end'
+            />
+          </div>
+
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (!isRunning) addFiles(e.dataTransfer.files);
+            }}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-zinc-300">Files</label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".docx"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning} icon={<Files size={14} />}>
+                Add files
+              </Button>
+            </div>
+
+            {items.length === 0 ? (
+              <div className="border border-dashed border-zinc-800 rounded p-6 text-center text-sm text-zinc-500">
+                Drop .docx files here or use <strong className="text-zinc-300 font-medium">Add files</strong>
+              </div>
+            ) : (
+              <table className="w-full text-xs border border-zinc-800 rounded">
+                <thead>
+                  <tr className="text-left text-zinc-500 border-b border-zinc-800">
+                    <th className="font-medium px-3 py-2">File</th>
+                    <th className="font-medium px-3 py-2 w-40">Status</th>
+                    <th className="font-medium px-3 py-2 w-20">Changes</th>
+                    <th className="w-16"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => {
+                    const isExpanded = expandedId === item.id;
+                    const canPreview = item.status === 'done';
+                    return (
+                      <React.Fragment key={item.id}>
+                        <tr className="border-b border-zinc-800/60 align-top">
+                          <td className="px-3 py-2">
+                            <button
+                              onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                              disabled={!canPreview}
+                              className="flex items-center gap-1 text-left text-zinc-200 disabled:cursor-default"
+                            >
+                              {canPreview
+                                ? (isExpanded ? <ChevronDown size={12} className="flex-shrink-0" /> : <ChevronRight size={12} className="flex-shrink-0" />)
+                                : <span className="w-3 flex-shrink-0" />}
+                              <span className="truncate max-w-[260px]" title={item.file.name}>{item.file.name}</span>
+                            </button>
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="flex items-center gap-1.5 text-zinc-300">
+                              <StatusIcon status={item.status} />
+                              <span>{STATUS_LABELS[item.status]}</span>
+                            </div>
+                            {item.queue && <p className="text-zinc-500 mt-0.5">{describeQueueStatus(item.queue, now)}</p>}
+                            {item.error && <p className="text-red-400 mt-0.5 break-words">{item.error}</p>}
+                            {item.warning && <p className="text-amber-400 mt-0.5">{item.warning}</p>}
+                          </td>
+                          <td className="px-3 py-2 text-zinc-300">{item.changes ? item.changes.length : '–'}</td>
+                          <td className="px-3 py-2">
+                            <div className="flex items-center justify-end gap-2">
+                              {item.result && (
+                                <button
+                                  onClick={() => downloadBlob(item.result as Blob, editedFileName(item.file.name))}
+                                  className="text-zinc-500 hover:text-zinc-200"
+                                  title="Download this file"
+                                >
+                                  <Download size={14} />
+                                </button>
+                              )}
+                              {!isRunning && (
+                                <button
+                                  onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                                  className="text-zinc-500 hover:text-red-400"
+                                  title="Remove from the batch"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b border-zinc-800/60">
+                            <td colSpan={4} className="px-3 py-3 bg-zinc-950/60">
+                              {item.summary && <p className="text-zinc-300 mb-2">{item.summary}</p>}
+                              {item.changes && item.changes.length > 0 ? (
+                                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                                  {item.changes.map(change => {
+                                    const kind = KIND_LABELS[change.kind];
+                                    return (
+                                      <li key={change.id} className="rounded border border-zinc-800 bg-zinc-900 p-2 leading-relaxed break-words">
+                                        <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-medium mb-1 ${kind.className}`}>
+                                          {kind.icon} {kind.label}
+                                        </span>
+                                        <ChangePreview change={change} />
+                                      </li>
+                                    );
+                                  })}
+                                </ul>
+                              ) : (
+                                <p className="text-zinc-500">The AI made no changes to this document.</p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 pt-4 mt-4 border-t border-zinc-800">
+          <p className="text-xs text-zinc-500">
+            {items.length > 0 && `${doneCount} of ${items.length} done${failedCount > 0 ? `, ${failedCount} failed` : ''}`}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {failedCount > 0 && !isRunning && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => downloadBlob(new Blob([buildBatchReport(items, instruction.trim())], { type: 'text/plain' }), BATCH_REPORT_FILE_NAME)}
+                icon={<FileText size={14} />}
+              >
+                Failure report
+              </Button>
+            )}
+            {doneCount > 0 && !isRunning && (
+              <Button variant="secondary" size="sm" onClick={handleDownloadZip} isLoading={isZipping} icon={<Download size={14} />}>
+                Download zip
+              </Button>
+            )}
+            {isRunning ? (
+              <Button variant="secondary" size="sm" onClick={() => abortRef.current?.abort()} icon={<Square className="w-3 h-3" />}>
+                Stop
+              </Button>
+            ) : (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleRun}
+                disabled={!instruction.trim() || remainingCount === 0}
+              >
+                {doneCount > 0 && remainingCount > 0 ? `Run remaining ${remainingCount}` : `Run on ${items.length} ${items.length === 1 ? 'file' : 'files'}`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
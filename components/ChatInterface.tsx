@@ -1,31 +1,72 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Wand2, X, Quote, Paperclip, FileText, Image as ImageIcon } from 'lucide-react';
-import { Message } from '../types';
-import { getDocumentEditSuggestions } from '../services/geminiService';
+import { Send, Bot, User, Wand2, X, Quote, Paperclip, FileText, Image as ImageIcon, Layers, Check, AlertCircle, Loader2, RotateCcw, Square, BookMarked } from 'lucide-react';
+import { ChunkProgress, Message, QueueStatus, SelectionScope } from '../types';
+import { answerDocumentQuestion, classifyRequestIntent, editDocumentChunk, getChunkedEditSuggestions, getDocumentEditSuggestions, getSelectionEditSuggestions, StreamProgress } from '../services/geminiService';
+import { citationBlockId } from '../services/questionService';
+import { applyLayoutCommand } from '../services/layoutCommandService';
+import { DEFAULT_CHUNK_TOKEN_BUDGET, DocumentChunk, estimateTokens } from '../services/chunkService';
+import { replaceBlocks } from '../services/patchService';
+import { applyAcceptedChanges, BlockChange, diffBlocks } from '../services/diffService';
+import { formatValidationReport } from '../services/validationService';
+import { formatImageRepairReport } from '../services/imageRepairService';
+import { formatToolLog } from '../services/editorToolService';
+import { describeQueueStatus } from '../services/requestQueue';
+import { getPromptLibrary, loadCustomCommands, matchCommands, parseSlashCommand, saveCustomCommands, SlashCommand } from '../services/promptLibrary';
+import { prepareAttachments } from '../services/attachmentService';
+import { AiAttachment } from '../services/aiProviders';
+import { buildConversationHistory } from '../services/conversationService';
+import { AI_PROVIDERS, AiProviderId, getActiveProvider, setActiveProvider } from '../services/aiProviders';
 import ReactMarkdown from 'react-markdown';
+import { ReviewChangesModal } from './ReviewChangesModal';
+import { PromptLibraryModal } from './PromptLibraryModal';
 
 interface ChatInterfaceProps {
   documentHtml: string;
   onUpdateDocument: (newHtml: string) => void;
   isProcessing: boolean;
+  selectionScope?: SelectionScope | null;
+  onClearSelectionScope?: () => void;
+  onCitationClick?: (blockId: string) => void; // Scrolls the editor to a block cited in an answer
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   documentHtml, 
   onUpdateDocument, 
-  isProcessing: globalProcessing
+  isProcessing: globalProcessing,
+  selectionScope,
+  onClearSelectionScope,
+  onCitationClick
 }) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: 'welcome',
       role: 'system',
-      content: "I'm ready. I can read and write this document. Ask me to:\n- *\"Rewrite the introduction\"*\n- *\"Fix grammar in the second paragraph\"*\n- *\"Format the list as a table\"*\n\nYou can also upload images or documents as reference!",
+      content: "I'm ready. I can read and write this document. Ask me to:\n- *\"Rewrite the introduction\"*\n- *\"Fix grammar in the second paragraph\"*\n- *\"Format the list as a table\"*\n\nOr ask questions like *\"What does section 4 conclude?\"* - I'll answer without touching the document.\n\nYou can also upload images or documents as reference!",
       timestamp: Date.now()
     }
   ]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isAnswering, setIsAnswering] = useState(false); // Read-only question, not an edit
+  const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  // Ticks once a second while a request is pending so queue countdowns stay current
+  const [now, setNow] = useState(Date.now());
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  const [providerId, setProviderId] = useState<AiProviderId>(getActiveProvider().id);
+  const [chunkLargeDocs, setChunkLargeDocs] = useState(true);
+  // Slash commands: the user's saved commands, and the highlighted autocomplete entry
+  const [customCommands, setCustomCommands] = useState<SlashCommand[]>(loadCustomCommands);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const library = getPromptLibrary(customCommands);
+  const suggestions = matchCommands(input, library);
+  // Chunked jobs by progress message id, kept so individual chunks can be retried later
+  const chunkJobsRef = useRef<Record<string, { chunks: DocumentChunk[]; prompt: string; attachments: AiAttachment[]; history: string; instruction?: string }>>({});
+  // AI proposal waiting for the user to accept or reject its changes
+  // onResolved hears whether the changes were applied, for callers that track their own status
+  const [pendingReview, setPendingReview] = useState<{ changes: BlockChange[]; summary?: string; onResolved?: (applied: boolean) => void } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -37,6 +78,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages]);
 
+  // Don't leave a request running for a chat that's gone (new document, reset)
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const hasQueuedChunks = messages.some(m => m.chunks?.some(chunk => chunk.queue));
+  useEffect(() => {
+    if (!isTyping && !hasQueuedChunks) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isTyping, hasQueuedChunks]);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     const validFiles = files.filter(file => {
@@ -60,6 +111,148 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setAttachedFiles(prev => [...prev, ...validFiles].slice(0, 2));
   };
 
+  const handleSaveCustomCommands = (commands: SlashCommand[]) => {
+    saveCustomCommands(commands);
+    setCustomCommands(commands);
+  };
+
+  const completeCommand = (command: SlashCommand) => {
+    setInput(`/${command.name} `);
+    setSuggestionIndex(0);
+  };
+
+  const handleProviderChange = (id: AiProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const updateMessage = (id: string, update: Partial<Message>) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...update } : m));
+  };
+
+  const addModelMessage = (content: string) => {
+    setMessages(prev => [...prev, {
+      // Several reports can land in the same tick, so the timestamp alone isn't unique
+      id: `${Date.now()}-${prev.length}`,
+      role: 'model',
+      content,
+      timestamp: Date.now()
+    }]);
+  };
+
+  // AI updates never go straight into the document - they are diffed and reviewed first
+  const reviewUpdate = (proposedHtml: string, summary?: string, onResolved?: (applied: boolean) => void) => {
+    const changes = diffBlocks(documentHtml, proposedHtml);
+    if (changes.length === 0) {
+      const unchanged = 'No changes to the document were needed.';
+      addModelMessage(summary ? `${summary}\n\n${unchanged}` : unchanged);
+      onResolved?.(true);
+      return;
+    }
+    setPendingReview({ changes, summary, onResolved });
+  };
+
+  const handleApplyReview = (acceptedIds: Set<string>) => {
+    if (!pendingReview) return;
+    const { changes, summary, onResolved } = pendingReview;
+    onUpdateDocument(applyAcceptedChanges(documentHtml, changes, acceptedIds));
+    setPendingReview(null);
+    onResolved?.(true);
+
+    const applied = acceptedIds.size === changes.length
+      ? `Done. I've applied all ${changes.length} ${changes.length === 1 ? 'change' : 'changes'}.`
+      : `Done. I've applied ${acceptedIds.size} of ${changes.length} changes; the rest were rejected.`;
+    addModelMessage(summary ? `${summary}\n\n${applied}` : applied);
+  };
+
+  const handleDiscardReview = () => {
+    if (!pendingReview) return;
+    setPendingReview(null);
+    pendingReview.onResolved?.(false);
+    addModelMessage(`Discarded ${pendingReview.changes.length === 1 ? 'the proposed change' : `all ${pendingReview.changes.length} proposed changes`}. The document was left unchanged.`);
+  };
+
+  const summarizeChunks = (progress: ChunkProgress[]) => {
+    const failed = progress.filter(p => p.status === 'failed').length;
+    const done = progress.filter(p => p.status === 'done').length;
+    // The edit still goes through review, so nothing is in the document yet
+    return failed === 0
+      ? `Edited all ${progress.length} parts. The changes are ready to review.`
+      : `Edited ${done} of ${progress.length} parts; the changes are ready to review. ${failed} ${failed === 1 ? 'part' : 'parts'} failed and ${failed === 1 ? 'was' : 'were'} left unchanged - use Retry to try again.`;
+  };
+
+  // Large documents: edit heading-bounded chunks in parallel and report progress in a single message
+  const runChunkedEdit = async (prompt: string, attachments: AiAttachment[], history: string, instruction: string | undefined, signal: AbortSignal) => {
+    const progressId = `chunks-${Date.now()}`;
+    setMessages(prev => [...prev, {
+      id: progressId,
+      role: 'model',
+      content: 'This document is large, so I\'m editing it section by section...',
+      timestamp: Date.now(),
+      chunks: []
+    }]);
+
+    const result = await getChunkedEditSuggestions(documentHtml, prompt, {
+      signal,
+      attachments,
+      history,
+      instruction,
+      onProgress: (progress) => updateMessage(progressId, { chunks: progress })
+    });
+
+    chunkJobsRef.current[progressId] = { chunks: result.chunks, prompt, attachments, history, instruction };
+    result.imageRepairs.forEach(({ label, report }) => addModelMessage(`**${label}**\n\n${formatImageRepairReport(report)}`));
+    reviewUpdate(result.html);
+    updateMessage(progressId, { content: summarizeChunks(result.progress), chunks: result.progress });
+  };
+
+  const handleRetryChunk = async (messageId: string, index: number) => {
+    const job = chunkJobsRef.current[messageId];
+    const message = messages.find(m => m.id === messageId);
+    if (!job || !message?.chunks || isTyping) return;
+
+    const setChunk = (update: Partial<ChunkProgress>) => {
+      setMessages(prev => prev.map(m => m.id === messageId && m.chunks
+        ? { ...m, chunks: m.chunks.map(c => c.index === index ? { ...c, ...update } : c) }
+        : m));
+    };
+
+    const chunk = job.chunks[index];
+    const attempts = (message.chunks[index]?.attempts || 0) + 1;
+    setChunk({ status: 'retrying', attempts, error: undefined });
+
+    // A retry is a request like any other: Stop cancels it, and so does closing the chat
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsTyping(true);
+
+    try {
+      const response = await editDocumentChunk(chunk, job.chunks.length, job.prompt, {
+        signal: controller.signal,
+        attachments: job.attachments,
+        history: job.history,
+        instruction: job.instruction,
+        onQueueStatus: status => setChunk({ queue: status.state === 'running' ? undefined : status })
+      });
+      if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+      if (response.imageRepair) {
+        addModelMessage(formatImageRepairReport(response.imageRepair));
+      }
+      // Splice by block id so edits made since the original run are kept
+      // The part only counts as done once its changes are applied
+      setChunk({ status: 'pending', queue: undefined });
+      reviewUpdate(replaceBlocks(documentHtml, chunk.blockIds, response.content), undefined, applied =>
+        setChunk(applied ? { status: 'done' } : { status: 'failed', error: 'The proposed changes were discarded' })
+      );
+    } catch (error) {
+      const reason = controller.signal.aborted ? 'Stopped' : error instanceof Error ? error.message : 'Unknown error';
+      setChunk({ status: 'failed', error: reason, queue: undefined });
+    } finally {
+      abortControllerRef.current = null;
+      setIsTyping(false);
+    }
+  };
+
   const removeFile = (index: number) => {
     setAttachedFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -67,8 +260,37 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const handleSendMessage = async () => {
     if ((!input.trim() && attachedFiles.length === 0) || isTyping) return;
 
+    // Slash commands expand into a saved prompt plus an optional system-instruction fragment
+    let prompt = input;
+    let instruction: string | undefined;
+    let isCommand = false;
+    try {
+      const command = parseSlashCommand(input, library);
+      if (command) {
+        prompt = command.prompt;
+        instruction = command.instruction;
+        isCommand = true;
+      }
+    } catch (error) {
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'system',
+        content: error instanceof Error ? error.message : 'Invalid command',
+        timestamp: Date.now()
+      }]);
+      return;
+    }
+
     let messageContent = input;
     
+    // Quote the selection the request is scoped to
+    if (selectionScope) {
+      const quoted = selectionScope.preview.length > 200
+        ? selectionScope.preview.slice(0, 200) + '…'
+        : selectionScope.preview;
+      messageContent = `> ${quoted.replace(/\n+/g, ' ')}\n\n${messageContent}`;
+    }
+    
     // Add file info to message
     if (attachedFiles.length > 0) {
       messageContent += '\n\n📎 Attached files:\n' + 
@@ -82,25 +304,91 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       timestamp: Date.now()
     };
 
+    // Earlier turns (not including this one) so follow-ups can refer back
+    const history = buildConversationHistory(messages);
+
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     const currentFiles = [...attachedFiles];
     setAttachedFiles([]);
+    const scope = selectionScope;
+    onClearSelectionScope?.();
     setIsTyping(true);
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    
     try {
-      // Send the entire document HTML to Gemini
-      const response = await getDocumentEditSuggestions(documentHtml, input);
+      // Page layout commands are parsed and applied locally - exact, instant and free.
+      // They do exactly what was asked, so the result is applied directly and one Undo reverts it
+      if (!isCommand && !scope && currentFiles.length === 0) {
+        const layout = await applyLayoutCommand(documentHtml, prompt);
+        if (layout) {
+          if (layout.changed) onUpdateDocument(layout.html);
+          addModelMessage(layout.summary);
+          return;
+        }
+      }
 
-      if (response.type === 'update') {
-        onUpdateDocument(response.content);
-        
+      // Attachments go to the model as real context: images inline, documents as extracted text
+      const { attachments, notes } = await prepareAttachments(currentFiles);
+      if (notes.length > 0) {
         setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'model',
-            content: "Done. I've updated the document.",
-            timestamp: Date.now()
+          id: `attachments-${Date.now()}`,
+          role: 'system',
+          content: '📎 ' + notes.join('\n\n📎 '),
+          timestamp: Date.now()
         }]);
+      }
+
+      // Questions are answered in the chat and never touch the document; commands are always edits
+      const intent = isCommand || !prompt.trim()
+        ? 'edit'
+        : await classifyRequestIntent(prompt, { signal, onQueueStatus: setQueueStatus, history });
+      if (intent === 'question') {
+        setIsAnswering(true);
+        const answer = await answerDocumentQuestion(documentHtml, prompt, {
+          signal,
+          onQueueStatus: setQueueStatus,
+          attachments,
+          history,
+          instruction,
+          blockIds: scope?.blockIds
+        });
+        if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        addModelMessage(answer.content);
+        return;
+      }
+
+      if (!scope && chunkLargeDocs && estimateTokens(documentHtml) > DEFAULT_CHUNK_TOKEN_BUDGET) {
+        await runChunkedEdit(prompt, attachments, history, instruction, signal);
+        return;
+      }
+
+      // Selection-scoped requests only send the selected blocks; otherwise send the whole document
+      const options = { signal, onStream: setStreamProgress, onQueueStatus: setQueueStatus, attachments, history, instruction };
+      const response = scope
+        ? await getSelectionEditSuggestions(documentHtml, scope.blockIds, prompt, options)
+        : await getDocumentEditSuggestions(documentHtml, prompt, options);
+
+      // Stopped after the reply arrived but before it was applied - keep the original
+      if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+      if (response.type === 'update') {
+        if (response.imageRepair) {
+          addModelMessage(formatImageRepairReport(response.imageRepair));
+        }
+        if (response.toolExecutions) {
+          // Tool call edits are reviewed like any other; the command log becomes the summary
+          const log = formatToolLog(response.toolExecutions);
+          reviewUpdate(response.content, response.summary ? `${response.summary}\n\n${log}` : log);
+          return;
+        }
+        if (response.validationIssues) {
+          addModelMessage(formatValidationReport(response.validationIssues));
+        }
+        reviewUpdate(response.content, response.summary);
       } else {
         setMessages(prev => [...prev, {
             id: Date.now().toString(),
@@ -111,6 +399,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       }
 
     } catch (error) {
+      if (signal.aborted) {
+        setMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          role: 'model',
+          content: "⏹️ Stopped. The document was left unchanged.",
+          timestamp: Date.now()
+        }]);
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
       setMessages(prev => [...prev, {
         id: Date.now().toString(),
@@ -119,17 +416,66 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         timestamp: Date.now()
       }]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamProgress(null);
+      setQueueStatus(null);
+      setIsAnswering(false);
       setIsTyping(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#111111] border-r border-zinc-800">
+      <ReviewChangesModal
+        changes={pendingReview?.changes || null}
+        summary={pendingReview?.summary}
+        onApply={handleApplyReview}
+        onDiscard={handleDiscardReview}
+      />
+      <PromptLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        library={library}
+        customCommands={customCommands}
+        onSaveCustomCommands={handleSaveCustomCommands}
+      />
+
       <div className="p-3 md:p-4 border-b border-zinc-800 bg-[#0a0a0a] flex items-center justify-between gap-2">
         <div className="flex items-center gap-2">
           <Wand2 className="w-4 h-4 text-zinc-400" />
           <h2 className="text-sm font-semibold text-white">AI Assistant</h2>
         </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="p-1.5 rounded text-zinc-500 hover:bg-zinc-800 transition-colors"
+            title="Prompt library (slash commands)"
+          >
+            <BookMarked size={14} />
+          </button>
+          <button
+            onClick={() => setChunkLargeDocs(!chunkLargeDocs)}
+            className={`p-1.5 rounded transition-colors ${chunkLargeDocs ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:bg-zinc-800'}`}
+            title={chunkLargeDocs ? 'Large documents are edited section by section (click to disable)' : 'Chunked editing for large documents is off (click to enable)'}
+          >
+            <Layers size={14} />
+          </button>
+          <select
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+            disabled={isTyping}
+            className="bg-zinc-900 border border-zinc-800 rounded text-xs text-zinc-300 px-2 py-1 outline-none focus:border-zinc-700 disabled:opacity-50"
+            title="AI Provider"
+          >
+            {Object.values(AI_PROVIDERS).map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        </div>
       </div>
       
       {/* Messages Area */}
@@ -151,8 +497,55 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   : 'bg-zinc-900 text-zinc-200 border border-zinc-800'
               }`}>
                 <div className="prose prose-sm max-w-none prose-p:my-1 prose-headings:my-2 prose-invert">
-                  <ReactMarkdown>{msg.content}</ReactMarkdown>
+                  <ReactMarkdown
+                    components={{
+                      // Citations in answers ([1](#block-...)) jump to the block instead of navigating
+                      a: ({ href, children }) => {
+                        const blockId = citationBlockId(href);
+                        return blockId ? (
+                          <button
+                            onClick={() => onCitationClick?.(blockId)}
+                            className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 rounded bg-zinc-800 text-[10px] font-medium text-zinc-200 border border-zinc-700 hover:bg-zinc-700 hover:text-white align-text-top no-underline"
+                            title="Show in document"
+                          >
+                            {children}
+                          </button>
+                        ) : (
+                          <a href={href} target="_blank" rel="noreferrer">{children}</a>
+                        );
+                      }
+                    }}
+                  >
+                    {msg.content}
+                  </ReactMarkdown>
                 </div>
+                {msg.chunks && msg.chunks.length > 0 && (
+                  <ul className="mt-3 space-y-1.5 text-xs">
+                    {msg.chunks.map(chunk => (
+                      <li key={chunk.index} className="flex items-center gap-2">
+                        {chunk.status === 'done' && <Check size={12} className="text-green-400 flex-shrink-0" />}
+                        {chunk.status === 'failed' && <AlertCircle size={12} className="text-red-400 flex-shrink-0" />}
+                        {(chunk.status === 'running' || chunk.status === 'retrying') && <Loader2 size={12} className="animate-spin text-zinc-400 flex-shrink-0" />}
+                        {chunk.status === 'pending' && <div className="w-3 h-3 rounded-full border border-zinc-600 flex-shrink-0" />}
+                        <span className="flex-1 truncate text-zinc-300" title={chunk.error || chunk.label}>
+                          {chunk.index + 1}. {chunk.label}
+                        </span>
+                        {chunk.queue && <span className="text-zinc-500">{describeQueueStatus(chunk.queue, now)}</span>}
+                        {chunk.attempts > 1 && <span className="text-zinc-500">try {chunk.attempts}</span>}
+                        {chunk.status === 'failed' && chunkJobsRef.current[msg.id] && (
+                          <button
+                            onClick={() => handleRetryChunk(msg.id, chunk.index)}
+                            disabled={isTyping}
+                            className="flex items-center gap-1 text-zinc-400 hover:text-white disabled:opacity-50"
+                            title={chunk.error}
+                          >
+                            <RotateCcw size={12} /> Retry
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </div>
           </div>
@@ -162,11 +555,22 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <div className="w-8 h-8 rounded-full bg-zinc-800 text-zinc-300 border border-zinc-700 flex items-center justify-center">
                     <Bot size={14} />
                 </div>
-                <div className="bg-zinc-900 text-zinc-400 py-3 px-4 rounded-lg text-xs border border-zinc-800 italic flex items-center gap-2">
-                   <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                   <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                   <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
-                   <span className="ml-1">Rewriting content...</span>
+                <div className="bg-zinc-900 text-zinc-400 py-3 px-4 rounded-lg text-xs border border-zinc-800 max-w-[85%]">
+                   {streamProgress?.summary && (
+                     <p className="text-sm text-zinc-200 not-italic mb-2">{streamProgress.summary}</p>
+                   )}
+                   <div className="italic flex items-center gap-2">
+                     <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                     <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                     <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+                     <span className="ml-1">
+                       {queueStatus && queueStatus.state !== 'running'
+                         ? describeQueueStatus(queueStatus, now)
+                         : streamProgress
+                           ? `Receiving... ${(streamProgress.receivedChars / 1024).toFixed(1)} KB · ${streamProgress.elementCount} elements`
+                           : isAnswering ? 'Reading the document...' : 'Rewriting content...'}
+                     </span>
+                   </div>
                 </div>
              </div>
         )}
@@ -197,7 +601,45 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
+        {/* Selection scope */}
+        {selectionScope && (
+          <div className="mb-3 flex items-start gap-2 bg-zinc-900 px-3 py-2 rounded-lg text-xs border border-zinc-800">
+            <Quote size={14} className="text-zinc-400 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <div className="text-zinc-400 mb-0.5">
+                Editing selection ({selectionScope.blockIds.length} {selectionScope.blockIds.length === 1 ? 'block' : 'blocks'})
+              </div>
+              <div className="text-zinc-300 line-clamp-2">{selectionScope.preview}</div>
+            </div>
+            <button
+              onClick={() => onClearSelectionScope?.()}
+              className="text-zinc-500 hover:text-zinc-300"
+              title="Edit the whole document instead"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
         <div className="relative">
+          {/* Slash command autocomplete */}
+          {suggestions.length > 0 && (
+            <ul className="absolute bottom-full left-0 right-0 mb-2 max-h-60 overflow-y-auto bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl py-1 z-10">
+              {suggestions.map((command, index) => (
+                <li key={command.name}>
+                  <button
+                    onMouseDown={(e) => { e.preventDefault(); completeCommand(command); }}
+                    className={`w-full text-left px-3 py-2 text-xs ${index === suggestionIndex % suggestions.length ? 'bg-zinc-800' : 'hover:bg-zinc-800'}`}
+                  >
+                    <span className="font-mono text-white">/{command.name}</span>
+                    {command.parameterHint && <span className="font-mono text-zinc-500"> {command.parameterHint}</span>}
+                    <span className="block text-zinc-400 mt-0.5">{command.description}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
           <input
             ref={fileInputRef}
             type="file"
@@ -219,35 +661,56 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
             <textarea
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setSuggestionIndex(0);
+              }}
               onKeyDown={(e) => {
+                if (suggestions.length > 0) {
+                  if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    setSuggestionIndex(index => (index + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length);
+                    return;
+                  }
+                  if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+                    e.preventDefault();
+                    completeCommand(suggestions[suggestionIndex % suggestions.length]);
+                    return;
+                  }
+                }
                 if (e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault();
                   handleSendMessage();
                 }
               }}
-              placeholder="Ask AI to edit your document..."
+              placeholder={selectionScope ? "Ask AI about the selection..." : "Ask AI to edit your document..."}
               className="flex-1 bg-transparent border-none outline-none resize-none py-2 text-sm text-zinc-200 placeholder-zinc-500 min-h-[40px] max-h-[120px]"
               disabled={globalProcessing}
               rows={1}
             />
             
-            <button
-              onClick={handleSendMessage}
-              disabled={isTyping || (!input.trim() && attachedFiles.length === 0) || globalProcessing}
-              className="p-2 bg-white text-black rounded-md hover:bg-zinc-200 transition-all disabled:opacity-50 disabled:bg-zinc-800 disabled:text-zinc-600 shadow-sm flex-shrink-0"
-            >
-              {isTyping ? (
-                <div className="animate-spin w-4 h-4 border-2 border-black border-t-transparent rounded-full" />
-              ) : (
+            {isTyping ? (
+              <button
+                onClick={handleStop}
+                className="p-2 bg-white text-black rounded-md hover:bg-zinc-200 transition-all shadow-sm flex-shrink-0"
+                title="Stop and keep the original document"
+              >
+                <Square size={18} strokeWidth={2} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={(!input.trim() && attachedFiles.length === 0) || globalProcessing}
+                className="p-2 bg-white text-black rounded-md hover:bg-zinc-200 transition-all disabled:opacity-50 disabled:bg-zinc-800 disabled:text-zinc-600 shadow-sm flex-shrink-0"
+              >
                 <Send size={18} strokeWidth={2} />
-              )}
-            </button>
+              </button>
+            )}
           </div>
         </div>
         
         <div className="mt-2 text-xs text-zinc-500 px-1">
-          💡 Press Enter to send, Shift+Enter for new line
+          💡 Press Enter to send, Shift+Enter for new line, / for commands
         </div>
       </div>
     </div>
@@ -4,14 +4,33 @@ import {
   Bold, Italic, Underline, 
   AlignLeft, AlignCenter, AlignRight, AlignJustify,
   Heading1, Heading2, List, ListOrdered,
-  Square, RefreshCw, Type, Palette
+  Square, RefreshCw, Type, Palette, Sparkles, ImagePlus, Table, TableOfContents, SpellCheck, BarChart3, MessageSquareText
 } from 'lucide-react';
 import { paginateHtml } from '../services/docService';
+import { BLOCK_ID_ATTR } from '../services/blockService';
+import { buildGeneratedImageHtml } from '../services/imageGenerationService';
+import { BlockAlignment, PAGE_BREAK_MARKER_HTML, buildTableHtml, setBlockAlignment, setHeadingLevel } from '../services/editorCommands';
+import { hasToc, insertToc, refreshToc } from '../services/tocService';
+import { extractClipboardFragment, sanitizeDocumentHtml } from '../services/sanitizeService';
+import {
+  ProofMatch, addCustomWord, clearProofMatches, findProofMatchAt, ignoreProofIssue,
+  paintProofMatches, proofPages, suggestWords
+} from '../services/proofingService';
+import { DocumentStatistics, SentenceStatistic, collectStatistics, findSentenceRange } from '../services/statisticsService';
+import { anchorComments, clearReviewHighlights, paintReviewHighlights, resolveCommentRange } from '../services/reviewService';
+import { GeneratedImage, ReviewComment, SelectionScope } from '../types';
+import { ImageGenerationPanel } from './ImageGenerationPanel';
+import { StatisticsPanel } from './StatisticsPanel';
+import { ReviewPanel } from './ReviewPanel';
 
 interface DocumentEditorProps {
   htmlContent: string;
   onContentChange: (newHtml: string) => void;
   editorRef: React.RefObject<HTMLDivElement | null>;
+  onAskAiAboutSelection?: (scope: SelectionScope) => void;
+  // Rendered as one pane of a split view: toolbar sits at the top of the pane instead of the window
+  embedded?: boolean;
+  scrollRef?: React.RefObject<HTMLDivElement | null>;
 }
 
 const ToolbarButton: React.FC<{ 
@@ -58,7 +77,21 @@ const FONTS = [
 
 const FONT_SIZES = ['8', '9', '10', '11', '12', '14', '16', '18', '20', '24', '28', '32', '36', '48', '72'];
 
-export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onContentChange, editorRef }) => {
+// Wait for a pause in typing before re-checking spelling and grammar
+const PROOFING_DELAY_MS = 800;
+// Statistics are cheap to re-sum, so they follow typing more closely
+const STATISTICS_DELAY_MS = 300;
+const DEFAULT_TABLE_ROWS = 3;
+const DEFAULT_TABLE_COLUMNS = 3;
+
+interface ProofMenuState {
+  x: number;
+  y: number;
+  match: ProofMatch;
+  suggestions: string[] | null; // null while spelling suggestions are being looked up
+}
+
+export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onContentChange, editorRef, onAskAiAboutSelection, embedded, scrollRef }) => {
   const [pages, setPages] = useState<string[]>([]);
   const [showBorder, setShowBorder] = useState(true);
   const [isPaginating, setIsPaginating] = useState(false);
@@ -66,6 +99,15 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
   const [selectedSize, setSelectedSize] = useState('11');
   const [textColor, setTextColor] = useState('#000000');
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [showImagePanel, setShowImagePanel] = useState(false);
+  const [proofingEnabled, setProofingEnabled] = useState(!embedded);
+  const [proofMenu, setProofMenu] = useState<ProofMenuState | null>(null);
+  // The docked panels share the right edge, so only one is open at a time
+  const [sidePanel, setSidePanel] = useState<'statistics' | 'review' | null>(null);
+  const [statistics, setStatistics] = useState<DocumentStatistics | null>(null);
+  const [reviewComments, setReviewComments] = useState<ReviewComment[]>([]);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [detachedCommentIds, setDetachedCommentIds] = useState<string[]>([]);
   
   // Store the last selection to restore after dropdown clicks
   const savedSelection = useRef<Range | null>(null);
@@ -76,6 +118,17 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
   // Debounce timer for repagination
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
+  // Offline proofing: the issues currently underlined and the pending re-check
+  const proofMatches = useRef<ProofMatch[]>([]);
+  const proofTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const proofRunRef = useRef(0);
+  const proofOwner = useRef(`editor_${Math.random().toString(36).slice(2, 8)}`);
+  const proofMenuRef = useRef<HTMLDivElement | null>(null);
+  const statisticsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Whether this editor painted the review highlights, so split views don't clear each other's
+  const reviewPaintedRef = useRef(false);
+  const refreshReviewRef = useRef<() => void>(() => {});
+  
   // Image resize state
   const [selectedImage, setSelectedImage] = useState<HTMLImageElement | null>(null);
   const resizeStartRef = useRef<{ width: number; height: number; x: number; y: number } | null>(null);
@@ -92,6 +145,14 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
         try {
             const newPages = await paginateHtml(htmlContent);
             setPages(newPages);
+
+            // Keep the table of contents in step with the new pagination
+            if (hasToc(htmlContent)) {
+                const refreshed = await refreshToc(htmlContent, newPages);
+                if (refreshed !== htmlContent) {
+                    onContentChange(refreshed);
+                }
+            }
         } catch (e) {
             console.error("Pagination failed", e);
             // Fallback: Show raw content
@@ -130,6 +191,9 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
   }, [pages]);
 
   const handleInput = (pageIndex: number) => {
+    scheduleProofing();
+    scheduleStatistics();
+
     // 1. Clear existing debounce
     if (debounceRef.current) {
         clearTimeout(debounceRef.current);
@@ -149,9 +213,211 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
         if (fullHtml) {
             onContentChange(fullHtml); 
         }
+        refreshReviewRef.current();
     }, 500); 
   };
 
+  // Underline spelling and grammar issues on the live pages
+  const runProofing = async () => {
+    const run = ++proofRunRef.current;
+    const matches = await proofPages(pageRefs.current.filter((ref): ref is HTMLDivElement => ref !== null));
+    if (run !== proofRunRef.current) return;
+    proofMatches.current = matches;
+    paintProofMatches(proofOwner.current, matches);
+  };
+
+  const scheduleProofing = (delay = PROOFING_DELAY_MS) => {
+    if (proofTimerRef.current) {
+      clearTimeout(proofTimerRef.current);
+    }
+    if (proofingEnabled) {
+      proofTimerRef.current = setTimeout(runProofing, delay);
+    }
+  };
+
+  // Re-check whenever the pages are rebuilt, and clear the underlines when proofing is off
+  useEffect(() => {
+    if (proofingEnabled) {
+      scheduleProofing(0);
+      return;
+    }
+    proofRunRef.current++;
+    proofMatches.current = [];
+    clearProofMatches(proofOwner.current);
+    setProofMenu(null);
+  }, [pages, proofingEnabled]);
+
+  useEffect(() => () => {
+    if (proofTimerRef.current) {
+      clearTimeout(proofTimerRef.current);
+    }
+    clearProofMatches(proofOwner.current);
+  }, []);
+
+  // The suggestions menu closes on any click outside it, on Escape and on scroll
+  useEffect(() => {
+    if (!proofMenu) return;
+    const close = (e: Event) => {
+      if (e.target instanceof Node && proofMenuRef.current?.contains(e.target)) return;
+      setProofMenu(null);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setProofMenu(null);
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('scroll', close, true);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('scroll', close, true);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [proofMenu]);
+
+  const openProofMenu = async (match: ProofMatch, x: number, y: number) => {
+    const needsLookup = match.issue.kind === 'spelling';
+    setProofMenu({ x, y, match, suggestions: needsLookup ? null : match.issue.suggestions });
+    if (needsLookup) {
+      const suggestions = await suggestWords(match.issue.text);
+      setProofMenu(current => current && current.match === match ? { ...current, suggestions } : current);
+    }
+  };
+
+  const applyProofSuggestion = (match: ProofMatch, replacement: string) => {
+    setProofMenu(null);
+    const pageIndex = pageRefs.current.findIndex(ref => ref && ref.contains(match.range.startContainer));
+    const page = pageRefs.current[pageIndex];
+    if (!page) return;
+
+    // insertText keeps the fix on the browser's undo stack
+    page.focus();
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(match.range.cloneRange());
+    document.execCommand('insertText', false, replacement);
+    handleInput(pageIndex);
+  };
+
+  const ignoreProofMatch = (match: ProofMatch) => {
+    setProofMenu(null);
+    ignoreProofIssue(match.issue);
+    runProofing();
+  };
+
+  const addToDictionary = (match: ProofMatch) => {
+    setProofMenu(null);
+    addCustomWord(match.issue.text);
+    runProofing();
+  };
+
+  // Counts come from the live pages, so they follow typing before the content is saved
+  const scheduleStatistics = (delay = STATISTICS_DELAY_MS) => {
+    if (statisticsTimerRef.current) {
+      clearTimeout(statisticsTimerRef.current);
+    }
+    if (sidePanel !== 'statistics') return;
+    statisticsTimerRef.current = setTimeout(() => {
+      const livePages = pageRefs.current.filter((ref): ref is HTMLDivElement => ref !== null);
+      setStatistics(collectStatistics(livePages, pages.length));
+    }, delay);
+  };
+
+  useEffect(() => {
+    scheduleStatistics(0);
+    return () => {
+      if (statisticsTimerRef.current) {
+        clearTimeout(statisticsTimerRef.current);
+      }
+    };
+  }, [pages, sidePanel]);
+
+  // Selects the sentence in the document and scrolls it into view
+  const jumpToSentence = (sentence: SentenceStatistic) => {
+    const livePages = pageRefs.current.filter((ref): ref is HTMLDivElement => ref !== null);
+    const range = findSentenceRange(livePages, sentence);
+    if (!range) {
+      alert('That sentence is no longer in the document.');
+      return;
+    }
+
+    const page = livePages.find(ref => ref.contains(range.startContainer));
+    page?.focus({ preventScroll: true });
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    range.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const getLivePages = () => pageRefs.current.filter((ref): ref is HTMLDivElement => ref !== null);
+
+  // Highlights each comment's quote on the live pages and notes the ones whose text is gone
+  const refreshReviewHighlights = () => {
+    if (sidePanel !== 'review' || reviewComments.length === 0) {
+      if (reviewPaintedRef.current) clearReviewHighlights();
+      reviewPaintedRef.current = false;
+      return;
+    }
+
+    const livePages = getLivePages();
+    const ranges = new Map<string, Range>();
+    reviewComments.forEach(comment => {
+      const range = resolveCommentRange(livePages, comment);
+      if (range) ranges.set(comment.id, range);
+    });
+    paintReviewHighlights(Array.from(ranges.values()), activeCommentId ? ranges.get(activeCommentId) || null : null);
+    reviewPaintedRef.current = true;
+
+    const detached = reviewComments.filter(comment => !ranges.has(comment.id)).map(comment => comment.id);
+    setDetachedCommentIds(current => current.join() === detached.join() ? current : detached);
+  };
+
+  // The save timer outlives the render that set it, so it reaches the latest comments through a ref
+  refreshReviewRef.current = refreshReviewHighlights;
+
+  useEffect(() => {
+    refreshReviewHighlights();
+  }, [pages, reviewComments, activeCommentId, sidePanel]);
+
+  useEffect(() => () => {
+    if (reviewPaintedRef.current) clearReviewHighlights();
+  }, []);
+
+  const handleReviewed = (comments: ReviewComment[]) => {
+    setReviewComments(anchorComments(getLivePages(), comments));
+    setActiveCommentId(null);
+  };
+
+  const selectComment = (comment: ReviewComment) => {
+    setActiveCommentId(comment.id);
+    const range = resolveCommentRange(getLivePages(), comment);
+    range?.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const dismissComment = (comment: ReviewComment) => {
+    setReviewComments(current => current.filter(item => item.id !== comment.id));
+    if (activeCommentId === comment.id) setActiveCommentId(null);
+  };
+
+  // Replaces the quoted text with the suggestion, the only way a review changes the document
+  const applyComment = (comment: ReviewComment) => {
+    const range = resolveCommentRange(getLivePages(), comment);
+    const pageIndex = range ? pageRefs.current.findIndex(ref => ref && ref.contains(range.startContainer)) : -1;
+    const page = pageRefs.current[pageIndex];
+    if (!range || !page) {
+      alert('The quoted text is no longer in the document.');
+      return;
+    }
+
+    // insertText keeps the change on the browser's undo stack
+    page.focus({ preventScroll: true });
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    document.execCommand('insertText', false, comment.suggestion);
+    handleInput(pageIndex);
+    dismissComment(comment);
+  };
+
   const insertPageBreak = () => {
     // Find which page has focus
     const activeElement = document.activeElement;
@@ -162,8 +428,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
     }
     
     // Insert a page break marker
-    const pageBreakHtml = '<div class="page-break-marker" style="page-break-after: always; break-after: page; border-top: 2px dashed #d6d3d1; margin: 2em 0; padding-top: 0.5em; color: #a8a29e; font-size: 0.75em; text-align: center;">Page Break</div>';
-    document.execCommand('insertHTML', false, pageBreakHtml);
+    document.execCommand('insertHTML', false, PAGE_BREAK_MARKER_HTML);
     
     // Trigger save
     if (pageIndex !== -1) {
@@ -171,6 +436,54 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
     }
   };
 
+  // Same table the AI's insert_table tool builds, empty with a header row
+  const insertTable = () => {
+    const activeElement = document.activeElement;
+    const pageIndex = pageRefs.current.findIndex(ref => ref && ref.contains(activeElement));
+    if (pageIndex === -1) {
+      alert('Click in the document where the table should go, then try again.');
+      return;
+    }
+
+    document.execCommand('insertHTML', false, buildTableHtml(DEFAULT_TABLE_ROWS, DEFAULT_TABLE_COLUMNS));
+    handleInput(pageIndex);
+  };
+
+  // Rich pastes go through the sanitizer; plain text is left to the browser
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>, pageIndex: number) => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html) return;
+    e.preventDefault();
+    document.execCommand('insertHTML', false, sanitizeDocumentHtml(extractClipboardFragment(html), 'paste'));
+    handleInput(pageIndex);
+  };
+
+  // Headings go through setHeadingLevel, like the AI's set_heading_level tool. Selections in
+  // lists or tables, or across blocks, keep the browser's formatBlock
+  const applyHeadingLevel = (level: number) => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    const block = getSelectedBlock();
+    if (!selection || !range || !block || !/^(P|H[1-6])$/.test(block.tagName) || !block.contains(range.endContainer)) {
+      execCmd('formatBlock', level > 0 ? `H${level}` : 'P');
+      return;
+    }
+
+    // The block's children move into the new element, so the caret can be put back where it was
+    const { startContainer, startOffset, endContainer, endOffset } = range;
+    const heading = setHeadingLevel(block, level);
+    const restored = document.createRange();
+    restored.setStart(startContainer === block ? heading : startContainer, startOffset);
+    restored.setEnd(endContainer === block ? heading : endContainer, endOffset);
+    selection.removeAllRanges();
+    selection.addRange(restored);
+
+    const pageIndex = pageRefs.current.findIndex(ref => ref && ref.contains(heading));
+    if (pageIndex !== -1) {
+      handleInput(pageIndex);
+    }
+  };
+
   // Save current selection
   const saveSelection = () => {
     const selection = window.getSelection();
@@ -463,6 +776,127 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
     }
   };
 
+  // Top-level block (direct child of a page) that holds the caret
+  const getSelectedBlock = (): HTMLElement | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+    
+    let node: Node | null = selection.getRangeAt(0).startContainer;
+    while (node && node.parentElement && !node.parentElement.classList.contains('document-page')) {
+      node = node.parentElement;
+    }
+    return node && node.nodeType === Node.ELEMENT_NODE && node.parentElement ? node as HTMLElement : null;
+  };
+
+  // Collect the top-level blocks touched by the current (or last saved) selection
+  const askAiAboutSelection = () => {
+    if (!onAskAiAboutSelection) return;
+    
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 && !selection.getRangeAt(0).collapsed
+      ? selection.getRangeAt(0)
+      : savedSelection.current;
+    
+    if (!range || range.collapsed || !pageRefs.current.some(ref => ref && ref.contains(range.commonAncestorContainer))) {
+      alert('Select some text in the document first.');
+      return;
+    }
+    
+    const blockIds: string[] = [];
+    pageRefs.current.forEach(pageRef => {
+      Array.from(pageRef?.children || []).forEach(child => {
+        const id = child.getAttribute(BLOCK_ID_ATTR);
+        if (id && range.intersectsNode(child)) {
+          blockIds.push(id);
+        }
+      });
+    });
+    
+    if (blockIds.length === 0) {
+      alert('The selection has not been saved yet. Please try again in a moment.');
+      return;
+    }
+    
+    onAskAiAboutSelection({ blockIds, preview: range.toString().trim() });
+  };
+
+  // Remember where the cursor is before the image panel takes focus
+  const openImagePanel = () => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    savedSelection.current = range && pageRefs.current.some(ref => ref && ref.contains(range.startContainer))
+      ? range.cloneRange()
+      : null;
+    setShowImagePanel(true);
+  };
+
+  // Inserts a table of contents with page numbers from the current layout, or brings the
+  // existing one up to date
+  const insertTableOfContents = async () => {
+    // Work from the live pages - the last keystrokes may not have been saved yet
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    const pageBreakMarker = '<div style="page-break-before: always; break-before: page;"></div>';
+    const fullHtml = pageRefs.current
+      .filter(ref => ref !== null)
+      .map(ref => ref?.innerHTML || '')
+      .join(pageBreakMarker);
+    if (!fullHtml) return;
+
+    // New TOCs go below the block the cursor is in, or at the top of the document
+    const selection = window.getSelection();
+    let block: Node | null = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).startContainer : null;
+    while (block && !(block.parentNode instanceof HTMLElement && block.parentNode.classList.contains('document-page'))) {
+      block = block.parentNode;
+    }
+    const afterBlockId = block instanceof HTMLElement && pageRefs.current.includes(block.parentNode as HTMLDivElement)
+      ? block.getAttribute(BLOCK_ID_ATTR)
+      : null;
+
+    setIsPaginating(true);
+    try {
+      onContentChange(hasToc(fullHtml) ? await refreshToc(fullHtml) : await insertToc(fullHtml, afterBlockId));
+    } finally {
+      setIsPaginating(false);
+    }
+  };
+
+  // Inserts the image (and caption) as new blocks after the block the cursor was in,
+  // or at the end of the document when the cursor wasn't in it
+  const insertGeneratedImage = (image: GeneratedImage, caption: string) => {
+    setShowImagePanel(false);
+    const template = document.createElement('template');
+    template.innerHTML = buildGeneratedImageHtml(image, caption);
+
+    const range = savedSelection.current;
+    const cursorPage = range ? pageRefs.current.find(ref => ref && ref.contains(range.startContainer)) || null : null;
+    const page = cursorPage || [...pageRefs.current].reverse().find(ref => ref) || null;
+    if (!page) {
+      alert('Click in the document where the image should go, then try again.');
+      return;
+    }
+
+    if (cursorPage && range) {
+      // Climb from the cursor to the top-level block that holds it
+      let anchor: Node | null = range.startContainer === cursorPage
+        ? cursorPage.childNodes[range.startOffset - 1] || null
+        : range.startContainer;
+      while (anchor && anchor.parentNode !== cursorPage) {
+        anchor = anchor.parentNode;
+      }
+      cursorPage.insertBefore(template.content, anchor ? anchor.nextSibling : cursorPage.firstChild);
+    } else {
+      page.appendChild(template.content);
+    }
+    savedSelection.current = null;
+
+    const pageIndex = pageRefs.current.indexOf(page);
+    if (pageIndex !== -1) {
+      handleInput(pageIndex);
+    }
+  };
+
   const execCmd = (command: string, value: string = '') => {
     // Focus the editor first if not focused
     const activeElement = document.activeElement;
@@ -473,9 +907,19 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
       return;
     }
     
+    // Block-level commands (headings, lists) replace the element, so carry its id over
+    const previousBlockId = getSelectedBlock()?.getAttribute(BLOCK_ID_ATTR);
+    
     // Execute the command
     document.execCommand(command, false, value);
     
+    if (previousBlockId && !pageRefs.current.some(ref => ref?.querySelector(`[${BLOCK_ID_ATTR}="${previousBlockId}"]`))) {
+      const newBlock = getSelectedBlock();
+      if (newBlock && !newBlock.hasAttribute(BLOCK_ID_ATTR)) {
+        newBlock.setAttribute(BLOCK_ID_ATTR, previousBlockId);
+      }
+    }
+    
     // For alignment commands, ensure inline styles are applied
     if (command.startsWith('justify')) {
       setTimeout(() => {
@@ -494,7 +938,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
           }
           
           if (element && !element.classList.contains('document-page')) {
-            const alignMap: {[key: string]: string} = {
+            const alignMap: {[key: string]: BlockAlignment} = {
               'justifyLeft': 'left',
               'justifyCenter': 'center',
               'justifyRight': 'right',
@@ -503,7 +947,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
             
             const alignValue = alignMap[command];
             if (alignValue) {
-              element.style.textAlign = alignValue;
+              setBlockAlignment(element, alignValue);
               const pageIndex = pageRefs.current.findIndex(ref => ref && ref.contains(element));
               if (pageIndex !== -1) {
                 setTimeout(() => handleInput(pageIndex), 100);
@@ -528,12 +972,14 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
   return (
     <div className="flex flex-col h-full relative">
         {/* Helper Banner - Hidden on mobile */}
-        <div className="hidden lg:block bg-gray-50 border-b border-gray-200 px-4 py-2 text-xs text-gray-700 fixed top-16 right-0 md:left-[400px] left-0 z-30">
-          <strong>💡 Tip:</strong> Select text to format, or set style before typing new text. Use Ctrl+Scroll to zoom.
-        </div>
+        {!embedded && (
+          <div className="hidden lg:block bg-gray-50 border-b border-gray-200 px-4 py-2 text-xs text-gray-700 fixed top-16 right-0 md:left-[400px] left-0 z-30">
+            <strong>💡 Tip:</strong> Select text to format, or set style before typing new text. Use Ctrl+Scroll to zoom.
+          </div>
+        )}
         
         {/* Formatting Toolbar - Fixed at top, scrollable on mobile */}
-        <div className="bg-white border-b border-gray-200 shadow-sm fixed lg:top-[88px] top-16 right-0 md:left-[400px] left-0 z-20 shrink-0 overflow-x-auto">
+        <div className={`bg-white border-b border-gray-200 shadow-sm z-20 shrink-0 overflow-x-auto ${embedded ? 'relative' : 'fixed lg:top-[88px] top-16 right-0 md:left-[400px] left-0'}`}>
             {/* First Row - Font and Size */}
             <div className="h-10 flex items-center px-2 md:px-4 gap-1 md:gap-2 border-b border-stone-100 min-w-max">
                 <select 
@@ -717,9 +1163,9 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
             {/* Second Row - Formatting */}
             <div className="h-10 flex items-center px-2 md:px-4 gap-1 md:gap-2 min-w-max">
                 <div className="flex items-center gap-1 pr-3 border-r border-stone-200">
-                    <ToolbarButton icon={<Heading1 size={18}/>} onClick={() => execCmd('formatBlock', 'H1')} title="Heading 1" />
-                    <ToolbarButton icon={<Heading2 size={18}/>} onClick={() => execCmd('formatBlock', 'H2')} title="Heading 2" />
-                    <ToolbarButton icon={<span className="font-serif font-bold text-sm px-1">P</span>} onClick={() => execCmd('formatBlock', 'P')} title="Paragraph" />
+                    <ToolbarButton icon={<Heading1 size={18}/>} onClick={() => applyHeadingLevel(1)} title="Heading 1" />
+                    <ToolbarButton icon={<Heading2 size={18}/>} onClick={() => applyHeadingLevel(2)} title="Heading 2" />
+                    <ToolbarButton icon={<span className="font-serif font-bold text-sm px-1">P</span>} onClick={() => applyHeadingLevel(0)} title="Paragraph" />
                 </div>
                 
                 <div className="flex items-center gap-1 pr-3 border-r border-stone-200">
@@ -740,7 +1186,37 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
                     <ToolbarButton icon={<ListOrdered size={18}/>} onClick={() => execCmd('insertOrderedList')} title="Numbered List" />
                 </div>
 
+                <div className="flex items-center gap-1 pr-3 border-r border-stone-200">
+                    <ToolbarButton icon={<Table size={18}/>} onClick={insertTable} title="Insert table" />
+                    <ToolbarButton icon={<ImagePlus size={18}/>} onClick={openImagePanel} title="Generate image" />
+                    <ToolbarButton icon={<TableOfContents size={18}/>} onClick={insertTableOfContents} title="Insert / update table of contents" />
+                </div>
+
+                {onAskAiAboutSelection && (
+                    <div className="flex items-center gap-1 pr-3 border-r border-stone-200">
+                        <ToolbarButton icon={<Sparkles size={18}/>} onClick={askAiAboutSelection} title="Ask AI about selection" />
+                    </div>
+                )}
+
                 <div className="flex items-center gap-1">
+                    <ToolbarButton
+                        icon={<MessageSquareText size={18} />}
+                        onClick={() => setSidePanel(sidePanel === 'review' ? null : 'review')}
+                        active={sidePanel === 'review'}
+                        title="AI review comments"
+                    />
+                    <ToolbarButton
+                        icon={<BarChart3 size={18} />}
+                        onClick={() => setSidePanel(sidePanel === 'statistics' ? null : 'statistics')}
+                        active={sidePanel === 'statistics'}
+                        title="Document statistics"
+                    />
+                    <ToolbarButton
+                        icon={<SpellCheck size={18} />}
+                        onClick={() => setProofingEnabled(!proofingEnabled)}
+                        active={proofingEnabled}
+                        title="Check spelling and grammar"
+                    />
                     <ToolbarButton 
                         icon={<Square size={18} strokeWidth={showBorder ? 2.5 : 1.5} />} 
                         onClick={() => setShowBorder(!showBorder)} 
@@ -760,9 +1236,10 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
 
         {/* Editor Area - Scrollable with padding for fixed toolbar and banner, with zoom support */}
         <div 
+          ref={scrollRef}
           className="flex-1 overflow-y-auto overflow-x-auto bg-stone-200 p-2 md:p-8 flex justify-center" 
           style={{ 
-            paddingTop: window.innerWidth >= 1024 ? '150px' : '70px'
+            paddingTop: embedded ? undefined : window.innerWidth >= 1024 ? '150px' : '70px'
           }}
           onWheel={(e) => {
             // Ctrl/Cmd + Scroll to zoom
@@ -792,7 +1269,16 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
                             className={`bg-white shadow-xl min-h-[297mm] w-full md:w-[210mm] max-w-[210mm] outline-none document-page ${showBorder ? 'has-page-border' : ''}`}
                             contentEditable
                             suppressContentEditableWarning
+                            spellCheck={!proofingEnabled}
                             onInput={() => handleInput(index)}
+                            onPaste={(e) => handlePaste(e, index)}
+                            onContextMenu={(e) => {
+                              if (!proofingEnabled) return;
+                              const match = findProofMatchAt(proofMatches.current, e.clientX, e.clientY);
+                              if (!match) return;
+                              e.preventDefault();
+                              openProofMenu(match, e.clientX, e.clientY);
+                            }}
                             onKeyDown={(e) => {
                               // Keyboard shortcuts
                               if (e.ctrlKey || e.metaKey) {
@@ -810,6 +1296,16 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
                             }}
                             onClick={(e) => {
                               const target = e.target as HTMLElement;
+
+                              // Table of contents entries jump to their heading
+                              const tocTarget = target.closest('.toc-entry')?.getAttribute('data-toc-target');
+                              if (tocTarget) {
+                                e.preventDefault();
+                                const heading = editorRef.current?.querySelector<HTMLElement>(`[${BLOCK_ID_ATTR}="${tocTarget}"]`);
+                                heading?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+                                return;
+                              }
+
                               if (target.tagName === 'IMG') {
                                 e.preventDefault();
                                 e.stopPropagation();
@@ -936,6 +1432,83 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({ htmlContent, onC
             </div>
           </div>
         </div>
+
+        {/* Spelling / grammar suggestions for the issue that was right-clicked */}
+        {proofMenu && (
+            <div
+                ref={proofMenuRef}
+                className="fixed z-50 w-60 bg-white border border-stone-300 rounded-lg shadow-2xl py-1 text-sm text-stone-800"
+                style={{ left: Math.min(proofMenu.x, window.innerWidth - 248), top: Math.min(proofMenu.y, window.innerHeight - 240) }}
+                onContextMenu={(e) => e.preventDefault()}
+            >
+                <div className="px-3 py-1.5 text-xs text-stone-500 border-b border-stone-100">{proofMenu.match.issue.message}</div>
+                {proofMenu.suggestions === null ? (
+                    <div className="px-3 py-1.5 text-xs text-stone-400">Looking for suggestions...</div>
+                ) : proofMenu.suggestions.length === 0 ? (
+                    <div className="px-3 py-1.5 text-xs text-stone-400">No suggestions</div>
+                ) : (
+                    proofMenu.suggestions.map(suggestion => (
+                        <button
+                            key={suggestion}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => applyProofSuggestion(proofMenu.match, suggestion)}
+                            className="block w-full text-left px-3 py-1.5 font-semibold hover:bg-stone-100"
+                        >
+                            {suggestion.trim() ? suggestion : <span className="font-normal text-stone-500">Single space</span>}
+                        </button>
+                    ))
+                )}
+                <div className="border-t border-stone-100 mt-1 pt-1">
+                    <button
+                        type="button"
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => ignoreProofMatch(proofMenu.match)}
+                        className="block w-full text-left px-3 py-1.5 hover:bg-stone-100"
+                    >
+                        Ignore
+                    </button>
+                    {proofMenu.match.issue.kind === 'spelling' && (
+                        <button
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => addToDictionary(proofMenu.match)}
+                            className="block w-full text-left px-3 py-1.5 hover:bg-stone-100"
+                        >
+                            Add to dictionary
+                        </button>
+                    )}
+                </div>
+            </div>
+        )}
+
+        <StatisticsPanel
+            isOpen={sidePanel === 'statistics'}
+            onClose={() => setSidePanel(null)}
+            statistics={statistics}
+            onSentenceClick={jumpToSentence}
+            embedded={embedded}
+        />
+
+        <ReviewPanel
+            isOpen={sidePanel === 'review'}
+            onClose={() => setSidePanel(null)}
+            htmlContent={htmlContent}
+            comments={reviewComments}
+            detachedIds={detachedCommentIds}
+            activeId={activeCommentId}
+            onReviewed={handleReviewed}
+            onSelect={selectComment}
+            onApply={applyComment}
+            onDismiss={dismissComment}
+            embedded={embedded}
+        />
+
+        <ImageGenerationPanel
+            isOpen={showImagePanel}
+            onClose={() => setShowImagePanel(false)}
+            onInsert={insertGeneratedImage}
+        />
     </div>
   );
 };
@@ -3,16 +3,22 @@ import React, { useState } from 'react';
 import { X, FileText, FileType } from 'lucide-react';
 import { Button } from './Button';
 
+export type ExportVersion = 'original' | 'translation';
+
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onExport: (filename: string, format: 'docx' | 'pdf') => void;
+  onExport: (filename: string, format: 'docx' | 'pdf', version: ExportVersion) => void;
   initialFilename: string;
+  translationLanguage?: string; // Set while a translation is open, so either version can be exported
 }
 
-export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, initialFilename }) => {
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, initialFilename, translationLanguage }) => {
   const [filename, setFilename] = useState(initialFilename.replace(/\.docx$/, ''));
   const [format, setFormat] = useState<'docx' | 'pdf'>('docx');
+  const [version, setVersion] = useState<ExportVersion>('original');
+
+  const exportedVersion: ExportVersion = translationLanguage ? version : 'original';
 
   if (!isOpen) return null;
 
@@ -38,6 +44,27 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExp
             />
           </div>
 
+          {translationLanguage && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2">Version</label>
+              <div className="grid grid-cols-2 gap-3">
+                {([['original', 'Original'], ['translation', translationLanguage]] as [ExportVersion, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setVersion(value)}
+                    className={`p-3 rounded border transition-all truncate ${
+                      version === value
+                        ? 'bg-zinc-900 border-white ring-1 ring-white text-white'
+                        : 'border-zinc-800 hover:border-zinc-700 text-zinc-400'
+                    }`}
+                  >
+                    <span className="text-sm font-medium">{label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-zinc-300 mb-2">Format</label>
             <div className="grid grid-cols-2 gap-3">
@@ -69,7 +96,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExp
 
           <div className="flex items-center justify-end gap-3 pt-2">
             <Button variant="ghost" onClick={onClose}>Cancel</Button>
-            <Button variant="primary" onClick={() => onExport(filename, format)}>
+            <Button variant="primary" onClick={() => onExport(filename, format, exportedVersion)}>
               Download
             </Button>
           </div>
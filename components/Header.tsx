@@ -1,15 +1,17 @@
 
 import React from 'react';
-import { BookOpen, Download, RotateCcw } from 'lucide-react';
+import { BookOpen, Download, RotateCcw, Languages, ShieldCheck } from 'lucide-react';
 import { Button } from './Button';
 
 interface HeaderProps {
   onReset: () => void;
   onExportClick: () => void;
+  onTranslateClick?: () => void;
+  onDiagnosticsClick?: () => void;
   docName?: string;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onReset, onExportClick, docName }) => {
+export const Header: React.FC<HeaderProps> = ({ onReset, onExportClick, onTranslateClick, onDiagnosticsClick, docName }) => {
   return (
     <header className="h-16 bg-[#111111] border-b border-zinc-800 flex items-center justify-between px-4 md:px-8 sticky top-0 z-20">
       <div className="flex items-center gap-2 md:gap-3 min-w-0">
@@ -31,6 +33,16 @@ export const Header: React.FC<HeaderProps> = ({ onReset, onExportClick, docName
              <Button variant="secondary" size="sm" onClick={onReset} icon={<RotateCcw className="w-3 h-3 md:w-4 md:h-4" />}>
               <span className="hidden sm:inline">Reset</span>
             </Button>
+            {onTranslateClick && (
+              <Button variant="secondary" size="sm" onClick={onTranslateClick} icon={<Languages className="w-3 h-3 md:w-4 md:h-4" />}>
+                <span className="hidden sm:inline">Translate</span>
+              </Button>
+            )}
+            {onDiagnosticsClick && (
+              <Button variant="ghost" size="sm" onClick={onDiagnosticsClick} title="Sanitizer diagnostics" icon={<ShieldCheck className="w-3 h-3 md:w-4 md:h-4" />}>
+                <span className="hidden lg:inline">Diagnostics</span>
+              </Button>
+            )}
             <Button variant="primary" size="sm" onClick={onExportClick} icon={<Download className="w-3 h-3 md:w-4 md:h-4" />}>
               <span className="hidden sm:inline">Export</span>
             </Button>
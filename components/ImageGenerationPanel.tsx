@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { X, ImagePlus, RotateCcw, Trash2, AlertCircle } from 'lucide-react';
+import { Button } from './Button';
+import { generateImageCandidates, loadImageHistory, saveImageHistory } from '../services/imageGenerationService';
+import { GeneratedImage, ImageGeneration } from '../types';
+
+interface ImageGenerationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInsert: (image: GeneratedImage, caption: string) => void;
+}
+
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+
+const inputClassName = "w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded focus:ring-1 focus:ring-zinc-700 focus:border-zinc-700 outline-none text-sm text-white";
+
+export const ImageGenerationPanel: React.FC<ImageGenerationPanelProps> = ({ isOpen, onClose, onInsert }) => {
+  const [prompt, setPrompt] = useState('');
+  const [count, setCount] = useState(2);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [history, setHistory] = useState<ImageGeneration[]>(() => loadImageHistory());
+  const [selected, setSelected] = useState<GeneratedImage | null>(null);
+  const [caption, setCaption] = useState('');
+
+  if (!isOpen) return null;
+
+  const updateHistory = (next: ImageGeneration[]) => {
+    setHistory(saveImageHistory(next));
+  };
+
+  const handleGenerate = async () => {
+    const text = prompt.trim();
+    if (!text || isGenerating) return;
+
+    setIsGenerating(true);
+    try {
+      const generation = await generateImageCandidates(text, count);
+      updateHistory([generation, ...history]);
+      setSelected(generation.images[0] || null);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleInsert = () => {
+    if (!selected) return;
+    onInsert(selected, caption);
+    setSelected(null);
+    setCaption('');
+  };
+
+  const latest = history[0];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div>
+            <h3 className="text-xl font-serif font-bold text-white">Generate Image</h3>
+            <p className="text-xs text-zinc-500 mt-1">The chosen image is inserted below the paragraph your cursor was in.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          <div className="space-y-3">
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleGenerate();
+                }
+              }}
+              className={`${inputClassName} min-h-[70px] resize-y`}
+              placeholder="e.g. A clean bar chart style illustration of quarterly revenue growth, flat colours"
+              disabled={isGenerating}
+            />
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-xs text-zinc-400">
+                <span>Candidates</span>
+                {CANDIDATE_COUNTS.map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setCount(value)}
+                    disabled={isGenerating}
+                    className={`w-7 h-7 rounded border transition-colors ${
+                      count === value ? 'bg-zinc-900 border-white text-white' : 'border-zinc-800 hover:border-zinc-700'
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+              <Button variant="primary" size="sm" onClick={handleGenerate} isLoading={isGenerating} disabled={!prompt.trim()} icon={<ImagePlus size={14} />}>
+                Generate
+              </Button>
+            </div>
+          </div>
+
+          {selected && (
+            <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-3 space-y-3">
+              <img src={selected.url} alt={selected.prompt} className="max-h-56 mx-auto rounded" />
+              <input
+                type="text"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                className={inputClassName}
+                placeholder="Caption (optional), e.g. Figure 2: Revenue by quarter"
+              />
+              <div className="flex items-center justify-end gap-3">
+                <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>Cancel</Button>
+                <Button variant="primary" size="sm" onClick={handleInsert}>Insert into document</Button>
+              </div>
+            </div>
+          )}
+
+          {latest?.error && latest.images.length < count && (
+            <p className="flex items-start gap-2 text-xs text-red-400">
+              <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+              <span>{latest.images.length === 0 ? 'No image could be generated' : 'Some candidates failed'}: {latest.error}</span>
+            </p>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-zinc-300">History</span>
+                <button onClick={() => updateHistory([])} className="text-xs text-zinc-500 hover:text-zinc-300">
+                  Clear
+                </button>
+              </div>
+              <ul className="space-y-3">
+                {history.map(entry => (
+                  <li key={entry.id} className="rounded-lg border border-zinc-800 p-3">
+                    <div className="flex items-start gap-2 mb-2">
+                      <p className="flex-1 text-xs text-zinc-300">{entry.prompt}</p>
+                      <span className="text-[10px] text-zinc-500 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</span>
+                      <button onClick={() => setPrompt(entry.prompt)} className="text-zinc-500 hover:text-zinc-300" title="Use this prompt again">
+                        <RotateCcw size={14} />
+                      </button>
+                      <button
+                        onClick={() => updateHistory(history.filter(other => other.id !== entry.id))}
+                        className="text-zinc-500 hover:text-zinc-300"
+                        title="Remove from history"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    {entry.images.length > 0 ? (
+                      <div className="grid grid-cols-4 gap-2">
+                        {entry.images.map((image, index) => (
+                          <button
+                            key={index}
+                            onClick={() => setSelected(image)}
+                            className={`aspect-square rounded overflow-hidden border transition-all ${
+                              selected === image ? 'border-white ring-1 ring-white' : 'border-zinc-800 hover:border-zinc-600'
+                            }`}
+                            title="Select this image"
+                          >
+                            <img src={image.url} alt={image.prompt} className="w-full h-full object-cover bg-white" />
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-zinc-500">{entry.error || 'No images'}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
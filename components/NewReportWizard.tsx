@@ -0,0 +1,345 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Sparkles, ArrowUp, ArrowDown, Trash2, Plus, RotateCcw, Check, AlertCircle, Loader2, FilePlus } from 'lucide-react';
+import { Button } from './Button';
+import { draftReportSection, generateReportOutline } from '../services/geminiService';
+import { buildReportHtml, createOutlineSection, OutlineSection, REPORT_TEMPLATES, ReportBrief, templateOutline } from '../services/scaffoldService';
+import { htmlToPlainText } from '../services/diffService';
+import { describeQueueStatus } from '../services/requestQueue';
+import { ChunkProgress, QueueStatus } from '../types';
+
+interface NewReportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (name: string, html: string) => void;
+}
+
+type WizardStep = 'type' | 'outline' | 'draft';
+
+const inputClassName = "w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded focus:ring-1 focus:ring-zinc-700 focus:border-zinc-700 outline-none text-sm text-white disabled:opacity-50";
+
+export const NewReportWizard: React.FC<NewReportWizardProps> = ({ isOpen, onClose, onCreate }) => {
+  const [step, setStep] = useState<WizardStep>('type');
+  const [brief, setBrief] = useState<ReportBrief>({ type: 'lab-report', title: '', topic: '' });
+  const [outline, setOutline] = useState<OutlineSection[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<Record<string, ChunkProgress>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isBusy) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isBusy]);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setStep('type');
+    setBrief({ type: 'lab-report', title: '', topic: '' });
+    setOutline([]);
+    setDrafts({});
+    setProgress({});
+    setError('');
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    reset();
+    onClose();
+  };
+
+  const startRequest = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBusy(true);
+    setError('');
+    return controller.signal;
+  };
+
+  const finishRequest = () => {
+    abortRef.current = null;
+    setIsBusy(false);
+    setQueueStatus(null);
+  };
+
+  const handleGenerateOutline = async () => {
+    const signal = startRequest();
+    try {
+      setOutline(await generateReportOutline(brief, { signal, onQueueStatus: setQueueStatus }));
+      setStep('outline');
+    } catch (e) {
+      if (signal.aborted) return;
+      // The standard outline is always a usable starting point
+      setOutline(templateOutline(brief.type));
+      setError(`${e instanceof Error ? e.message : 'Outline generation failed'} - showing the standard outline instead.`);
+      setStep('outline');
+    } finally {
+      finishRequest();
+    }
+  };
+
+  const handleUseStandardOutline = () => {
+    setOutline(templateOutline(brief.type));
+    setError('');
+    setStep('outline');
+  };
+
+  const updateSection = (id: string, update: Partial<OutlineSection>) => {
+    setOutline(prev => prev.map(section => section.id === id ? { ...section, ...update } : section));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setOutline(prev => {
+      const next = [...prev];
+      const [section] = next.splice(index, 1);
+      next.splice(index + offset, 0, section);
+      return next;
+    });
+  };
+
+  const reportProgress = (section: OutlineSection, index: number, update: Partial<ChunkProgress>) => {
+    setProgress(prev => ({
+      ...prev,
+      [section.id]: { index, label: section.title, status: 'pending', attempts: 0, ...prev[section.id], ...update }
+    }));
+  };
+
+  const draftSection = async (sections: OutlineSection[], index: number, attempts: number, signal: AbortSignal) => {
+    const section = sections[index];
+    reportProgress(section, index, { status: attempts > 1 ? 'retrying' : 'running', attempts, error: undefined });
+    try {
+      const html = await draftReportSection(brief, sections, index, {
+        signal,
+        onQueueStatus: status => reportProgress(section, index, { queue: status.state === 'running' ? undefined : status })
+      });
+      setDrafts(prev => ({ ...prev, [section.id]: html }));
+      reportProgress(section, index, { status: 'done', queue: undefined });
+    } catch (e) {
+      if (signal.aborted) {
+        reportProgress(section, index, { status: 'pending', queue: undefined });
+        throw e;
+      }
+      reportProgress(section, index, { status: 'failed', queue: undefined, error: e instanceof Error ? e.message : 'Drafting failed' });
+    }
+  };
+
+  // Sections are drafted one at a time, in order
+  const handleDraftAll = async () => {
+    const sections = outline.filter(section => section.title.trim());
+    if (sections.length === 0) {
+      setError('Add at least one section to the outline.');
+      return;
+    }
+    setOutline(sections);
+    setDrafts({});
+    setProgress(Object.fromEntries(sections.map((section, index) => [section.id, { index, label: section.title, status: 'pending', attempts: 0 }])));
+    setStep('draft');
+
+    const signal = startRequest();
+    try {
+      for (let index = 0; index < sections.length; index++) {
+        await draftSection(sections, index, 1, signal);
+      }
+    } catch {
+      // Stopped - the sections drafted so far are kept
+    } finally {
+      finishRequest();
+    }
+  };
+
+  const handleRegenerate = async (index: number) => {
+    const signal = startRequest();
+    try {
+      await draftSection(outline, index, (progress[outline[index].id]?.attempts || 0) + 1, signal);
+    } catch {
+      // Stopped - the previous draft is kept
+    } finally {
+      finishRequest();
+    }
+  };
+
+  const handleOpenDocument = () => {
+    const name = `${(brief.title.trim() || 'New report').replace(/[\\/:*?"<>|]+/g, '')}.docx`;
+    onCreate(name, buildReportHtml(brief, outline, drafts));
+    reset();
+  };
+
+  const draftedCount = outline.filter(section => drafts[section.id]).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div>
+            <h3 className="text-xl font-serif font-bold text-white">New Report</h3>
+            <p className="text-xs text-zinc-500 mt-1">
+              {step === 'type' && 'Step 1 of 3 - choose the kind of report and say what it is about.'}
+              {step === 'outline' && 'Step 2 of 3 - edit the outline. Each section is drafted from its title and description.'}
+              {step === 'draft' && 'Step 3 of 3 - sections are drafted one at a time. Regenerate any section you are not happy with.'}
+            </p>
+          </div>
+          <button onClick={handleClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {step === 'type' && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {REPORT_TEMPLATES.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => setBrief(prev => ({ ...prev, type: template.id }))}
+                    disabled={isBusy}
+                    className={`text-left p-3 rounded-lg border transition-colors disabled:opacity-50 ${
+                      brief.type === template.id ? 'bg-zinc-900 border-white' : 'border-zinc-800 hover:border-zinc-700'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-white mb-1">{template.label}</div>
+                    <div className="text-xs text-zinc-500">{template.description}</div>
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Title</label>
+                <input
+                  type="text"
+                  value={brief.title}
+                  onChange={(e) => setBrief(prev => ({ ...prev, title: e.target.value }))}
+                  disabled={isBusy}
+                  className={inputClassName}
+                  placeholder="e.g. The Effect of Temperature on Enzyme Activity"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">What is it about?</label>
+                <textarea
+                  value={brief.topic}
+                  onChange={(e) => setBrief(prev => ({ ...prev, topic: e.target.value }))}
+                  disabled={isBusy}
+                  className={`${inputClassName} min-h-[90px] resize-y`}
+                  placeholder="A few sentences on the subject, the audience and anything the report must include."
+                />
+              </div>
+            </>
+          )}
+
+          {step === 'outline' && (
+            <ul className="space-y-3">
+              {outline.map((section, index) => (
+                <li key={section.id} className="rounded-lg border border-zinc-800 p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-zinc-500 w-5">{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={section.title}
+                      onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                      className={inputClassName}
+                      placeholder="Section heading"
+                    />
+                    <button onClick={() => moveSection(index, -1)} disabled={index === 0} className="text-zinc-500 hover:text-zinc-300 disabled:opacity-30" title="Move up">
+                      <ArrowUp size={14} />
+                    </button>
+                    <button onClick={() => moveSection(index, 1)} disabled={index === outline.length - 1} className="text-zinc-500 hover:text-zinc-300 disabled:opacity-30" title="Move down">
+                      <ArrowDown size={14} />
+                    </button>
+                    <button onClick={() => setOutline(prev => prev.filter(other => other.id !== section.id))} className="text-zinc-500 hover:text-zinc-300" title="Remove section">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <textarea
+                    value={section.brief}
+                    onChange={(e) => updateSection(section.id, { brief: e.target.value })}
+                    className={`${inputClassName} min-h-[50px] resize-y text-xs`}
+                    placeholder="What this section should cover"
+                  />
+                </li>
+              ))}
+              <li>
+                <Button variant="ghost" size="sm" onClick={() => setOutline(prev => [...prev, createOutlineSection()])} icon={<Plus size={14} />}>
+                  Add section
+                </Button>
+              </li>
+            </ul>
+          )}
+
+          {step === 'draft' && (
+            <>
+              <div className="text-xs text-zinc-400">Drafted {draftedCount} of {outline.length} sections</div>
+              <ul className="space-y-2">
+                {outline.map((section, index) => {
+                  const status = progress[section.id];
+                  const preview = drafts[section.id] ? htmlToPlainText(drafts[section.id]) : '';
+                  return (
+                    <li key={section.id} className="rounded-lg border border-zinc-800 p-3">
+                      <div className="flex items-center gap-2 text-xs">
+                        {status?.status === 'done' && <Check size={12} className="text-green-400 flex-shrink-0" />}
+                        {status?.status === 'failed' && <AlertCircle size={12} className="text-red-400 flex-shrink-0" />}
+                        {(status?.status === 'running' || status?.status === 'retrying') && <Loader2 size={12} className="animate-spin text-zinc-400 flex-shrink-0" />}
+                        {(!status || status.status === 'pending') && <div className="w-3 h-3 rounded-full border border-zinc-600 flex-shrink-0" />}
+                        <span className="flex-1 truncate text-zinc-300">{index + 1}. {section.title}</span>
+                        {status?.queue && <span className="text-zinc-500">{describeQueueStatus(status.queue, now)}</span>}
+                        <button
+                          onClick={() => handleRegenerate(index)}
+                          disabled={isBusy}
+                          className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+                          title={drafts[section.id] ? 'Regenerate this section' : 'Draft this section'}
+                        >
+                          <RotateCcw size={12} />
+                          <span>{drafts[section.id] ? 'Regenerate' : 'Draft'}</span>
+                        </button>
+                      </div>
+                      {status?.error && <p className="text-xs text-red-400 mt-2">{status.error}</p>}
+                      {preview && <p className="text-xs text-zinc-500 mt-2 line-clamp-3">{preview}</p>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-5 border-t border-zinc-800">
+          <div className="text-xs text-zinc-500">
+            {isBusy && queueStatus && describeQueueStatus(queueStatus, now)}
+          </div>
+          <div className="flex items-center gap-3">
+            {step === 'type' && (
+              <>
+                <Button variant="ghost" onClick={handleUseStandardOutline} disabled={isBusy}>Use standard outline</Button>
+                <Button variant="primary" onClick={handleGenerateOutline} isLoading={isBusy} icon={<Sparkles size={16} />}>
+                  Generate outline
+                </Button>
+              </>
+            )}
+            {step === 'outline' && (
+              <>
+                <Button variant="ghost" onClick={() => setStep('type')}>Back</Button>
+                <Button variant="primary" onClick={handleDraftAll} icon={<Sparkles size={16} />}>
+                  Draft report
+                </Button>
+              </>
+            )}
+            {step === 'draft' && (
+              <>
+                {isBusy
+                  ? <Button variant="ghost" onClick={() => abortRef.current?.abort()}>Stop</Button>
+                  : <Button variant="ghost" onClick={() => setStep('outline')}>Back to outline</Button>}
+                <Button variant="primary" onClick={handleOpenDocument} disabled={isBusy || draftedCount === 0} icon={<FilePlus size={16} />}>
+                  Open document
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, Pencil, Trash2, Plus, RotateCcw } from 'lucide-react';
+import { Button } from './Button';
+import { BUILT_IN_COMMANDS, normalizeCommandName, SlashCommand } from '../services/promptLibrary';
+
+interface PromptLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  library: SlashCommand[];
+  customCommands: SlashCommand[];
+  onSaveCustomCommands: (commands: SlashCommand[]) => void;
+}
+
+const EMPTY_COMMAND: SlashCommand = { name: '', description: '', prompt: '' };
+
+const inputClassName = "w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded focus:ring-1 focus:ring-zinc-700 focus:border-zinc-700 outline-none text-sm text-white";
+
+export const PromptLibraryModal: React.FC<PromptLibraryModalProps> = ({
+  isOpen,
+  onClose,
+  library,
+  customCommands,
+  onSaveCustomCommands
+}) => {
+  const [draft, setDraft] = useState<SlashCommand | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const builtInNames = new Set(BUILT_IN_COMMANDS.map(command => command.name));
+  const isCustom = (name: string) => customCommands.some(command => command.name === name);
+
+  const startEditing = (command: SlashCommand) => {
+    setDraft({ ...command, builtIn: false });
+    setEditingName(command.name);
+    setError('');
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = normalizeCommandName(draft.name);
+    if (!name || !draft.prompt.trim()) {
+      setError('A command needs a name and a prompt.');
+      return;
+    }
+    if (name !== editingName && library.some(command => command.name === name && !command.builtIn)) {
+      setError(`/${name} already exists.`);
+      return;
+    }
+
+    const command: SlashCommand = {
+      name,
+      description: draft.description.trim() || draft.prompt.trim().slice(0, 60),
+      prompt: draft.prompt.trim(),
+      parameterHint: draft.parameterHint?.trim() || undefined,
+      defaultArgs: draft.defaultArgs?.trim() || undefined,
+      instruction: draft.instruction?.trim() || undefined
+    };
+    onSaveCustomCommands([
+      ...customCommands.filter(existing => existing.name !== editingName && existing.name !== name),
+      command
+    ]);
+    setDraft(null);
+    setEditingName(null);
+  };
+
+  const handleDelete = (name: string) => {
+    onSaveCustomCommands(customCommands.filter(command => command.name !== name));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div>
+            <h3 className="text-xl font-serif font-bold text-white">Prompt Library</h3>
+            <p className="text-xs text-zinc-500 mt-1">Type / in the chat to use a command. Saved commands stay in this browser.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {draft ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-1">Command</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className={inputClassName}
+                    placeholder="/weekly-update"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-1">Parameter hint</label>
+                  <input
+                    type="text"
+                    value={draft.parameterHint || ''}
+                    onChange={(e) => setDraft({ ...draft, parameterHint: e.target.value })}
+                    className={inputClassName}
+                    placeholder="<audience>"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Shown in the autocomplete list"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1">Prompt</label>
+                <textarea
+                  value={draft.prompt}
+                  onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                  className={`${inputClassName} min-h-[80px] resize-y`}
+                  placeholder="Rewrite the document for {args}. Use {1}, {2}... for individual parameters."
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1">Extra system instruction (optional)</label>
+                <textarea
+                  value={draft.instruction || ''}
+                  onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+                  className={`${inputClassName} min-h-[60px] resize-y`}
+                  placeholder="Rules the AI must follow for this command only"
+                />
+              </div>
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <div className="flex items-center justify-end gap-3">
+                <Button variant="ghost" size="sm" onClick={() => { setDraft(null); setEditingName(null); }}>Cancel</Button>
+                <Button variant="primary" size="sm" onClick={handleSave}>Save command</Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <Button variant="secondary" size="sm" icon={<Plus size={14} />} onClick={() => startEditing(EMPTY_COMMAND)}>
+                New command
+              </Button>
+              <ul className="space-y-2">
+                {library.map(command => (
+                  <li key={command.name} className="flex items-start gap-3 rounded-lg border border-zinc-800 bg-zinc-900 p-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-white">
+                        <span className="font-mono">/{command.name}</span>
+                        {command.parameterHint && <span className="font-mono text-zinc-500"> {command.parameterHint}</span>}
+                        {command.builtIn && <span className="ml-2 text-[10px] uppercase tracking-wide text-zinc-500">built-in</span>}
+                      </div>
+                      <div className="text-xs text-zinc-400 mt-0.5">{command.description}</div>
+                    </div>
+                    <button onClick={() => startEditing(command)} className="text-zinc-500 hover:text-zinc-300" title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    {isCustom(command.name) && (
+                      <button
+                        onClick={() => handleDelete(command.name)}
+                        className="text-zinc-500 hover:text-zinc-300"
+                        title={builtInNames.has(command.name) ? 'Restore the built-in version' : 'Delete'}
+                      >
+                        {builtInNames.has(command.name) ? <RotateCcw size={14} /> : <Trash2 size={14} />}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { X, Check, Plus, Minus, PenLine, Paintbrush, SeparatorHorizontal } from 'lucide-react';
+import { Button } from './Button';
+import { BlockChange, BlockChangeKind, diffWords, htmlToPlainText } from '../services/diffService';
+
+interface ReviewChangesModalProps {
+  changes: BlockChange[] | null;
+  summary?: string;
+  onApply: (acceptedIds: Set<string>) => void;
+  onDiscard: () => void;
+}
+
+export const KIND_LABELS: Record<BlockChangeKind, { label: string; icon: React.ReactNode; className: string }> = {
+  insert: { label: 'Added', icon: <Plus size={12} />, className: 'text-green-400 border-green-900 bg-green-950/40' },
+  delete: { label: 'Removed', icon: <Minus size={12} />, className: 'text-red-400 border-red-900 bg-red-950/40' },
+  modify: { label: 'Changed', icon: <PenLine size={12} />, className: 'text-amber-400 border-amber-900 bg-amber-950/40' },
+  style: { label: 'Style', icon: <Paintbrush size={12} />, className: 'text-blue-400 border-blue-900 bg-blue-950/40' },
+  page_break: { label: 'Page break', icon: <SeparatorHorizontal size={12} />, className: 'text-purple-400 border-purple-900 bg-purple-950/40' }
+};
+
+const getStyleAttribute = (html?: string): string => {
+  const match = html?.match(/^<[^>]*\sstyle="([^"]*)"/);
+  return match ? match[1] : '(none)';
+};
+
+export const ChangePreview: React.FC<{ change: BlockChange }> = ({ change }) => {
+  switch (change.kind) {
+    case 'insert':
+      return <p className="text-green-300">{htmlToPlainText(change.afterHtml || '') || '(image or empty block)'}</p>;
+    case 'delete':
+      return <p className="text-red-300 line-through">{htmlToPlainText(change.beforeHtml || '') || '(image or empty block)'}</p>;
+    case 'style':
+      return (
+        <div className="space-y-1">
+          <p className="text-zinc-300">{htmlToPlainText(change.afterHtml || '')}</p>
+          <p className="font-mono text-[11px] text-red-300 line-through">{getStyleAttribute(change.beforeHtml)}</p>
+          <p className="font-mono text-[11px] text-green-300">{getStyleAttribute(change.afterHtml)}</p>
+        </div>
+      );
+    case 'page_break':
+      return (
+        <p className="text-zinc-300">
+          <span className="text-zinc-500 italic">{change.afterHtml ? 'New page before:' : 'No longer starts a new page:'}</span>{' '}
+          {htmlToPlainText(change.beforeHtml || '') || '(image or empty block)'}
+        </p>
+      );
+    case 'modify': {
+      const before = htmlToPlainText(change.beforeHtml || '');
+      const after = htmlToPlainText(change.afterHtml || '');
+      // Same text means only the markup changed (tags, formatting, structure)
+      if (before === after) {
+        return <p className="text-zinc-300">{after} <span className="text-zinc-500 italic">(formatting changed)</span></p>;
+      }
+      return (
+        <p className="text-zinc-300">
+          {diffWords(before, after).map((segment, index) => (
+            <span
+              key={index}
+              className={segment.type === 'added' ? 'bg-green-900/60 text-green-200' : segment.type === 'removed' ? 'bg-red-900/60 text-red-200 line-through' : ''}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </p>
+      );
+    }
+  }
+};
+
+export const ReviewChangesModal: React.FC<ReviewChangesModalProps> = ({ changes, summary, onApply, onDiscard }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  // Every change starts out accepted; the reviewer rejects what they don't want
+  useEffect(() => {
+    setAccepted(new Set(changes?.map(change => change.id) || []));
+  }, [changes]);
+
+  if (!changes) return null;
+
+  const toggle = (id: string, isAccepted: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (isAccepted) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div>
+            <h3 className="text-xl font-serif font-bold text-white">Review Changes</h3>
+            <p className="text-xs text-zinc-500 mt-1">
+              {accepted.size} of {changes.length} {changes.length === 1 ? 'change' : 'changes'} accepted
+            </p>
+          </div>
+          <button onClick={onDiscard} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        {summary && (
+          <p className="px-5 pt-4 text-sm text-zinc-300 whitespace-pre-line max-h-40 overflow-y-auto">{summary}</p>
+        )}
+
+        <div className="flex items-center gap-2 px-5 pt-4">
+          <Button variant="secondary" size="sm" onClick={() => setAccepted(new Set(changes.map(change => change.id)))}>
+            Accept all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setAccepted(new Set())}>
+            Reject all
+          </Button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-5 space-y-3">
+          {changes.map(change => {
+            const kind = KIND_LABELS[change.kind];
+            const isAccepted = accepted.has(change.id);
+            return (
+              <li
+                key={change.id}
+                className={`rounded-lg border p-3 text-sm transition-opacity ${isAccepted ? 'border-zinc-700 bg-zinc-900' : 'border-zinc-800 bg-zinc-900/40 opacity-60'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border text-xs font-medium ${kind.className}`}>
+                    {kind.icon} {kind.label}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => toggle(change.id, true)}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${isAccepted ? 'bg-white text-black' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                    >
+                      <Check size={12} /> Accept
+                    </button>
+                    <button
+                      onClick={() => toggle(change.id, false)}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${!isAccepted ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                    >
+                      <X size={12} /> Reject
+                    </button>
+                  </div>
+                </div>
+                <div className="leading-relaxed break-words">
+                  <ChangePreview change={change} />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex items-center justify-end gap-3 p-5 border-t border-zinc-800">
+          <Button variant="ghost" onClick={onDiscard}>Discard all</Button>
+          <Button variant="primary" onClick={() => onApply(accepted)} disabled={accepted.size === 0}>
+            Apply {accepted.size} {accepted.size === 1 ? 'change' : 'changes'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
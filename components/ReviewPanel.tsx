@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, MessageSquareText, Check, AlertCircle, Square } from 'lucide-react';
+import { Button } from './Button';
+import { reviewDocument } from '../services/geminiService';
+import { describeQueueStatus } from '../services/requestQueue';
+import { QueueStatus, ReviewComment } from '../types';
+
+interface ReviewPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  htmlContent: string;
+  comments: ReviewComment[];
+  detachedIds: string[]; // Comments whose quoted text is no longer in the document
+  activeId: string | null;
+  onReviewed: (comments: ReviewComment[]) => void;
+  onSelect: (comment: ReviewComment) => void;
+  onApply: (comment: ReviewComment) => void;
+  onDismiss: (comment: ReviewComment) => void;
+  // Docked inside a split-view pane rather than below the fixed toolbar
+  embedded?: boolean;
+}
+
+const inputClassName = "w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded focus:ring-1 focus:ring-zinc-700 focus:border-zinc-700 outline-none text-sm text-white disabled:opacity-50";
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  isOpen, onClose, htmlContent, comments, detachedIds, activeId, onReviewed, onSelect, onApply, onDismiss, embedded
+}) => {
+  const [focus, setFocus] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    if (!isReviewing) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isReviewing]);
+
+  // Keep the selected comment in view when it's picked from the document
+  useEffect(() => {
+    if (activeId) cardRefs.current[activeId]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeId]);
+
+  if (!isOpen) return null;
+
+  const handleReview = async () => {
+    if (!htmlContent || isReviewing) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsReviewing(true);
+    setError('');
+    try {
+      const result = await reviewDocument(htmlContent, focus, { signal: controller.signal, onQueueStatus: setQueueStatus });
+      onReviewed(result);
+      if (result.length === 0) setError('The AI had no comments on this document.');
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : 'The review failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsReviewing(false);
+      setQueueStatus(null);
+    }
+  };
+
+  return (
+    <div className={`${embedded ? 'absolute top-20' : 'fixed lg:top-[170px] top-[146px]'} right-0 bottom-0 w-full sm:w-80 z-30 bg-[#111111] border-l border-zinc-800 shadow-2xl flex flex-col`}>
+      <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+        <div className="flex items-center gap-2">
+          <MessageSquareText size={18} className="text-zinc-400" />
+          <h3 className="text-lg font-serif font-bold text-white">AI Review</h3>
+        </div>
+        <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-zinc-800">
+        <input
+          value={focus}
+          onChange={(e) => setFocus(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleReview();
+          }}
+          className={inputClassName}
+          placeholder="Focus (optional), e.g. clarity and tone"
+          disabled={isReviewing}
+        />
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handleReview} isLoading={isReviewing} disabled={!htmlContent} className="flex-1">
+            {comments.length > 0 ? 'Review again' : 'Review document'}
+          </Button>
+          {isReviewing && (
+            <Button size="sm" variant="secondary" onClick={() => abortRef.current?.abort()} icon={<Square className="w-3 h-3" />}>
+              Stop
+            </Button>
+          )}
+        </div>
+        {isReviewing && queueStatus && (
+          <p className="text-xs text-zinc-500">{describeQueueStatus(queueStatus, now)}</p>
+        )}
+        <p className="text-[11px] text-zinc-600">Comments never change the document until you apply a suggestion.</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-400">
+            <AlertCircle size={14} className="shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {comments.map(comment => {
+          const isDetached = detachedIds.includes(comment.id);
+          const isActive = comment.id === activeId;
+          return (
+            <div
+              key={comment.id}
+              ref={(el) => { cardRefs.current[comment.id] = el; }}
+              onClick={() => onSelect(comment)}
+              className={`p-3 rounded border cursor-pointer transition-colors ${
+                isActive ? 'border-amber-500/70 bg-zinc-900' : 'border-zinc-800 bg-zinc-900/50 hover:bg-zinc-900'
+              } ${isDetached ? 'opacity-60' : ''}`}
+            >
+              <p className="text-xs italic text-zinc-400 border-l-2 border-amber-500/60 pl-2 line-clamp-3">"{comment.quote}"</p>
+              <p className="text-sm text-zinc-200 mt-2">{comment.issue}</p>
+              {comment.suggestion && (
+                <p className="text-xs text-emerald-300 bg-emerald-950/40 border border-emerald-900/50 rounded px-2 py-1.5 mt-2">
+                  {comment.suggestion}
+                </p>
+              )}
+              {isDetached && (
+                <p className="text-[11px] text-zinc-500 mt-2">The quoted text has changed since the review.</p>
+              )}
+              <div className="flex items-center gap-2 mt-3">
+                {comment.suggestion && (
+                  <Button
+                    size="sm"
+                    onClick={(e) => { e.stopPropagation(); onApply(comment); }}
+                    disabled={isDetached}
+                    icon={<Check className="w-3 h-3" />}
+                  >
+                    Apply suggestion
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); onDismiss(comment); }}>
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {comments.length === 0 && !isReviewing && !error && (
+          <p className="text-sm text-zinc-500">Run a review to get comments on the document. Each comment quotes the text it is about.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { Button } from './Button';
+import { clearSanitizeLog, describeRemoval, getSanitizeLog, subscribeSanitizeLog } from '../services/sanitizeService';
+import { SanitizeLogEntry, SanitizeSource } from '../types';
+
+interface SanitizeDiagnosticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<SanitizeSource, string> = {
+  import: 'Imported document',
+  ai: 'AI update',
+  paste: 'Paste',
+  history: 'Undo / redo'
+};
+
+export const SanitizeDiagnosticsModal: React.FC<SanitizeDiagnosticsModalProps> = ({ isOpen, onClose }) => {
+  const [log, setLog] = useState<SanitizeLogEntry[]>(getSanitizeLog);
+
+  useEffect(() => subscribeSanitizeLog(setLog), []);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-lg max-h-[85vh] flex flex-col p-5 md:p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xl font-serif font-bold text-white">Sanitizer Diagnostics</h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-sm text-zinc-400 mb-4">
+          Imported documents, AI updates, pasted content and undo steps are checked against a list of allowed
+          tags, attributes, styles and link types. Anything else is removed before it reaches the editor.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {log.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-zinc-500">
+              <ShieldCheck size={16} className="text-emerald-500" />
+              <span>Nothing has been removed this session.</span>
+            </div>
+          )}
+
+          {log.map(entry => (
+            <div key={entry.id} className="p-3 rounded border border-zinc-800 bg-zinc-900/50">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-zinc-200">{SOURCE_LABELS[entry.source]}</span>
+                <span className="text-xs text-zinc-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              </div>
+              <ul className="space-y-1">
+                {entry.removals.map(removal => (
+                  <li key={`${removal.kind}:${removal.name}`} className="flex items-center justify-between text-xs">
+                    <span className="text-zinc-400 font-mono">{describeRemoval(removal)}</span>
+                    <span className="text-zinc-500">×{removal.count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          {log.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearSanitizeLog}>Clear</Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X, BarChart3, AlertTriangle } from 'lucide-react';
+import {
+  DocumentStatistics, LONG_SENTENCE_WORDS, ReadabilityStatistics, SentenceStatistic, describeReadingEase
+} from '../services/statisticsService';
+
+interface StatisticsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  statistics: DocumentStatistics | null;
+  onSentenceClick: (sentence: SentenceStatistic) => void;
+  // Docked inside a split-view pane rather than below the fixed toolbar
+  embedded?: boolean;
+}
+
+const formatNumber = (value: number | null, digits = 1) =>
+  value === null ? '-' : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const StatTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded p-2">
+    <div className="text-lg font-semibold text-white leading-tight">{value}</div>
+    <div className="text-[11px] text-zinc-500">{label}</div>
+  </div>
+);
+
+export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ isOpen, onClose, statistics, onSentenceClick, embedded }) => {
+  // -1 is the whole document, otherwise an index into the sections
+  const [scope, setScope] = useState(-1);
+
+  if (!isOpen) return null;
+
+  const sections = statistics?.sections || [];
+  const scopeIndex = scope < sections.length ? scope : -1;
+  const selected: ReadabilityStatistics | null = scopeIndex === -1 ? statistics?.readability || null : sections[scopeIndex];
+
+  return (
+    <div className={`${embedded ? 'absolute top-20' : 'fixed lg:top-[170px] top-[146px]'} right-0 bottom-0 w-full sm:w-80 z-30 bg-[#111111] border-l border-zinc-800 shadow-2xl flex flex-col`}>
+      <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+        <div className="flex items-center gap-2">
+          <BarChart3 size={18} className="text-zinc-400" />
+          <h3 className="text-lg font-serif font-bold text-white">Statistics</h3>
+        </div>
+        <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+          <X size={20} />
+        </button>
+      </div>
+
+      {!statistics ? (
+        <p className="p-4 text-sm text-zinc-500">Counting...</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="grid grid-cols-3 gap-2">
+            <StatTile label="Words" value={formatNumber(statistics.words, 0)} />
+            <StatTile label="Characters" value={formatNumber(statistics.characters, 0)} />
+            <StatTile label="No spaces" value={formatNumber(statistics.charactersWithoutSpaces, 0)} />
+            <StatTile label="Paragraphs" value={formatNumber(statistics.paragraphs, 0)} />
+            <StatTile label="Pages" value={formatNumber(statistics.pages, 0)} />
+            <StatTile label="Images" value={formatNumber(statistics.images, 0)} />
+            <StatTile label="Tables" value={formatNumber(statistics.tables, 0)} />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-zinc-400">Readability</h4>
+              <select
+                value={scopeIndex}
+                onChange={(e) => setScope(Number(e.target.value))}
+                className="max-w-[170px] px-2 py-1 bg-zinc-900 border border-zinc-800 rounded text-xs text-white outline-none focus:ring-1 focus:ring-zinc-700"
+              >
+                <option value={-1}>Whole document</option>
+                {sections.map((section, index) => (
+                  <option key={`${section.blockIndex}-${index}`} value={index}>{section.title}</option>
+                ))}
+              </select>
+            </div>
+
+            {selected && selected.sentences > 0 ? (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <StatTile label="Reading ease" value={formatNumber(selected.readingEase, 0)} />
+                  <StatTile label="Grade level" value={formatNumber(selected.gradeLevel)} />
+                  <StatTile label="Words / sentence" value={formatNumber(selected.averageSentenceLength)} />
+                </div>
+                {selected.readingEase !== null && (
+                  <p className="text-xs text-zinc-500">
+                    {describeReadingEase(selected.readingEase)} · {formatNumber(selected.words, 0)} words in {formatNumber(selected.sentences, 0)} sentences
+                  </p>
+                )}
+
+                <div className="space-y-1.5">
+                  <h4 className="text-xs font-semibold uppercase tracking-wider text-zinc-400">Longest sentences</h4>
+                  {selected.longestSentences.map((sentence, index) => {
+                    const isLong = sentence.words > LONG_SENTENCE_WORDS;
+                    return (
+                      <button
+                        key={`${sentence.blockIndex}-${sentence.start}-${index}`}
+                        onClick={() => onSentenceClick(sentence)}
+                        className={`w-full text-left p-2 rounded border text-xs transition-colors ${
+                          isLong
+                            ? 'border-amber-900/60 bg-amber-950/30 hover:bg-amber-950/60'
+                            : 'border-zinc-800 bg-zinc-900 hover:bg-zinc-800'
+                        }`}
+                        title="Show in document"
+                      >
+                        <span className={`flex items-center gap-1 font-semibold mb-0.5 ${isLong ? 'text-amber-400' : 'text-zinc-400'}`}>
+                          {isLong && <AlertTriangle size={12} />}
+                          {sentence.words} words
+                        </span>
+                        <span className="text-zinc-300 line-clamp-2">{sentence.text}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </>
+            ) : (
+              <p className="text-xs text-zinc-500">No sentences to measure yet.</p>
+            )}
+          </div>
+
+          {sections.length > 1 && (
+            <div className="space-y-1.5">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-zinc-400">Sections</h4>
+              <div className="border border-zinc-800 rounded divide-y divide-zinc-800">
+                {sections.map((section, index) => (
+                  <button
+                    key={`${section.blockIndex}-${index}`}
+                    onClick={() => setScope(index)}
+                    className={`w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-zinc-900 ${index === scopeIndex ? 'bg-zinc-900' : ''}`}
+                  >
+                    <span className="flex-1 truncate text-zinc-300">{section.title}</span>
+                    <span className="text-zinc-500 shrink-0">{formatNumber(section.words, 0)} w</span>
+                    <span className="w-10 text-right text-zinc-400 shrink-0" title="Reading ease">{formatNumber(section.readingEase, 0)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Languages, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { translateDocument, TranslationResult } from '../services/geminiService';
+import { describeQueueStatus } from '../services/requestQueue';
+import { ChunkProgress } from '../types';
+
+interface TranslateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentHtml: string;
+  onTranslated: (result: TranslationResult) => void;
+}
+
+const COMMON_LANGUAGES = ['Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Chinese (Simplified)', 'Japanese', 'Hindi', 'Arabic'];
+
+export const TranslateModal: React.FC<TranslateModalProps> = ({ isOpen, onClose, documentHtml, onTranslated }) => {
+  const [language, setLanguage] = useState('');
+  const [progress, setProgress] = useState<ChunkProgress[] | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isTranslating = progress !== null && !error;
+
+  useEffect(() => {
+    if (!isTranslating) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isTranslating]);
+
+  if (!isOpen) return null;
+
+  const handleTranslate = async () => {
+    const target = language.trim();
+    if (!target) {
+      setError('Choose a language to translate into.');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setProgress([]);
+    try {
+      const result = await translateDocument(documentHtml, target, { signal: controller.signal, onProgress: setProgress });
+      if (result.untranslatedBlockIds.length > 0 && result.progress.every(chunk => chunk.status === 'failed')) {
+        setError(`Nothing could be translated: ${result.progress[0]?.error || 'the AI did not return usable HTML.'}`);
+        return;
+      }
+      setProgress(null);
+      onTranslated(result);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setProgress(null);
+        return;
+      }
+      setError(e instanceof Error ? e.message : 'Translation failed.');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    setProgress(null);
+    setError('');
+    onClose();
+  };
+
+  const doneCount = progress?.filter(chunk => chunk.status === 'done' || chunk.status === 'failed').length || 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-[#111111] rounded-lg shadow-xl border border-zinc-800 w-full max-w-md max-h-[85vh] flex flex-col p-5 md:p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xl font-serif font-bold text-white">Translate Document</h3>
+          <button onClick={handleClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-zinc-500 mb-6">
+          Every block is translated with its formatting, styles and images kept exactly as they are. The original and the translation open side by side.
+        </p>
+
+        <div className="space-y-6 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">Target language</label>
+            <input
+              type="text"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !isTranslating) handleTranslate(); }}
+              disabled={isTranslating}
+              className="w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded focus:ring-1 focus:ring-zinc-700 focus:border-zinc-700 outline-none text-white disabled:opacity-50"
+              placeholder="e.g. Spanish, de, Brazilian Portuguese"
+            />
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {COMMON_LANGUAGES.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setLanguage(name)}
+                  disabled={isTranslating}
+                  className={`px-2 py-1 rounded text-xs border transition-colors disabled:opacity-50 ${
+                    language === name
+                      ? 'bg-zinc-900 border-white text-white'
+                      : 'border-zinc-800 text-zinc-400 hover:border-zinc-700 hover:text-zinc-200'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {progress && progress.length > 0 && (
+            <div>
+              <div className="text-xs text-zinc-400 mb-2">Translated {doneCount} of {progress.length} parts</div>
+              <ul className="space-y-1 text-xs">
+                {progress.map(chunk => (
+                  <li key={chunk.index} className="flex items-center gap-2">
+                    {chunk.status === 'done' && <Check size={12} className="text-green-400 flex-shrink-0" />}
+                    {chunk.status === 'failed' && <AlertCircle size={12} className="text-red-400 flex-shrink-0" />}
+                    {(chunk.status === 'running' || chunk.status === 'retrying') && <Loader2 size={12} className="animate-spin text-zinc-400 flex-shrink-0" />}
+                    {chunk.status === 'pending' && <div className="w-3 h-3 rounded-full border border-zinc-600 flex-shrink-0" />}
+                    <span className="flex-1 truncate text-zinc-300" title={chunk.error || chunk.label}>
+                      {chunk.index + 1}. {chunk.label}
+                    </span>
+                    {chunk.queue && <span className="text-zinc-500">{describeQueueStatus(chunk.queue, now)}</span>}
+                    {chunk.attempts > 1 && <span className="text-zinc-500">try {chunk.attempts}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button variant="ghost" onClick={handleClose}>{isTranslating ? 'Cancel' : 'Close'}</Button>
+            <Button variant="primary" onClick={handleTranslate} isLoading={isTranslating} icon={<Languages size={16} />}>
+              Translate
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef } from 'react';
+import { Languages, X } from 'lucide-react';
+import { DocumentEditor } from './DocumentEditor';
+import { BLOCK_ID_ATTR } from '../services/blockService';
+
+interface TranslationViewProps {
+  sourceHtml: string;
+  translatedHtml: string;
+  language: string;
+  untranslatedCount: number;
+  onSourceChange: (newHtml: string) => void;
+  onTranslationChange: (newHtml: string) => void;
+  sourceEditorRef: React.RefObject<HTMLDivElement | null>;
+  translationEditorRef: React.RefObject<HTMLDivElement | null>;
+  onClose: () => void;
+}
+
+type Pane = 'source' | 'translation';
+
+const LINK_HIGHLIGHT_MS = 1500;
+
+const findBlock = (container: HTMLElement, blockId: string): HTMLElement | null =>
+  container.querySelector(`[${BLOCK_ID_ATTR}="${blockId}"]`);
+
+// First block whose bottom edge is below the top of the scroll area
+const firstVisibleBlock = (container: HTMLElement): HTMLElement | null => {
+  const top = container.getBoundingClientRect().top;
+  return Array.from(container.querySelectorAll<HTMLElement>(`[${BLOCK_ID_ATTR}]`))
+    .find(block => block.getBoundingClientRect().bottom > top) || null;
+};
+
+export const TranslationView: React.FC<TranslationViewProps> = ({
+  sourceHtml,
+  translatedHtml,
+  language,
+  untranslatedCount,
+  onSourceChange,
+  onTranslationChange,
+  sourceEditorRef,
+  translationEditorRef,
+  onClose
+}) => {
+  const scrollRefs = {
+    source: useRef<HTMLDivElement>(null),
+    translation: useRef<HTMLDivElement>(null)
+  };
+  // The pane we just scrolled ourselves - its next scroll event is ours, not the user's
+  const programmaticScrollRef = useRef<Pane | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const otherPane = (pane: Pane): Pane => pane === 'source' ? 'translation' : 'source';
+
+  // Scrolls `pane` so `target` sits at the same height on screen as `anchorTop`
+  const scrollToAlign = (pane: Pane, target: HTMLElement, anchorTop: number) => {
+    const container = scrollRefs[pane].current;
+    if (!container) return;
+    const before = container.scrollTop;
+    container.scrollTop += target.getBoundingClientRect().top - anchorTop;
+    if (container.scrollTop !== before) {
+      programmaticScrollRef.current = pane;
+    }
+  };
+
+  // Keeps the block at the top of one pane level with the same block in the other
+  const syncScroll = (from: Pane) => {
+    const source = scrollRefs[from].current;
+    const target = scrollRefs[otherPane(from)].current;
+    if (!source || !target) return;
+
+    const anchor = firstVisibleBlock(source);
+    const blockId = anchor?.getAttribute(BLOCK_ID_ATTR);
+    const counterpart = blockId ? findBlock(target, blockId) : null;
+    if (!anchor || !counterpart) return;
+
+    // Scroll proportionally through blocks of different lengths
+    const anchorRect = anchor.getBoundingClientRect();
+    const viewTop = source.getBoundingClientRect().top;
+    const fraction = Math.min(1, Math.max(0, (viewTop - anchorRect.top) / (anchorRect.height || 1)));
+    const offset = fraction * counterpart.getBoundingClientRect().height;
+    scrollToAlign(otherPane(from), counterpart, target.getBoundingClientRect().top - offset);
+  };
+
+  useEffect(() => {
+    const listeners = (['source', 'translation'] as Pane[]).map(pane => {
+      const onScroll = () => {
+        if (programmaticScrollRef.current === pane) {
+          programmaticScrollRef.current = null;
+          return;
+        }
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+        frameRef.current = requestAnimationFrame(() => {
+          frameRef.current = null;
+          syncScroll(pane);
+        });
+      };
+      scrollRefs[pane].current?.addEventListener('scroll', onScroll, { passive: true });
+      return () => scrollRefs[pane].current?.removeEventListener('scroll', onScroll);
+    });
+
+    return () => {
+      listeners.forEach(remove => remove());
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  // Clicking a block brings its counterpart level with it and outlines both
+  const handleBlockClick = (pane: Pane) => (e: React.MouseEvent) => {
+    const block = (e.target as HTMLElement).closest<HTMLElement>(`[${BLOCK_ID_ATTR}]`);
+    const blockId = block?.getAttribute(BLOCK_ID_ATTR);
+    const other = scrollRefs[otherPane(pane)].current;
+    const counterpart = blockId && other ? findBlock(other, blockId) : null;
+    if (!block || !counterpart) return;
+
+    scrollToAlign(otherPane(pane), counterpart, block.getBoundingClientRect().top);
+    [block, counterpart].forEach(element => {
+      element.classList.add('linked-block');
+      setTimeout(() => element.classList.remove('linked-block'), LINK_HIGHLIGHT_MS);
+    });
+  };
+
+  const paneHeader = (label: string, detail?: string) => (
+    <div className="h-9 flex items-center gap-2 px-4 bg-[#111111] border-b border-zinc-800 text-xs text-zinc-300 shrink-0">
+      <span className="font-medium text-white">{label}</span>
+      {detail && <span className="text-zinc-500 truncate">{detail}</span>}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="h-10 flex items-center justify-between px-4 bg-[#111111] border-b border-zinc-800 shrink-0">
+        <div className="flex items-center gap-2 text-sm text-zinc-300">
+          <Languages size={16} className="text-zinc-400" />
+          <span>Translation view - scrolling and clicking a block keeps both versions in step</span>
+        </div>
+        <button onClick={onClose} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white" title="Close the translation view">
+          <X size={14} /> Close
+        </button>
+      </div>
+
+      <div className="flex-1 grid grid-cols-2 min-h-0 divide-x divide-zinc-800">
+        <div className="flex flex-col min-h-0 min-w-0" onClick={handleBlockClick('source')}>
+          {paneHeader('Original')}
+          <div className="flex-1 min-h-0">
+            <DocumentEditor
+              htmlContent={sourceHtml}
+              onContentChange={onSourceChange}
+              editorRef={sourceEditorRef}
+              scrollRef={scrollRefs.source}
+              embedded
+            />
+          </div>
+        </div>
+        <div className="flex flex-col min-h-0 min-w-0" onClick={handleBlockClick('translation')}>
+          {paneHeader(
+            language,
+            untranslatedCount > 0 ? `${untranslatedCount} ${untranslatedCount === 1 ? 'block' : 'blocks'} kept in the original language` : undefined
+          )}
+          <div className="flex-1 min-h-0">
+            <DocumentEditor
+              htmlContent={translatedHtml}
+              onContentChange={onTranslationChange}
+              editorRef={translationEditorRef}
+              scrollRef={scrollRefs.translation}
+              embedded
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
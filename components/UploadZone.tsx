@@ -1,12 +1,14 @@
 import React, { useCallback } from 'react';
-import { Upload, FileType } from 'lucide-react';
+import { Upload, FileType, FilePlus, Files } from 'lucide-react';
 
 interface UploadZoneProps {
   onFileAccepted: (file: File) => void;
   isProcessing: boolean;
+  onNewReportClick?: () => void;
+  onBatchClick?: () => void;
 }
 
-export const UploadZone: React.FC<UploadZoneProps> = ({ onFileAccepted, isProcessing }) => {
+export const UploadZone: React.FC<UploadZoneProps> = ({ onFileAccepted, isProcessing, onNewReportClick, onBatchClick }) => {
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -85,6 +87,26 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileAccepted, isProces
             </>
           )}
         </div>
+
+        {onNewReportClick && !isProcessing && (
+          <button
+            onClick={onNewReportClick}
+            className="mt-6 inline-flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            <FilePlus size={16} />
+            <span>No document yet? <strong className="font-medium">Start a new report</strong> from an outline</span>
+          </button>
+        )}
+
+        {onBatchClick && !isProcessing && (
+          <button
+            onClick={onBatchClick}
+            className="mt-3 flex mx-auto items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            <Files size={16} />
+            <span>Same change for many files? <strong className="font-medium">Batch edit</strong> a set of documents</span>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,503 @@
+// AI Provider Layer - lets the document assistant talk to Gemini, any
+// OpenAI-compatible chat endpoint, a local Ollama server, or an offline mock.
+
+export type AiProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// Reference material the user attached in the chat
+export type AiAttachment =
+  | { kind: 'image'; name: string; mimeType: string; data: string } // base64, no data: prefix
+  | { kind: 'text'; name: string; text: string };
+
+export interface AiRequest {
+  systemInstruction: string;
+  userContent: string;
+  attachments?: AiAttachment[];
+  signal?: AbortSignal;
+}
+
+// Receives each piece of text as it arrives from a streaming provider
+export type StreamHandler = (delta: string) => void;
+
+// A function the model can call instead of answering in text; parameters are a JSON Schema object
+export interface AiToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface AiToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Any text the model wrote alongside its calls, and the calls in the order it made them
+export interface AiToolReply {
+  text: string;
+  calls: AiToolCall[];
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  generateText: (request: AiRequest) => Promise<string>;
+  // Streams the reply through onDelta and resolves with the full text
+  streamText?: (request: AiRequest, onDelta: StreamHandler) => Promise<string>;
+  // Function calling; providers without it get plain-text requests instead
+  generateToolCalls?: (request: AiRequest, tools: AiToolDefinition[]) => Promise<AiToolReply>;
+  generateImage?: (prompt: string) => Promise<string>;
+}
+
+const env = import.meta.env;
+
+const PROVIDER_STORAGE_KEY = 'reportremix.aiProvider';
+
+// An HTTP failure from a provider. Carries the status and the server's Retry-After
+// so the request queue can decide whether (and when) to try again.
+export class AiHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Shared HTTP error handling so every provider reports failures the same way
+const assertOk = async (response: Response, providerLabel: string, retryAfterMs = parseRetryAfter(response)): Promise<void> => {
+  if (response.ok) return;
+
+  if (response.status === 429) {
+    throw new AiHttpError(`⏱️ ${providerLabel} rate limit exceeded. Please wait 1 minute before trying again.`, 429, retryAfterMs);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`❌ ${providerLabel} rejected the API key. Please check your .env.local configuration.`);
+  }
+  throw new AiHttpError(`API Error: ${response.status} ${response.statusText}`, response.status, retryAfterMs);
+};
+
+// Text attachments travel inline with the prompt for every provider
+const buildUserText = ({ userContent, attachments = [] }: AiRequest): string => {
+  const sections = attachments
+    .flatMap(a => a.kind === 'text' ? [`--- ATTACHMENT: ${a.name} ---\n${a.text}`] : [])
+    .join('\n\n');
+  if (!sections) return userContent;
+
+  return `${userContent}\n\nREFERENCE ATTACHMENTS (use as source material, do not paste them verbatim unless asked):\n${sections}`;
+};
+
+const imageAttachments = (request: AiRequest) =>
+  (request.attachments || []).flatMap(a => a.kind === 'image' ? [a] : []);
+
+// Reads a streaming response body line by line (SSE "data:" lines or NDJSON)
+const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) throw new Error('Streaming is not supported by this browser');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => {
+      if (line.trim()) onLine(line.trim());
+    });
+  }
+
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+// Parses the JSON payload of an SSE "data:" line, ignoring keep-alives and the [DONE] sentinel
+const parseSseData = (line: string): any | null => {
+  if (!line.startsWith('data:')) return null;
+  const payload = line.slice(5).trim();
+  if (!payload || payload === '[DONE]') return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return null;
+  }
+};
+
+// Tool arguments arrive as an object or, from OpenAI-style APIs, as a JSON string
+const parseToolArguments = (args: unknown): Record<string, unknown> => {
+  if (typeof args === 'string') {
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return args && typeof args === 'object' ? args as Record<string, unknown> : {};
+};
+
+// OpenAI and Ollama describe tools the same way
+const toOpenAiTools = (tools: AiToolDefinition[]) =>
+  tools.map(tool => ({ type: 'function', function: tool }));
+
+const parseOpenAiToolCalls = (toolCalls: any): AiToolCall[] =>
+  (Array.isArray(toolCalls) ? toolCalls : [])
+    .filter((call: any) => typeof call?.function?.name === 'string')
+    .map((call: any) => ({ name: call.function.name, args: parseToolArguments(call.function.arguments) }));
+
+// --- Gemini ---
+
+const GEMINI_MODEL = env.VITE_GEMINI_MODEL || 'gemini-flash-latest';
+const GEMINI_BASE_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}`;
+
+// Gemini puts its retry hint in the error body ("retryDelay": "23s") rather than a header
+const parseGeminiRetryDelay = async (response: Response): Promise<number | undefined> => {
+  try {
+    const data = await response.clone().json();
+    const retryInfo = (data?.error?.details || []).find((detail: any) => detail.retryDelay);
+    const seconds = parseFloat(retryInfo?.retryDelay);
+    return Number.isNaN(seconds) ? undefined : seconds * 1000;
+  } catch {
+    return undefined;
+  }
+};
+
+const postGemini = async (
+  method: 'generateContent' | 'streamGenerateContent',
+  parts: any[],
+  signal?: AbortSignal,
+  extraBody: Record<string, unknown> = {}
+): Promise<Response> => {
+  const url = method === 'streamGenerateContent'
+    ? `${GEMINI_BASE_URL}:streamGenerateContent?alt=sse`
+    : `${GEMINI_BASE_URL}:generateContent`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': env.VITE_GEMINI_API_KEY
+    },
+    body: JSON.stringify({
+      contents: [{
+        parts
+      }],
+      ...extraBody
+    }),
+    signal
+  });
+
+  if (response.status === 429) {
+    throw new AiHttpError(
+      '⏱️ Rate limit exceeded. Please wait 1 minute before trying again.\n\nGemini API free tier allows:\n• 15 requests per minute\n• 1,500 requests per day',
+      429,
+      parseRetryAfter(response) ?? await parseGeminiRetryDelay(response)
+    );
+  }
+  if (response.status === 403) {
+    throw new Error('❌ API key invalid or expired. Please check your VITE_GEMINI_API_KEY in .env.local');
+  }
+  await assertOk(response, 'Gemini');
+  return response;
+};
+
+const callGemini = async (parts: any[], signal?: AbortSignal, extraBody?: Record<string, unknown>): Promise<any[]> => {
+  const response = await postGemini('generateContent', parts, signal, extraBody);
+  const data = await response.json();
+  return data.candidates?.[0]?.content?.parts || [];
+};
+
+const geminiParts = (request: AiRequest): any[] => [
+  { text: `${request.systemInstruction}\n\n${buildUserText(request)}` },
+  ...imageAttachments(request).map(image => ({
+    inlineData: { mimeType: image.mimeType, data: image.data }
+  }))
+];
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  generateText: async (request) => {
+    const parts = await callGemini(geminiParts(request), request.signal);
+    return parts[0]?.text || "";
+  },
+  streamText: async (request, onDelta) => {
+    const response = await postGemini('streamGenerateContent', geminiParts(request), request.signal);
+    let fullText = '';
+    await readLines(response, line => {
+      const data = parseSseData(line);
+      const delta = (data?.candidates?.[0]?.content?.parts || [])
+        .map((part: any) => part.text || '')
+        .join('');
+      if (delta) {
+        fullText += delta;
+        onDelta(delta);
+      }
+    });
+    return fullText;
+  },
+  generateToolCalls: async (request, tools) => {
+    const parts = await callGemini(geminiParts(request), request.signal, {
+      tools: [{ functionDeclarations: tools }]
+    });
+    return {
+      text: parts.map((part: any) => part.text || '').join(''),
+      calls: parts
+        .filter((part: any) => typeof part.functionCall?.name === 'string')
+        .map((part: any) => ({ name: part.functionCall.name, args: parseToolArguments(part.functionCall.args) }))
+    };
+  },
+  generateImage: async (prompt) => {
+    const parts = await callGemini([{ text: `Generate an image: ${prompt}` }]);
+    if (parts.length === 0) throw new Error("No content generated");
+
+    const imagePart = parts.find((p: any) => p.inlineData);
+    if (imagePart && imagePart.inlineData) {
+      return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
+    }
+
+    throw new Error("No image data found in response");
+  }
+};
+
+// --- OpenAI-compatible (OpenAI, Azure OpenAI, vLLM, LM Studio, LocalAI, ...) ---
+
+const OPENAI_BASE_URL = (env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+const OPENAI_MODEL = env.VITE_OPENAI_MODEL || 'gpt-4o-mini';
+
+const postOpenAi = async (request: AiRequest, stream: boolean, extraBody: Record<string, unknown> = {}): Promise<Response> => {
+  const { systemInstruction, signal } = request;
+  const images = imageAttachments(request);
+  const userText = buildUserText(request);
+  // Vision-capable endpoints take an array of content parts; plain text keeps older servers happy
+  const userMessageContent = images.length === 0 ? userText : [
+    { type: 'text', text: userText },
+    ...images.map(image => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+    }))
+  ];
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (env.VITE_OPENAI_API_KEY) {
+    headers['Authorization'] = `Bearer ${env.VITE_OPENAI_API_KEY}`;
+  }
+
+  const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: OPENAI_MODEL,
+      stream,
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: userMessageContent }
+      ],
+      ...extraBody
+    }),
+    signal
+  });
+
+  await assertOk(response, 'OpenAI-compatible endpoint');
+  return response;
+};
+
+export const openAiCompatibleProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  generateText: async (request) => {
+    const response = await postOpenAi(request, false);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  },
+  streamText: async (request, onDelta) => {
+    const response = await postOpenAi(request, true);
+    let fullText = '';
+    await readLines(response, line => {
+      const delta = parseSseData(line)?.choices?.[0]?.delta?.content;
+      if (delta) {
+        fullText += delta;
+        onDelta(delta);
+      }
+    });
+    return fullText;
+  },
+  generateToolCalls: async (request, tools) => {
+    const response = await postOpenAi(request, false, { tools: toOpenAiTools(tools), tool_choice: 'auto' });
+    const message = (await response.json()).choices?.[0]?.message;
+    return { text: message?.content || '', calls: parseOpenAiToolCalls(message?.tool_calls) };
+  }
+};
+
+// --- Ollama (local HTTP server) ---
+
+const OLLAMA_URL = (env.VITE_OLLAMA_URL || 'http://localhost:11434').replace(/\/$/, '');
+const OLLAMA_MODEL = env.VITE_OLLAMA_MODEL || 'llama3.1';
+
+const postOllama = async (request: AiRequest, stream: boolean, extraBody: Record<string, unknown> = {}): Promise<Response> => {
+  const { systemInstruction, signal } = request;
+  const images = imageAttachments(request).map(image => image.data);
+  let response: Response;
+  try {
+    response = await fetch(`${OLLAMA_URL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: OLLAMA_MODEL,
+        stream,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: buildUserText(request), ...(images.length > 0 ? { images } : {}) }
+        ],
+        ...extraBody
+      }),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error(`❌ Could not reach Ollama at ${OLLAMA_URL}. Is the server running?`);
+  }
+
+  await assertOk(response, 'Ollama');
+  return response;
+};
+
+export const ollamaProvider: AiProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  generateText: async (request) => {
+    const response = await postOllama(request, false);
+    const data = await response.json();
+    return data.message?.content || "";
+  },
+  streamText: async (request, onDelta) => {
+    // Ollama streams newline-delimited JSON objects
+    const response = await postOllama(request, true);
+    let fullText = '';
+    await readLines(response, line => {
+      try {
+        const delta = JSON.parse(line).message?.content;
+        if (delta) {
+          fullText += delta;
+          onDelta(delta);
+        }
+      } catch {
+        // Ignore partial / non-JSON lines
+      }
+    });
+    return fullText;
+  },
+  generateToolCalls: async (request, tools) => {
+    // Models without tool support answer with an error, which the caller treats like any other failure
+    const response = await postOllama(request, false, { tools: toOpenAiTools(tools) });
+    const message = (await response.json()).message;
+    return { text: message?.content || '', calls: parseOpenAiToolCalls(message?.tool_calls) };
+  }
+};
+
+// --- Mock (deterministic, offline) ---
+
+export type MockResponder = (request: AiRequest) => string;
+
+// Default behaviour: echo back the HTML that was sent, untouched.
+// This keeps image placeholders and structure intact so the merge logic can be exercised offline.
+const echoDocument: MockResponder = ({ userContent }) => {
+  // Ignore the user's request text so a stray "<" in it can't leak into the echo
+  const requestIndex = userContent.indexOf('USER REQUEST:');
+  const documentPart = requestIndex === -1 ? userContent : userContent.slice(0, requestIndex);
+  const start = documentPart.indexOf('<');
+  const end = documentPart.lastIndexOf('>');
+  if (start === -1 || end < start) return "";
+  return documentPart.slice(start, end + 1);
+};
+
+let mockResponder: MockResponder = echoDocument;
+
+/**
+ * Overrides what the mock provider returns, e.g. a truncated document to exercise
+ * the smart merge. Pass nothing to go back to echoing the input document.
+ */
+export const setMockResponder = (responder?: MockResponder) => {
+  mockResponder = responder || echoDocument;
+};
+
+export type MockToolResponder = (request: AiRequest, tools: AiToolDefinition[]) => AiToolCall[];
+
+// No calls by default, so edits fall through to the mock's plain-text behaviour
+let mockToolResponder: MockToolResponder = () => [];
+
+// Overrides the tool calls the mock provider makes. Pass nothing to go back to making none.
+export const setMockToolResponder = (responder?: MockToolResponder) => {
+  mockToolResponder = responder || (() => []);
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  generateText: async (request) => mockResponder(request),
+  streamText: async (request, onDelta) => {
+    // Deliver the reply in fixed-size pieces so streaming UI can be exercised offline
+    const text = mockResponder(request);
+    for (let i = 0; i < text.length; i += 512) {
+      request.signal?.throwIfAborted();
+      onDelta(text.slice(i, i + 512));
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return text;
+  },
+  generateToolCalls: async (request, tools) => ({ text: '', calls: mockToolResponder(request, tools) }),
+  generateImage: async () => {
+    // 1x1 transparent PNG
+    return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+  }
+};
+
+// --- Registry / runtime selection ---
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider
+};
+
+// Own keys only - "toString" or "constructor" from a stale setting must not pass as an id
+const isProviderId = (value: unknown): value is AiProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value);
+
+const readInitialProvider = (): AiProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(stored)) return stored;
+  } catch {
+    // localStorage unavailable (private mode, SSR) - fall through to env default
+  }
+  return isProviderId(env.VITE_AI_PROVIDER) ? env.VITE_AI_PROVIDER : 'gemini';
+};
+
+let activeProviderId: AiProviderId = readInitialProvider();
+
+export const getActiveProvider = (): AiProvider => AI_PROVIDERS[activeProviderId];
+
+export const setActiveProvider = (id: AiProviderId) => {
+  activeProviderId = id;
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch {
+    // Selection still applies for this session
+  }
+  console.log('🔌 AI provider switched to', AI_PROVIDERS[id].label);
+};
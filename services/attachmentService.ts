@@ -0,0 +1,90 @@
+// Chat attachments - turns the files a user attaches into context the model can actually read:
+// images as inline data, PDFs / DOCX / TXT as extracted text, all within a size budget.
+import { AiAttachment } from './aiProviders';
+import { loadPdfDocument } from './pdfService';
+import { parseWordDocument } from './docService';
+
+// Budgets keep a couple of attachments from crowding the document out of the context window
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const MAX_TEXT_CHARS_PER_FILE = 20000;
+const MAX_TEXT_CHARS_TOTAL = 40000;
+
+export interface PreparedAttachments {
+  attachments: AiAttachment[];
+  notes: string[]; // What was skipped or truncated, shown to the user
+}
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const htmlToText = (html: string): string => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html, 'text/html');
+  // Keep block boundaries as line breaks
+  doc.querySelectorAll('p, h1, h2, h3, h4, h5, h6, li, tr, br').forEach(el => el.append('\n'));
+  doc.querySelectorAll('td, th').forEach(el => el.append('\t'));
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const extractText = async (file: File): Promise<string> => {
+  const name = file.name.toLowerCase();
+  if (file.type.includes('pdf') || name.endsWith('.pdf')) {
+    const { text } = await loadPdfDocument(file);
+    return text;
+  }
+  if (name.endsWith('.docx') || file.type.includes('wordprocessingml')) {
+    return htmlToText(await parseWordDocument(file));
+  }
+  return file.text();
+};
+
+export const prepareAttachments = async (files: File[]): Promise<PreparedAttachments> => {
+  const attachments: AiAttachment[] = [];
+  const notes: string[] = [];
+  let textBudget = MAX_TEXT_CHARS_TOTAL;
+
+  for (const file of files) {
+    try {
+      if (file.type.startsWith('image/')) {
+        if (file.size > MAX_IMAGE_BYTES) {
+          notes.push(`${file.name} was skipped (images must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB).`);
+          continue;
+        }
+        attachments.push({ kind: 'image', name: file.name, mimeType: file.type, data: await readAsBase64(file) });
+        continue;
+      }
+
+      let text = await extractText(file);
+      if (!text.trim()) {
+        notes.push(`${file.name} has no readable text.`);
+        continue;
+      }
+
+      const limit = Math.min(MAX_TEXT_CHARS_PER_FILE, textBudget);
+      if (limit <= 0) {
+        notes.push(`${file.name} was skipped (attachment text budget used up).`);
+        continue;
+      }
+      if (text.length > limit) {
+        notes.push(`${file.name} was truncated to the first ${limit.toLocaleString()} characters.`);
+        text = text.slice(0, limit);
+      }
+      textBudget -= text.length;
+      attachments.push({ kind: 'text', name: file.name, text });
+    } catch (error) {
+      console.error('Attachment processing failed:', file.name, error);
+      notes.push(`${file.name} could not be read.`);
+    }
+  }
+
+  console.log('📎 Prepared attachments:', attachments.map(a => `${a.name} (${a.kind})`), notes);
+  return { attachments, notes };
+};
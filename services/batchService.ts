@@ -0,0 +1,165 @@
+// Batch mode: the same instruction applied to many .docx files. Each file is imported,
+// edited and exported exactly like a document opened in the editor; the AI requests go
+// through the shared request queue, so a batch respects the same rate limits as the chat.
+import { exportToWord, parseWordDocument } from './docService';
+import { getChunkedEditSuggestions, getDocumentEditSuggestions } from './geminiService';
+import { DEFAULT_CHUNK_TOKEN_BUDGET, estimateTokens, runWithConcurrency } from './chunkService';
+import { BlockChange, diffBlocks } from './diffService';
+import { createZip, uniqueFileName, ZipEntry } from './zipService';
+import { QueueStatus } from '../types';
+
+// Files in flight at once; their requests still wait their turn in the queue
+const BATCH_CONCURRENCY = 2;
+export const BATCH_REPORT_FILE_NAME = 'batch-report.txt';
+
+export type BatchFileStatus = 'pending' | 'importing' | 'editing' | 'exporting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchFileStatus;
+  queue?: QueueStatus; // Set while the file's AI request waits in the queue
+  changes?: BlockChange[]; // Block diff between the imported and the edited document
+  summary?: string; // The model's explanation of the edit
+  warning?: string; // The edit only partly landed (chunks kept as they were)
+  error?: string;
+  result?: Blob; // The exported .docx
+}
+
+export interface BatchOptions {
+  signal?: AbortSignal;
+  onUpdate?: (items: BatchItem[]) => void;
+}
+
+export const createBatchItems = (files: File[]): BatchItem[] =>
+  files.map((file, index) => ({ id: `batch_${Date.now().toString(36)}_${index}`, file, status: 'pending' }));
+
+const isAbort = (error: unknown, signal?: AbortSignal): boolean =>
+  !!signal?.aborted || (error instanceof DOMException && error.name === 'AbortError');
+
+// Same choice the chat makes: documents over the token budget are edited section by section
+const editHtml = async (
+  html: string,
+  instruction: string,
+  signal: AbortSignal | undefined,
+  onQueueStatus: (status: QueueStatus) => void
+): Promise<{ html: string; summary?: string; warning?: string }> => {
+  if (estimateTokens(html) > DEFAULT_CHUNK_TOKEN_BUDGET) {
+    const result = await getChunkedEditSuggestions(html, instruction, { signal });
+    const failed = result.progress.filter(chunk => chunk.status === 'failed');
+    if (failed.length === result.progress.length) {
+      throw new Error(`❌ Every section failed: ${failed[0]?.error || 'the AI did not return usable HTML'}`);
+    }
+    return {
+      html: result.html,
+      warning: failed.length > 0 ? `${failed.length} of ${result.progress.length} sections kept as they were` : undefined
+    };
+  }
+
+  const response = await getDocumentEditSuggestions(html, instruction, { signal, onQueueStatus });
+  if (response.type !== 'update') {
+    throw new Error(`❌ The AI answered instead of editing: ${response.content.slice(0, 200)}`);
+  }
+  return { html: response.content, summary: response.summary };
+};
+
+/**
+ * Runs the instruction over every item that isn't done yet, reporting each step through
+ * onUpdate. A file that fails is marked failed and the rest carry on. Stopping marks the
+ * files that hadn't finished as cancelled.
+ */
+export const runBatch = async (items: BatchItem[], instruction: string, { signal, onUpdate }: BatchOptions = {}): Promise<BatchItem[]> => {
+  const current = [...items];
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    current[index] = { ...current[index], ...changes };
+    onUpdate?.([...current]);
+  };
+
+  const pending = current.map((item, index) => ({ item, index })).filter(({ item }) => item.status !== 'done');
+  console.log('📦 Batch edit:', pending.length, 'files, concurrency', BATCH_CONCURRENCY);
+
+  await runWithConcurrency(pending, BATCH_CONCURRENCY, async ({ item, index }) => {
+    if (signal?.aborted) {
+      update(index, { status: 'cancelled', queue: undefined });
+      return;
+    }
+    try {
+      update(index, { status: 'importing', error: undefined, warning: undefined, changes: undefined, result: undefined });
+      const originalHtml = await parseWordDocument(item.file);
+
+      update(index, { status: 'editing' });
+      const edited = await editHtml(originalHtml, instruction, signal, queue =>
+        update(index, { queue: queue.state === 'running' ? undefined : queue })
+      );
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+      update(index, { status: 'exporting', queue: undefined });
+      const result = exportToWord(edited.html);
+      update(index, {
+        status: 'done',
+        changes: diffBlocks(originalHtml, edited.html),
+        summary: edited.summary,
+        warning: edited.warning,
+        result
+      });
+      console.log('✅ Batch file done:', item.file.name);
+    } catch (error) {
+      if (isAbort(error, signal)) {
+        update(index, { status: 'cancelled', queue: undefined });
+        return;
+      }
+      const message = error instanceof Error ? error.message.replace(/^❌\s*/, '') : String(error);
+      console.warn('⚠️ Batch file failed:', item.file.name, message);
+      update(index, { status: 'failed', queue: undefined, error: message });
+    }
+  });
+
+  return current;
+};
+
+// "report.docx" becomes "report (edited).docx"
+export const editedFileName = (name: string): string => name.replace(/(\.docx)?$/i, ' (edited).docx');
+
+/**
+ * Plain-text report of the batch: the instruction, then every file that failed or was
+ * cancelled with the reason, and the files that only partly changed.
+ */
+export const buildBatchReport = (items: BatchItem[], instruction: string): string => {
+  const done = items.filter(item => item.status === 'done');
+  const failed = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const partial = done.filter(item => item.warning);
+
+  const lines = [
+    'ReportRemix batch report',
+    `Date: ${new Date().toLocaleString()}`,
+    `Instruction: ${instruction}`,
+    '',
+    `${done.length} of ${items.length} files edited, ${failed.length} failed or cancelled.`
+  ];
+  if (failed.length > 0) {
+    lines.push('', 'Failed:');
+    failed.forEach(item => lines.push(`- ${item.file.name}: ${item.status === 'cancelled' ? 'cancelled' : item.error || 'unknown error'}`));
+  }
+  if (partial.length > 0) {
+    lines.push('', 'Partly edited:');
+    partial.forEach(item => lines.push(`- ${item.file.name}: ${item.warning}`));
+  }
+  const unchanged = done.filter(item => item.changes?.length === 0);
+  if (unchanged.length > 0) {
+    lines.push('', 'No changes made:');
+    unchanged.forEach(item => lines.push(`- ${item.file.name}`));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// The edited documents plus the batch report whenever something didn't go through
+export const buildBatchZip = (items: BatchItem[], instruction: string): Promise<Blob> => {
+  const taken = new Set<string>([BATCH_REPORT_FILE_NAME]);
+  const entries: ZipEntry[] = items
+    .filter(item => item.status === 'done' && item.result)
+    .map(item => ({ name: uniqueFileName(editedFileName(item.file.name), taken), data: item.result as Blob }));
+  if (items.some(item => item.status !== 'done' || item.warning)) {
+    entries.push({ name: BATCH_REPORT_FILE_NAME, data: buildBatchReport(items, instruction) });
+  }
+  return createZip(entries);
+};
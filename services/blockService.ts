@@ -0,0 +1,203 @@
+// Stable block identifiers - every top-level block (p, h1-h6, table, list, image wrapper)
+// carries a persistent data-block-id so comments, AI targeting, diffing and collaboration
+// have something to anchor to across pagination, formatting, undo/redo, AI edits and DOCX round-trips.
+
+export const BLOCK_ID_ATTR = 'data-block-id';
+
+// Prefix for the Word bookmarks that carry block ids through a DOCX export/re-import
+const BOOKMARK_PREFIX = 'rrb_';
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+// Word bookmark names must start with a letter and only contain letters, digits and underscores
+export const generateBlockId = (): string =>
+  `blk_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Page break markers are regenerated whenever pages are joined, so they never get an id
+export const isPageBreakElement = (element: Element): boolean => {
+  const style = element.getAttribute('style') || '';
+  return element.classList.contains('word-page-break') ||
+    element.classList.contains('page-break-marker') ||
+    (!element.textContent?.trim() && !element.querySelector('img, table') &&
+      (style.includes('page-break-before') || style.includes('break-before')));
+};
+
+/**
+ * Gives every top-level block an id if it doesn't have one and re-ids duplicates
+ * (contentEditable copies attributes when the user splits a paragraph with Enter,
+ * and the smart merge can re-append blocks the model already returned).
+ * Existing ids are never changed, so calling this repeatedly is safe.
+ */
+export const ensureBlockIds = (html: string): string => {
+  const container = parseContainer(html);
+  if (!container) return html;
+
+  const seen = new Set<string>();
+  let changed = false;
+
+  Array.from(container.children).forEach(child => {
+    if (isPageBreakElement(child)) {
+      if (child.hasAttribute(BLOCK_ID_ATTR)) {
+        child.removeAttribute(BLOCK_ID_ATTR);
+        changed = true;
+      }
+      return;
+    }
+
+    const id = child.getAttribute(BLOCK_ID_ATTR);
+    if (id && !seen.has(id)) {
+      seen.add(id);
+      return;
+    }
+
+    const newId = generateBlockId();
+    child.setAttribute(BLOCK_ID_ATTR, newId);
+    seen.add(newId);
+    changed = true;
+  });
+
+  return changed ? container.innerHTML : html;
+};
+
+export const getBlockIds = (html: string): string[] => {
+  const container = parseContainer(html);
+  if (!container) return [];
+  return Array.from(container.children)
+    .map(child => child.getAttribute(BLOCK_ID_ATTR))
+    .filter((id): id is string => !!id);
+};
+
+// Name of the Word bookmark that carries a block id (also the target of internal links)
+export const blockBookmarkName = (blockId: string): string => `${BOOKMARK_PREFIX}${blockId}`;
+
+/**
+ * Before DOCX export: embed each block id as an empty named anchor, which Word
+ * turns into a bookmark that mammoth hands back as <a id="..."> on import.
+ */
+export const embedBlockIdBookmarks = (root: ParentNode) => {
+  root.querySelectorAll(`[${BLOCK_ID_ATTR}]`).forEach(block => {
+    const anchor = block.ownerDocument.createElement('a');
+    anchor.setAttribute('name', blockBookmarkName(block.getAttribute(BLOCK_ID_ATTR) || ''));
+    // Tables and lists can't hold inline content directly - bookmark their first cell / item
+    const target = block.querySelector('td, th, li') || block;
+    target.prepend(anchor);
+  });
+};
+
+/**
+ * After DOCX import: turn the bookmarks written by embedBlockIdBookmarks back into
+ * data-block-id attributes on the top-level block that contains them.
+ */
+export const restoreBlockIdBookmarks = (container: HTMLElement) => {
+  container.querySelectorAll(`a[id^="${BOOKMARK_PREFIX}"], a[name^="${BOOKMARK_PREFIX}"]`).forEach(anchor => {
+    const name = anchor.getAttribute('id') || anchor.getAttribute('name') || '';
+    let block: Element | null = anchor;
+    while (block && block.parentElement !== container) {
+      block = block.parentElement;
+    }
+    if (block && !block.hasAttribute(BLOCK_ID_ATTR)) {
+      block.setAttribute(BLOCK_ID_ATTR, name.slice(BOOKMARK_PREFIX.length));
+    }
+    if (!anchor.textContent) {
+      anchor.remove();
+    }
+  });
+};
+
+export interface BlockSlice {
+  selectedHtml: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+/**
+ * Pulls the given blocks out of the document together with the plain text of a few
+ * neighbouring blocks, so a scoped AI request still knows what surrounds the selection.
+ */
+export const sliceBlocks = (html: string, blockIds: string[], contextBlocks = 2): BlockSlice | null => {
+  const container = parseContainer(html);
+  if (!container) return null;
+
+  const children = Array.from(container.children);
+  const wanted = new Set(blockIds);
+  const indices = children
+    .map((child, index) => wanted.has(child.getAttribute(BLOCK_ID_ATTR) || '') ? index : -1)
+    .filter(index => index !== -1);
+  if (indices.length === 0) return null;
+
+  const first = indices[0];
+  const last = indices[indices.length - 1];
+  const toText = (elements: Element[]) =>
+    elements.map(el => el.textContent?.trim() || '').filter(Boolean).join('\n');
+
+  return {
+    selectedHtml: indices.map(index => children[index].outerHTML).join(''),
+    contextBefore: toText(children.slice(Math.max(0, first - contextBlocks), first)),
+    contextAfter: toText(children.slice(last + 1, last + 1 + contextBlocks))
+  };
+};
+
+// Elements that start a new line of text, and elements whose text isn't prose
+const LINE_TAGS = new Set(['P', 'DIV', 'LI', 'UL', 'OL', 'TABLE', 'TR', 'TD', 'TH', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'FIGURE', 'FIGCAPTION']);
+const SKIPPED_TAGS = new Set(['CODE', 'PRE', 'SCRIPT', 'STYLE', 'SVG']);
+
+interface TextSegment {
+  node: Text;
+  start: number; // Offset of the node's text within the block text
+}
+
+export interface BlockText {
+  text: string;
+  segments: TextSegment[];
+}
+
+/**
+ * Plain text of a live block with the text nodes it came from, so offsets in the text can
+ * be mapped back to the DOM. Line breaks and nested blocks become '\n'; code is left out.
+ */
+export const collectBlockText = (block: HTMLElement): BlockText => {
+  let text = '';
+  const segments: TextSegment[] = [];
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      segments.push({ node: node as Text, start: text.length });
+      text += node.nodeValue || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    if (SKIPPED_TAGS.has(element.tagName.toUpperCase())) return;
+    if (element.tagName === 'BR') {
+      text += '\n';
+      return;
+    }
+    const isLine = LINE_TAGS.has(element.tagName);
+    if (isLine) newLine();
+    element.childNodes.forEach(walk);
+    if (isLine) newLine();
+  };
+
+  block.childNodes.forEach(walk);
+  return { text, segments };
+};
+
+export const blockTextRange = ({ segments }: BlockText, start: number, end: number): Range | null => {
+  const length = (segment: TextSegment) => (segment.node.nodeValue || '').length;
+  const from = segments.find(segment => start >= segment.start && start < segment.start + length(segment));
+  const to = segments.find(segment => end > segment.start && end <= segment.start + length(segment));
+  if (!from || !to) return null;
+
+  // Blocks parsed outside the page (DOMParser) need a range from their own document
+  const range = (from.node.ownerDocument || document).createRange();
+  range.setStart(from.node, start - from.start);
+  range.setEnd(to.node, end - to.start);
+  return range;
+};
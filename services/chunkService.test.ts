@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, runWithConcurrency, splitIntoChunks } from './chunkService';
+
+const paragraph = (id: string, words = 10) => `<p data-block-id="${id}">${'word '.repeat(words).trim()}</p>`;
+const heading = (id: string, text: string) => `<h2 data-block-id="${id}">${text}</h2>`;
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token and ignores embedded image data', () => {
+    expect(estimateTokens('x'.repeat(40))).toBe(10);
+    expect(estimateTokens(`<img src="data:image/png;base64,${'A'.repeat(4000)}">`)).toBe(estimateTokens('<img src="">'));
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps a small document in one chunk', () => {
+    const html = heading('H1', 'Intro') + paragraph('P1');
+    const chunks = splitIntoChunks(html);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, label: 'Intro', html, blockIds: ['H1', 'P1'] });
+  });
+
+  it('starts chunks at headings and keeps every block in order', () => {
+    const sectionOne = heading('H1', 'One') + paragraph('P1') + paragraph('P2');
+    const sectionTwo = heading('H2', 'Two') + paragraph('P3') + paragraph('P4');
+    const chunks = splitIntoChunks(sectionOne + sectionTwo, estimateTokens(sectionOne));
+    expect(chunks.map(chunk => chunk.label)).toEqual(['One', 'Two']);
+    expect(chunks.map(chunk => chunk.blockIds)).toEqual([['H1', 'P1', 'P2'], ['H2', 'P3', 'P4']]);
+    expect(chunks.map(chunk => chunk.html).join('')).toBe(sectionOne + sectionTwo);
+  });
+
+  it('splits an oversized section at block boundaries and gives a huge block a chunk of its own', () => {
+    const html = heading('H1', 'Long') + paragraph('P1') + paragraph('P2', 200) + paragraph('P3');
+    const chunks = splitIntoChunks(html, estimateTokens(paragraph('P1') + heading('H1', 'Long')));
+    expect(chunks.map(chunk => chunk.blockIds)).toEqual([['H1', 'P1'], ['P2'], ['P3']]);
+    // Without a heading the label is the block's text, cut to 60 characters
+    expect(chunks[1].label).toBe('word '.repeat(12));
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('keeps results in input order with at most `limit` tasks in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index * 10;
+    });
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(peak).toBe(2);
+  });
+
+  it('handles an empty list', async () => {
+    expect(await runWithConcurrency([], 3, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+// Chunked processing for large documents: split at heading boundaries into pieces
+// that fit the model's output budget, edit them with bounded concurrency, reassemble in order.
+import { BLOCK_ID_ATTR } from './blockService';
+
+export interface DocumentChunk {
+  index: number;
+  label: string; // Heading text (or a fallback) shown in the chat progress list
+  html: string;
+  blockIds: string[];
+  estimatedTokens: number;
+}
+
+// Comfortably below the 8K output limit most models have, since the model returns the chunk in full
+export const DEFAULT_CHUNK_TOKEN_BUDGET = 6000;
+
+// Roughly 4 characters per token; base64 images are stripped before counting since they never reach the model
+export const estimateTokens = (html: string): number =>
+  Math.ceil(html.replace(/src="data:image\/[^"]+"/g, 'src=""').length / 4);
+
+const isHeading = (element: Element) => /^H[1-6]$/.test(element.tagName);
+
+/**
+ * Splits a document into chunks that each stay under the token budget. Chunks start
+ * at headings where possible; an oversized section is split further at block boundaries,
+ * and a single block that is larger than the budget becomes a chunk on its own.
+ */
+export const splitIntoChunks = (html: string, tokenBudget = DEFAULT_CHUNK_TOKEN_BUDGET): DocumentChunk[] => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  const container = doc.querySelector('div');
+  if (!container) return [];
+
+  // 1. Group top-level blocks into sections that begin with a heading
+  const sections: Element[][] = [];
+  Array.from(container.children).forEach(child => {
+    if (isHeading(child) || sections.length === 0) {
+      sections.push([child]);
+    } else {
+      sections[sections.length - 1].push(child);
+    }
+  });
+
+  // 2. Pack sections into chunks, splitting sections that are too large on their own
+  const groups: Element[][] = [];
+  let current: Element[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length > 0) groups.push(current);
+    current = [];
+    currentTokens = 0;
+  };
+
+  sections.forEach(section => {
+    const sectionTokens = section.reduce((sum, el) => sum + estimateTokens(el.outerHTML), 0);
+
+    if (currentTokens + sectionTokens <= tokenBudget) {
+      current.push(...section);
+      currentTokens += sectionTokens;
+      return;
+    }
+
+    flush();
+    section.forEach(el => {
+      const tokens = estimateTokens(el.outerHTML);
+      if (currentTokens + tokens > tokenBudget) flush();
+      current.push(el);
+      currentTokens += tokens;
+    });
+  });
+  flush();
+
+  return groups.map((elements, index) => {
+    const heading = elements.find(isHeading);
+    const firstText = elements.map(el => el.textContent?.trim() || '').find(Boolean) || '';
+    const label = (heading?.textContent?.trim() || firstText || `Part ${index + 1}`).slice(0, 60);
+    const chunkHtml = elements.map(el => el.outerHTML).join('');
+
+    return {
+      index,
+      label,
+      html: chunkHtml,
+      blockIds: elements
+        .map(el => el.getAttribute(BLOCK_ID_ATTR))
+        .filter((id): id is string => !!id),
+      estimatedTokens: estimateTokens(chunkHtml)
+    };
+  });
+};
+
+/**
+ * Runs an async task over every item with at most `limit` tasks in flight,
+ * keeping results in input order.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,61 @@
+// Conversation memory for the document assistant - turns the chat's Message[] into a
+// bounded transcript so follow-ups like "now make it shorter" know what "it" was.
+import { Message } from '../types';
+import { estimateTokens } from './chunkService';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 1500;
+
+// Recent turns are kept word for word; anything older is compacted to one short line
+const VERBATIM_TURNS = 6;
+const COMPACT_TURN_CHARS = 120;
+
+const toTurnLine = (message: Message, maxChars?: number): string => {
+  const speaker = message.role === 'user' ? 'User' : 'Assistant';
+  // Drop markdown quotes / line breaks so each turn stays on one line
+  // and shorten citation links in answers back to their numbers
+  let text = message.content
+    .replace(/^>.*$/gm, '')
+    .replace(/\[(\d+)\]\(#block-[^)]*\)/g, '[$1]')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (maxChars && text.length > maxChars) {
+    text = text.slice(0, maxChars).trimEnd() + '…';
+  }
+  return `${speaker}: ${text}`;
+};
+
+/**
+ * Builds the transcript sent with each request. Only real turns count (the welcome
+ * text, attachment notes and progress placeholders are skipped). The newest turns are
+ * verbatim, older ones compacted, and the oldest dropped once the token budget is hit.
+ */
+export const buildConversationHistory = (
+  messages: Message[],
+  tokenBudget = DEFAULT_HISTORY_TOKEN_BUDGET
+): string => {
+  const turns = messages.filter(m => (m.role === 'user' || m.role === 'model') && m.content.trim());
+  if (turns.length === 0) return '';
+
+  const lines: string[] = [];
+  let used = 0;
+  let omitted = 0;
+
+  // Walk backwards so the most recent turns always make it in
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const isRecent = turns.length - i <= VERBATIM_TURNS;
+    const line = toTurnLine(turns[i], isRecent ? undefined : COMPACT_TURN_CHARS);
+    const tokens = estimateTokens(line);
+
+    if (used + tokens > tokenBudget) {
+      omitted = i + 1;
+      break;
+    }
+    lines.unshift(line);
+    used += tokens;
+  }
+
+  if (omitted > 0) {
+    lines.unshift(`(${omitted} earlier ${omitted === 1 ? 'turn' : 'turns'} omitted)`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { applyAcceptedChanges, diffBlocks, diffWords } from './diffService';
+
+const BREAK = '<div class="page-break-marker" style="page-break-after: always;">Page Break</div>';
+const doc = '<h1 data-block-id="A">Title</h1><p data-block-id="B">First</p><p data-block-id="C">Second</p>';
+
+const acceptAll = (current: string, proposed: string) => {
+  const changes = diffBlocks(current, proposed);
+  return applyAcceptedChanges(current, changes, new Set(changes.map(change => change.id)));
+};
+
+describe('diffBlocks', () => {
+  it('reports nothing for an identical document', () => {
+    expect(diffBlocks(doc, doc)).toEqual([]);
+  });
+
+  it('reports edits, style changes, inserts and deletions in document order', () => {
+    const proposed = '<h1 data-block-id="A" style="text-align: center;">Title</h1>' +
+      '<p data-block-id="B">First, edited</p><p>New one</p><p>New two</p>';
+    expect(diffBlocks(doc, proposed).map(({ id, kind, blockId }) => ({ id, kind, blockId }))).toEqual([
+      { id: 'style-A', kind: 'style', blockId: 'A' },
+      { id: 'modify-B', kind: 'modify', blockId: 'B' },
+      { id: 'insert-B', kind: 'insert', blockId: 'B' },
+      { id: 'delete-C', kind: 'delete', blockId: 'C' }
+    ]);
+    expect(diffBlocks(doc, proposed).find(change => change.kind === 'insert')?.afterHtml).toBe('<p>New one</p><p>New two</p>');
+  });
+
+  it('matches a block returned without its id by its markup', () => {
+    expect(diffBlocks(doc, '<h1>Title</h1><p data-block-id="B">First</p><p data-block-id="C">Second</p>')).toEqual([]);
+  });
+
+  it('reports a page break added before a block', () => {
+    const proposed = `<h1 data-block-id="A">Title</h1>${BREAK}<p data-block-id="B">First</p><p data-block-id="C">Second</p>`;
+    expect(diffBlocks(doc, proposed)).toEqual([{
+      id: 'page_break-B',
+      kind: 'page_break',
+      blockId: 'B',
+      beforeHtml: '<p data-block-id="B">First</p>',
+      afterHtml: BREAK
+    }]);
+  });
+
+  it('reports a page break removed from before a block', () => {
+    const current = `<h1 data-block-id="A">Title</h1>${BREAK}<p data-block-id="B">First</p>`;
+    const changes = diffBlocks(current, '<h1 data-block-id="A">Title</h1><p data-block-id="B">First</p>');
+    expect(changes.map(({ kind, afterHtml }) => ({ kind, afterHtml }))).toEqual([{ kind: 'page_break', afterHtml: '' }]);
+  });
+
+  it('keeps a page break with an inserted block', () => {
+    const proposed = `${doc}${BREAK}<h2>Appendix</h2>`;
+    expect(diffBlocks(doc, proposed)).toEqual([
+      { id: 'insert-C', kind: 'insert', blockId: 'C', afterHtml: `${BREAK}<h2>Appendix</h2>` }
+    ]);
+  });
+});
+
+describe('applyAcceptedChanges', () => {
+  it('turns the document into the proposal when everything is accepted', () => {
+    const proposed = `<h1 data-block-id="A">Title</h1><p>Intro</p>${BREAK}<p data-block-id="B">First, edited</p>`;
+    expect(acceptAll(doc, proposed)).toBe(proposed);
+  });
+
+  it('applies only the accepted changes', () => {
+    const proposed = '<h1 data-block-id="A">New title</h1><p data-block-id="B">First</p>';
+    const changes = diffBlocks(doc, proposed);
+    expect(applyAcceptedChanges(doc, changes, new Set(['delete-C']))).toBe('<h1 data-block-id="A">Title</h1><p data-block-id="B">First</p>');
+    expect(applyAcceptedChanges(doc, changes, new Set())).toBe(doc);
+  });
+
+  it('adds and removes page breaks', () => {
+    const withBreak = `<h1 data-block-id="A">Title</h1>${BREAK}<p data-block-id="B">First</p><p data-block-id="C">Second</p>`;
+    expect(acceptAll(doc, withBreak)).toBe(withBreak);
+    expect(acceptAll(withBreak, doc)).toBe(doc);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks the words that changed', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { type: 'same', text: 'the ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'same', text: ' fox' }
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+// Block-level diff between the current document and an AI proposal, so every change
+// can be reviewed and accepted or rejected before it touches the document.
+import { BLOCK_ID_ATTR, isPageBreakElement } from './blockService';
+import { applyPatch, DOCUMENT_START, PatchOperation } from './patchService';
+
+export type BlockChangeKind = 'insert' | 'delete' | 'modify' | 'style' | 'page_break';
+
+export interface BlockChange {
+  id: string;
+  kind: BlockChangeKind;
+  blockId: string; // Block being changed, or the block an insert goes after (DOCUMENT_START for the top)
+  beforeHtml?: string;
+  afterHtml?: string; // For page_break: the break markup that should precede the block ('' removes it)
+}
+
+export interface WordDiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+const contentBlocks = (container: HTMLElement): Element[] =>
+  Array.from(container.children).filter(child => !isPageBreakElement(child));
+
+// Page breaks have no block id, so they travel with the block right after them
+const breaksBefore = (block: Element): Element[] => {
+  const breaks: Element[] = [];
+  let previous = block.previousElementSibling;
+  while (previous && isPageBreakElement(previous)) {
+    breaks.unshift(previous);
+    previous = previous.previousElementSibling;
+  }
+  return breaks;
+};
+
+const outerHtml = (elements: Element[]): string => elements.map(element => element.outerHTML).join('');
+
+// Block markup minus the given attributes, for "same content?" checks
+const withoutAttributes = (element: Element, attributes: string[]): string => {
+  const clone = element.cloneNode(true) as Element;
+  attributes.forEach(attribute => clone.removeAttribute(attribute));
+  return clone.outerHTML;
+};
+
+/**
+ * Compares two versions of the document block by block. Blocks are matched by
+ * data-block-id; proposed blocks the model returned without an id are matched to an
+ * unclaimed original block with identical markup before being treated as inserts.
+ * Consecutive inserted blocks are grouped into one change. Block order follows the
+ * current document - a block the model only moved is not reported. Page breaks belong to
+ * the block that follows them: adding or removing one is a page_break change on that block.
+ */
+export const diffBlocks = (currentHtml: string, proposedHtml: string): BlockChange[] => {
+  const current = parseContainer(currentHtml);
+  const proposed = parseContainer(proposedHtml);
+  if (!current || !proposed) return [];
+
+  const currentBlocks = contentBlocks(current);
+  const currentById = new Map<string, Element>();
+  currentBlocks.forEach(block => {
+    const id = block.getAttribute(BLOCK_ID_ATTR);
+    if (id) currentById.set(id, block);
+  });
+
+  const claimed = new Set<string>();
+  const changes: BlockChange[] = [];
+  let anchor = DOCUMENT_START;
+  let pendingInsert: BlockChange | null = null;
+
+  const flushInsert = () => {
+    if (pendingInsert) changes.push(pendingInsert);
+    pendingInsert = null;
+  };
+
+  contentBlocks(proposed).forEach(block => {
+    let id = block.getAttribute(BLOCK_ID_ATTR);
+    let original = id && !claimed.has(id) ? currentById.get(id) : undefined;
+
+    if (!original) {
+      const markup = withoutAttributes(block, [BLOCK_ID_ATTR]);
+      const match = currentBlocks.find(candidate => {
+        const candidateId = candidate.getAttribute(BLOCK_ID_ATTR);
+        return candidateId && !claimed.has(candidateId) && withoutAttributes(candidate, [BLOCK_ID_ATTR]) === markup;
+      });
+      if (match) {
+        original = match;
+        id = match.getAttribute(BLOCK_ID_ATTR);
+      }
+    }
+
+    if (!original || !id) {
+      const html = outerHtml(breaksBefore(block)) + block.outerHTML;
+      if (pendingInsert) {
+        pendingInsert.afterHtml += html;
+      } else {
+        pendingInsert = { id: `insert-${anchor}`, kind: 'insert', blockId: anchor, afterHtml: html };
+      }
+      return;
+    }
+
+    flushInsert();
+    claimed.add(id);
+    anchor = id;
+
+    const breaksNow = breaksBefore(original);
+    const breaksProposed = breaksBefore(block);
+    if ((breaksNow.length > 0) !== (breaksProposed.length > 0)) {
+      changes.push({
+        id: `page_break-${id}`,
+        kind: 'page_break',
+        blockId: id,
+        beforeHtml: original.outerHTML,
+        afterHtml: outerHtml(breaksProposed)
+      });
+    }
+
+    const before = withoutAttributes(original, [BLOCK_ID_ATTR]);
+    const after = withoutAttributes(block, [BLOCK_ID_ATTR]);
+    if (before === after) return;
+
+    const styleOnly = withoutAttributes(original, [BLOCK_ID_ATTR, 'style']) === withoutAttributes(block, [BLOCK_ID_ATTR, 'style']);
+    block.setAttribute(BLOCK_ID_ATTR, id);
+    changes.push({
+      id: `${styleOnly ? 'style' : 'modify'}-${id}`,
+      kind: styleOnly ? 'style' : 'modify',
+      blockId: id,
+      beforeHtml: original.outerHTML,
+      afterHtml: block.outerHTML
+    });
+  });
+  flushInsert();
+
+  currentBlocks.forEach(block => {
+    const id = block.getAttribute(BLOCK_ID_ATTR);
+    if (id && !claimed.has(id)) {
+      changes.push({ id: `delete-${id}`, kind: 'delete', blockId: id, beforeHtml: block.outerHTML });
+    }
+  });
+
+  // Present changes in document order
+  const position = new Map(currentBlocks.map((block, index) => [block.getAttribute(BLOCK_ID_ATTR), index]));
+  const offset: Partial<Record<BlockChangeKind, number>> = { insert: 0.5, page_break: -0.25 };
+  const order = (change: BlockChange) =>
+    change.blockId === DOCUMENT_START ? -1 : (position.get(change.blockId) ?? 0) + (offset[change.kind] ?? 0);
+  return changes.sort((a, b) => order(a) - order(b));
+};
+
+// Swaps the page breaks in front of a block for the given markup
+const setBreaksBefore = (container: HTMLElement, blockId: string, html: string) => {
+  const block = Array.from(container.children).find(child => child.getAttribute(BLOCK_ID_ATTR) === blockId);
+  if (!block) return;
+  breaksBefore(block).forEach(element => element.remove());
+  const template = container.ownerDocument.createElement('template');
+  template.innerHTML = html;
+  block.before(template.content);
+};
+
+/**
+ * Applies only the accepted changes to the current document. Replacements run first,
+ * then inserts (so their anchors still exist), then deletions; page breaks are set last,
+ * on whichever blocks are still there.
+ */
+export const applyAcceptedChanges = (currentHtml: string, changes: BlockChange[], acceptedIds: Set<string>): string => {
+  const accepted = changes.filter(change => acceptedIds.has(change.id));
+  const operations: PatchOperation[] = [
+    ...accepted
+      .filter(change => change.kind === 'modify' || change.kind === 'style')
+      .map(change => ({ op: 'replace' as const, blockId: change.blockId, html: change.afterHtml || '' })),
+    ...accepted
+      .filter(change => change.kind === 'insert')
+      .map(change => ({ op: 'insert_after' as const, blockId: change.blockId, html: change.afterHtml || '' })),
+    ...accepted
+      .filter(change => change.kind === 'delete')
+      .map(change => ({ op: 'delete' as const, blockId: change.blockId }))
+  ];
+  const patched = operations.length > 0 ? applyPatch(currentHtml, operations) : currentHtml;
+
+  const breaks = accepted.filter(change => change.kind === 'page_break');
+  if (breaks.length === 0) return patched;
+  const container = parseContainer(patched);
+  if (!container) return patched;
+  breaks.forEach(change => setBreaksBefore(container, change.blockId, change.afterHtml || ''));
+  return container.innerHTML;
+};
+
+export const htmlToPlainText = (html: string): string =>
+  (parseContainer(html)?.textContent || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Word-level diff of two strings (longest common subsequence), used to highlight
+ * what changed inside a modified block.
+ */
+export const diffWords = (before: string, after: string): WordDiffSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  // Very long blocks aren't worth a quadratic table - show them as a whole swap
+  if (a.length * b.length > 250000) {
+    return [{ type: 'removed', text: before }, { type: 'added', text: after }];
+  }
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
@@ -1,3 +1,6 @@
+import { ensureBlockIds, embedBlockIdBookmarks, restoreBlockIdBookmarks } from './blockService';
+import { prepareTocForWord, tocLinkAreas } from './tocService';
+import { sanitizeDocumentHtml } from './sanitizeService';
 
 // Access global libraries loaded via script tags
 declare const mammoth: any;
@@ -95,6 +98,9 @@ export const parseWordDocument = async (file: File): Promise<string> => {
     const container = doc.querySelector('div');
     
     if (container) {
+      // Recover block ids from a previous ReportRemix export
+      restoreBlockIdBookmarks(container);
+
       // Process images - FIXED: Better sizing and positioning
       container.querySelectorAll('img').forEach(img => {
         const imgEl = img as HTMLElement;
@@ -193,6 +199,12 @@ export const parseWordDocument = async (file: File): Promise<string> => {
     html = html.replace(/<br[^>]*page-break[^>]*>/gi, '<hr class="word-page-break">');
     html = html.replace(/<div[^>]*page-break[^>]*><\/div>/gi, '<hr class="word-page-break">');
     
+    // Documents can carry links and embedded markup; only the allowlist reaches the editor
+    html = sanitizeDocumentHtml(html, 'import');
+
+    // Every top-level block gets a persistent id from here on
+    html = ensureBlockIds(html);
+    
     console.log('Document parsing complete');
     return html;
   } catch (error) {
@@ -421,6 +433,12 @@ export const exportToWord = (htmlContent: string): Blob => {
       if (!img.style.maxWidth) img.style.maxWidth = '600px';
     });
     
+    // The table of contents becomes a Word TOC field linked to the heading bookmarks
+    prepareTocForWord(doc.body);
+
+    // Carry block ids through Word as bookmarks so a re-import keeps them
+    embedBlockIdBookmarks(doc.body);
+    
     const protectedHtml = doc.body.innerHTML;
 
     const fullHtml = `
@@ -572,6 +590,12 @@ export const generatePdf = async (container: HTMLElement | null, filename: strin
         // Content fits on one page - no vertical offset, align to top
         pdf.addImage(imgData, 'JPEG', 0, 0, imgWidth, imgHeight);
       }
+
+      // Table of contents entries link to the page their heading is on
+      const mmPerPixel = imgWidth / scrollWidth;
+      tocLinkAreas(page, pages as HTMLElement[]).forEach(area => {
+        pdf.link(area.x * mmPerPixel, area.y * mmPerPixel, area.width * mmPerPixel, area.height * mmPerPixel, { pageNumber: area.pageNumber });
+      });
       
     } catch (error) {
       console.error(`Error capturing page ${i + 1}:`, error);
@@ -0,0 +1,121 @@
+// Block-level editing commands shared by the DocumentEditor toolbar and the model's tool calls
+// (see editorToolService.ts), so a heading, table or page break looks the same whichever way
+// it was made. Every command works on a block element and never regenerates the document.
+import { blockTextRange, collectBlockText, isPageBreakElement } from './blockService';
+import { findQuote } from './reviewService';
+
+export type BlockAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export const BLOCK_ALIGNMENTS: BlockAlignment[] = ['left', 'center', 'right', 'justify'];
+// Level 0 is a normal paragraph
+export const MAX_HEADING_LEVEL = 3;
+export const MAX_TABLE_ROWS = 50;
+export const MAX_TABLE_COLUMNS = 10;
+
+// Visible in the editor, and recognised as a page break everywhere else (see isPageBreakElement)
+export const PAGE_BREAK_MARKER_HTML = '<div class="page-break-marker" style="page-break-after: always; break-after: page; border-top: 2px dashed #d6d3d1; margin: 2em 0; padding-top: 0.5em; color: #a8a29e; font-size: 0.75em; text-align: center;">Page Break</div>';
+
+const TABLE_STYLE = 'border-collapse: collapse; width: 100%;';
+const CELL_STYLE = 'border: 1px solid #000000; padding: 4pt; vertical-align: top;';
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlToFragment = (ownerDocument: Document, html: string): DocumentFragment => {
+  const template = ownerDocument.createElement('template');
+  template.innerHTML = html;
+  return template.content;
+};
+
+/**
+ * Turns a block into a heading of the given level (0 for a normal paragraph). The element
+ * is replaced, so its attributes - block id and inline style included - are carried over.
+ * Returns the block now in the document.
+ */
+export const setHeadingLevel = (block: HTMLElement, level: number): HTMLElement => {
+  const tagName = level > 0 ? `H${Math.min(level, MAX_HEADING_LEVEL)}` : 'P';
+  if (block.tagName === tagName) return block;
+
+  const replacement = block.ownerDocument.createElement(tagName);
+  Array.from(block.attributes).forEach(attribute => replacement.setAttribute(attribute.name, attribute.value));
+  replacement.append(...Array.from(block.childNodes));
+  block.replaceWith(replacement);
+  return replacement;
+};
+
+// Alignment is written as an inline style so it survives the DOCX export
+export const setBlockAlignment = (block: HTMLElement, alignment: BlockAlignment) => {
+  block.style.textAlign = alignment;
+};
+
+/**
+ * Puts a page break in front of a block. Returns false when the block already starts a
+ * new page or is the first block, where a break would only add a blank page.
+ */
+export const insertPageBreakBefore = (block: HTMLElement): boolean => {
+  const previous = block.previousElementSibling;
+  if (!previous || isPageBreakElement(previous)) return false;
+  block.before(htmlToFragment(block.ownerDocument, PAGE_BREAK_MARKER_HTML));
+  return true;
+};
+
+/**
+ * A bordered table with the given cell texts (missing cells are left empty). The first
+ * row is a bold header row unless headerRow is false.
+ */
+export const buildTableHtml = (rows: number, columns: number, cells: string[][] = [], headerRow = true): string => {
+  const rowCount = Math.max(1, Math.min(MAX_TABLE_ROWS, Math.round(rows)));
+  const columnCount = Math.max(1, Math.min(MAX_TABLE_COLUMNS, Math.round(columns)));
+
+  const body = Array.from({ length: rowCount }, (_, row) => {
+    const tag = headerRow && row === 0 ? 'th' : 'td';
+    const rowCells = Array.from({ length: columnCount }, (_, column) => {
+      const text = cells[row]?.[column];
+      const content = typeof text === 'string' && text.trim() ? escapeHtml(text.trim()) : '<br>';
+      const style = tag === 'th' ? `${CELL_STYLE} font-weight: bold; text-align: left;` : CELL_STYLE;
+      return `<${tag} style="${style}">${content}</${tag}>`;
+    });
+    return `<tr>${rowCells.join('')}</tr>`;
+  });
+
+  return `<table style="${TABLE_STYLE}"><tbody>${body.join('')}</tbody></table>`;
+};
+
+// The italic caption paragraph that goes under an image
+export const buildCaptionHtml = (caption: string): string =>
+  `<p style="text-align: center; font-style: italic; font-size: 10pt; color: #555555;">${escapeHtml(caption.trim())}</p>`;
+
+/**
+ * Puts a caption under an image block, replacing the caption that is already there (an
+ * italic centred paragraph right after the image) rather than stacking a second one.
+ */
+export const insertImageCaption = (block: HTMLElement, caption: string): HTMLElement | null => {
+  const fragment = htmlToFragment(block.ownerDocument, buildCaptionHtml(caption));
+  const captionBlock = fragment.firstElementChild as HTMLElement | null;
+  if (!captionBlock) return null;
+
+  const next = block.nextElementSibling;
+  if (next instanceof HTMLElement && next.tagName === 'P' && next.style.fontStyle === 'italic' && next.style.textAlign === 'center') {
+    next.replaceChildren(...Array.from(captionBlock.childNodes));
+    return next;
+  }
+  block.after(captionBlock);
+  return captionBlock;
+};
+
+/**
+ * Replaces text inside a block, keeping the formatting around it. The text may span
+ * several inline elements; the replacement takes the formatting of where it starts.
+ * Returns false when the text isn't in the block.
+ */
+export const replaceBlockText = (block: HTMLElement, find: string, replacement: string): boolean => {
+  const blockText = collectBlockText(block);
+  const found = findQuote(blockText.text, find);
+  const range = found ? blockTextRange(blockText, found[0], found[1]) : null;
+  if (!range) return false;
+
+  range.deleteContents();
+  if (replacement) range.insertNode(block.ownerDocument.createTextNode(replacement));
+  block.normalize();
+  return true;
+};
@@ -0,0 +1,254 @@
+// Editor tools for function calling: instead of returning HTML, the model calls a small set
+// of editor operations addressed to block ids. The calls run against the document through
+// the same commands as the DocumentEditor toolbar (editorCommands.ts), and every call is
+// reported back so the chat can log what was done.
+import { AiToolCall, AiToolDefinition } from './aiProviders';
+import { BLOCK_ID_ATTR, ensureBlockIds } from './blockService';
+import {
+  BLOCK_ALIGNMENTS, BlockAlignment, MAX_HEADING_LEVEL, MAX_TABLE_COLUMNS, MAX_TABLE_ROWS,
+  buildTableHtml, insertImageCaption, insertPageBreakBefore, replaceBlockText, setBlockAlignment, setHeadingLevel
+} from './editorCommands';
+import { DOCUMENT_START } from './patchService';
+import { EditorToolExecution } from '../types';
+
+// Guards against a runaway reply; calls past the limit are not run
+const MAX_TOOL_CALLS = 40;
+const LABEL_CHARS = 40;
+
+export const EDITOR_TOOLS: AiToolDefinition[] = [
+  {
+    name: 'insert_table',
+    description: `Insert a bordered table after a block. Use "${DOCUMENT_START}" as after_block_id to insert at the top of the document.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        after_block_id: { type: 'string', description: 'data-block-id of the block the table goes after' },
+        rows: { type: 'integer', description: `Number of rows including the header row (1-${MAX_TABLE_ROWS})` },
+        columns: { type: 'integer', description: `Number of columns (1-${MAX_TABLE_COLUMNS})` },
+        header_row: { type: 'boolean', description: 'Whether the first row is a bold header row (default true)' },
+        cells: {
+          type: 'array',
+          description: 'Cell texts, row by row. Leave out to insert an empty table.',
+          items: { type: 'array', items: { type: 'string' } }
+        }
+      },
+      required: ['after_block_id', 'rows', 'columns']
+    }
+  },
+  {
+    name: 'set_heading_level',
+    description: `Turn a block into a heading (level 1-${MAX_HEADING_LEVEL}) or back into a normal paragraph (level 0), keeping its text and formatting.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        block_id: { type: 'string', description: 'data-block-id of the block' },
+        level: { type: 'integer', description: `0 for a paragraph, 1-${MAX_HEADING_LEVEL} for a heading` }
+      },
+      required: ['block_id', 'level']
+    }
+  },
+  {
+    name: 'replace_text',
+    description: 'Replace a piece of text inside one block, keeping the formatting around it. Use it for wording changes, from a word up to a whole paragraph.',
+    parameters: {
+      type: 'object',
+      properties: {
+        block_id: { type: 'string', description: 'data-block-id of the block that contains the text' },
+        find: { type: 'string', description: 'Text to replace, copied exactly from the block' },
+        replace: { type: 'string', description: 'Replacement text (plain text, no HTML)' }
+      },
+      required: ['block_id', 'find', 'replace']
+    }
+  },
+  {
+    name: 'insert_page_break_before',
+    description: 'Start a block on a new page by inserting a page break in front of it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        block_id: { type: 'string', description: 'data-block-id of the block that should start the new page' }
+      },
+      required: ['block_id']
+    }
+  },
+  {
+    name: 'set_alignment',
+    description: 'Set the text alignment of a block.',
+    parameters: {
+      type: 'object',
+      properties: {
+        block_id: { type: 'string', description: 'data-block-id of the block' },
+        alignment: { type: 'string', enum: BLOCK_ALIGNMENTS }
+      },
+      required: ['block_id', 'alignment']
+    }
+  },
+  {
+    name: 'insert_image_caption',
+    description: 'Put a caption under an image, replacing its current caption if it has one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        block_id: { type: 'string', description: 'data-block-id of the block that contains the image' },
+        caption: { type: 'string', description: 'Caption text, e.g. "Figure 2: Quarterly revenue"' }
+      },
+      required: ['block_id', 'caption']
+    }
+  }
+];
+
+// How people ask for what the tools do. Other requests skip tool calling and go straight to
+// patch mode, rather than spending a request (and quota) on a tool call round that ends in
+// the patch fallback anyway
+const TOOL_REQUEST_WORDS = /\b(headings?|titles?|subtitles?|h[1-3]|tables?|page ?breaks?|new page|next page|align(ed|ment)?|cent(er|re)d?|justif(y|ied)|captions?|replace|rename)\b/;
+
+export const looksLikeToolRequest = (prompt: string): boolean => TOOL_REQUEST_WORDS.test(prompt.toLowerCase());
+
+export interface ToolRunResult {
+  html: string;
+  executions: EditorToolExecution[];
+  changed: boolean;
+}
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+const stringArg = (args: Record<string, unknown>, name: string): string =>
+  typeof args[name] === 'string' ? args[name] as string : '';
+
+const numberArg = (args: Record<string, unknown>, name: string): number => {
+  const value = Number(args[name]);
+  return Number.isFinite(value) ? value : NaN;
+};
+
+const shorten = (text: string): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > LABEL_CHARS ? `${clean.slice(0, LABEL_CHARS - 1)}…` : clean;
+};
+
+// How a block is named in the log: its text, or what it holds
+const blockLabel = (block: Element): string => {
+  const text = shorten(block.textContent || '');
+  if (text) return `"${text}"`;
+  if (block.querySelector('img') || block.tagName === 'IMG') return 'the image';
+  if (block.querySelector('table') || block.tagName === 'TABLE') return 'the table';
+  return 'an empty block';
+};
+
+// Runs one call and returns the log line; throws with the reason when it can't be done
+const runCall = (container: HTMLElement, call: AiToolCall): string => {
+  const { args } = call;
+  const findBlock = (name: string): HTMLElement => {
+    const blockId = stringArg(args, name);
+    const block = Array.from(container.children).find(child => child.getAttribute(BLOCK_ID_ATTR) === blockId);
+    if (!(block instanceof HTMLElement)) throw new Error(`there is no block "${blockId}"`);
+    return block;
+  };
+
+  switch (call.name) {
+    case 'insert_table': {
+      const rows = numberArg(args, 'rows');
+      const columns = numberArg(args, 'columns');
+      if (!(rows >= 1) || !(columns >= 1)) throw new Error('the table needs at least one row and one column');
+      const cells = Array.isArray(args.cells)
+        ? args.cells.map(row => Array.isArray(row) ? row.map(cell => String(cell ?? '')) : [])
+        : [];
+      const template = container.ownerDocument.createElement('template');
+      template.innerHTML = buildTableHtml(rows, columns, cells, args.header_row !== false);
+      // Sizes past the limits are clamped, so describe the table that was actually built
+      const tableRows = template.content.querySelectorAll('tr');
+      const size = `${tableRows.length}×${tableRows[0]?.children.length || 0}`;
+      if (stringArg(args, 'after_block_id') === DOCUMENT_START) {
+        container.prepend(template.content);
+        return `Inserted a ${size} table at the top of the document`;
+      }
+      const block = findBlock('after_block_id');
+      block.after(template.content);
+      return `Inserted a ${size} table after ${blockLabel(block)}`;
+    }
+    case 'set_heading_level': {
+      const level = Math.round(numberArg(args, 'level'));
+      if (!(level >= 0 && level <= MAX_HEADING_LEVEL)) throw new Error(`level must be 0-${MAX_HEADING_LEVEL}`);
+      const block = setHeadingLevel(findBlock('block_id'), level);
+      return level === 0 ? `Made ${blockLabel(block)} a normal paragraph` : `Made ${blockLabel(block)} a Heading ${level}`;
+    }
+    case 'replace_text': {
+      const find = stringArg(args, 'find');
+      const replacement = stringArg(args, 'replace');
+      if (!find.trim()) throw new Error('no text to replace was given');
+      const block = findBlock('block_id');
+      if (!replaceBlockText(block, find, replacement)) throw new Error(`"${shorten(find)}" is not in that block`);
+      return `Replaced "${shorten(find)}" with "${shorten(replacement)}"`;
+    }
+    case 'insert_page_break_before': {
+      const block = findBlock('block_id');
+      return insertPageBreakBefore(block)
+        ? `Inserted a page break before ${blockLabel(block)}`
+        : `${blockLabel(block)} already starts a new page`;
+    }
+    case 'set_alignment': {
+      const alignment = stringArg(args, 'alignment') as BlockAlignment;
+      if (!BLOCK_ALIGNMENTS.includes(alignment)) throw new Error(`unknown alignment "${alignment}"`);
+      const block = findBlock('block_id');
+      setBlockAlignment(block, alignment);
+      return `Aligned ${blockLabel(block)} ${alignment === 'justify' ? 'as justified' : alignment}`;
+    }
+    case 'insert_image_caption': {
+      const caption = stringArg(args, 'caption').trim();
+      const block = findBlock('block_id');
+      if (!block.querySelector('img') && block.tagName !== 'IMG') throw new Error('that block has no image');
+      if (!caption) throw new Error('the caption is empty');
+      insertImageCaption(block, caption);
+      return `Captioned the image "${shorten(caption)}"`;
+    }
+    default:
+      throw new Error('unknown tool');
+  }
+};
+
+/**
+ * Runs the model's calls in order against the document. A call that can't be done is
+ * logged as failed and skipped; the others still run. New blocks get ids afterwards, so
+ * later requests can address them.
+ */
+export const runEditorTools = (html: string, calls: AiToolCall[]): ToolRunResult => {
+  const container = parseContainer(html);
+  if (!container) return { html, executions: [], changed: false };
+  const originalHtml = container.innerHTML;
+
+  const executions = calls.slice(0, MAX_TOOL_CALLS).map((call): EditorToolExecution => {
+    try {
+      const summary = runCall(container, call);
+      console.log('🔧', call.name, call.args);
+      return { tool: call.name, args: call.args, summary, ok: true };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Tool call failed:', call.name, reason);
+      return { tool: call.name, args: call.args, summary: `skipped, ${reason}`, ok: false };
+    }
+  });
+  if (calls.length > MAX_TOOL_CALLS) {
+    console.warn('⚠️ Ignoring', calls.length - MAX_TOOL_CALLS, 'tool calls over the limit');
+  }
+
+  const changed = container.innerHTML !== originalHtml;
+  return { html: changed ? ensureBlockIds(container.innerHTML) : html, executions, changed };
+};
+
+/**
+ * Markdown log of the tool calls for the chat. Failed calls are listed too, so the user
+ * can see what the model tried and why it was skipped.
+ */
+export const formatToolLog = (executions: EditorToolExecution[]): string => {
+  const done = executions.filter(execution => execution.ok).length;
+  const header = done === executions.length
+    ? `🔧 Ran ${executions.length} editor ${executions.length === 1 ? 'command' : 'commands'}:`
+    : `🔧 Ran ${done} of ${executions.length} editor commands:`;
+  const lines = executions.map(execution =>
+    `- ${execution.ok ? '✅' : '⚠️'} \`${execution.tool}\` - ${execution.summary}`
+  );
+  return `${header}\n\n${lines.join('\n')}`;
+};
@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AiRequest, setActiveProvider, setMockResponder } from './aiProviders';
+import { getDocumentEditSuggestions } from './geminiService';
+
+// Requests go straight to the provider; spacing and quotas are covered by the queue's own tests
+vi.mock('./requestQueue', () => ({ runQueued: <T>(task: () => Promise<T>) => task() }));
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const paragraph = (index: number, text = `Paragraph ${index} of the quarterly report, with enough text to count as a real block.`) =>
+  `<p data-block-id="p${index}">${text}</p>`;
+
+// The HTML the mock was sent, between the document heading and the request
+const sentDocument = ({ userContent }: AiRequest): string =>
+  userContent.slice(userContent.indexOf('<'), userContent.lastIndexOf('USER REQUEST:')).trim();
+
+describe('getDocumentEditSuggestions with the mock provider', () => {
+  beforeAll(() => setActiveProvider('mock'));
+  afterEach(() => setMockResponder());
+
+  it('echoes the document back unchanged by default', async () => {
+    const html = paragraph(1) + paragraph(2);
+    const response = await getDocumentEditSuggestions(html, 'Tidy this up', { mode: 'full' });
+    expect(response).toMatchObject({ type: 'update', content: html });
+    expect(response.imageRepair).toBeUndefined();
+  });
+
+  it('falls back to a full edit when the reply is not a patch', async () => {
+    const html = paragraph(1);
+    const responder = vi.fn(({ userContent }: AiRequest) => userContent.slice(userContent.indexOf('<'), userContent.lastIndexOf('>') + 1));
+    setMockResponder(responder);
+    const response = await getDocumentEditSuggestions(html, 'Tidy this up', { mode: 'patch' });
+    expect(responder).toHaveBeenCalledTimes(2);
+    expect(response.content).toContain('Paragraph 1 of the quarterly report');
+  });
+
+  it('applies a patch reply', async () => {
+    setMockResponder(() => JSON.stringify({
+      summary: 'Shortened the second paragraph',
+      operations: [{ op: 'replace', blockId: 'p2', html: '<p>Short.</p>' }]
+    }));
+    const response = await getDocumentEditSuggestions(paragraph(1) + paragraph(2), 'Shorten the second paragraph', { mode: 'patch' });
+    expect(response).toMatchObject({
+      type: 'update',
+      content: `${paragraph(1)}<p data-block-id="p2">Short.</p>`,
+      summary: 'Shortened the second paragraph'
+    });
+  });
+
+  it('merges a truncated reply with the rest of the original document', async () => {
+    const html = Array.from({ length: 12 }, (_, index) => paragraph(index)).join('');
+    // The model edits the first three paragraphs and stops
+    setMockResponder(() => `SUMMARY: Rewrote the opening\n${[0, 1, 2].map(index => paragraph(index, `Rewritten opening paragraph ${index}, still long enough to keep.`)).join('')}`);
+
+    const response = await getDocumentEditSuggestions(html, 'Rewrite the opening', { mode: 'full' });
+    const expected = [0, 1, 2].map(index => paragraph(index, `Rewritten opening paragraph ${index}, still long enough to keep.`)).join('') +
+      Array.from({ length: 9 }, (_, index) => paragraph(index + 3)).join('');
+    expect(response).toMatchObject({ type: 'update', content: expected, summary: 'Rewrote the opening' });
+  });
+
+  it('sends images as placeholders and restores them in the reply', async () => {
+    const html = `${paragraph(1)}<p data-block-id="img" style="text-align: center;"><img src="${IMAGE}"></p>${paragraph(2)}`;
+    const sent: string[] = [];
+    setMockResponder(request => {
+      sent.push(sentDocument(request));
+      return sentDocument(request);
+    });
+
+    const response = await getDocumentEditSuggestions(html, 'Tidy this up', { mode: 'full' });
+    expect(sent[0]).toContain('<img src="__IMG_PLACEHOLDER_0__">');
+    expect(sent[0]).not.toContain('base64');
+    expect(response.content).toBe(html);
+  });
+
+  it('puts back an image the model dropped and removes one it made up', async () => {
+    const html = `${paragraph(1)}<p data-block-id="img" style="text-align: center;"><img src="${IMAGE}"></p>${paragraph(2)}`;
+    setMockResponder(() => `${paragraph(1, 'Edited first paragraph of the quarterly report.')}<p><img src="__IMG_PLACEHOLDER_5__"></p>${paragraph(2)}`);
+
+    const response = await getDocumentEditSuggestions(html, 'Edit the first paragraph', { mode: 'full' });
+    expect(response.content).toBe(
+      `${paragraph(1, 'Edited first paragraph of the quarterly report.')}<p data-block-id="img" style="text-align: center;"><img src="${IMAGE}"></p>${paragraph(2)}`
+    );
+    expect(response.imageRepair).toEqual({
+      restored: ['__IMG_PLACEHOLDER_0__'],
+      duplicatesRemoved: [],
+      inventedRemoved: ['__IMG_PLACEHOLDER_5__']
+    });
+  });
+});
@@ -1,31 +1,37 @@
 
 // Version: 2.0 - Smart Merge System
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-const API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-flash-latest:generateContent";
+import { AiAttachment, AiRequest, AiToolReply, getActiveProvider } from './aiProviders';
+import { applyPatch, parsePatchResponse, replaceBlocks, validatePatch } from './patchService';
+import { ensureBlockIds, sliceBlocks } from './blockService';
+import { DEFAULT_CHUNK_TOKEN_BUDGET, DocumentChunk, runWithConcurrency, splitIntoChunks } from './chunkService';
+import { buildCorrectivePrompt, validateStructure, ValidationIssue } from './validationService';
+import { hasImageRepairs, ImageRepairReport, repairImagePlaceholders } from './imageRepairService';
+import { runQueued } from './requestQueue';
+import { assembleTranslation, checkTranslatedBlocks, selectBlocks } from './translationService';
+import { buildCitedDocument, guessIntent, linkCitations, parseIntentReply, refsForBlocks, RequestIntent } from './questionService';
+import { cleanSectionDraft, getReportTemplate, OutlineSection, parseOutlineReply, ReportBrief } from './scaffoldService';
+import { parseReviewReply } from './reviewService';
+import { EDITOR_TOOLS, looksLikeToolRequest, runEditorTools } from './editorToolService';
+import { sanitizeDocumentHtml } from './sanitizeService';
+import { ChunkProgress, EditorToolExecution, QueueStatus, ReviewComment } from '../types';
 
 export interface AiResponse {
   type: 'update' | 'message';
   content: string; // This will be the new HTML or a message
+  summary?: string; // The model's one-line explanation of an update
+  validationIssues?: ValidationIssue[]; // Structural checks the update still fails after the automatic retry
+  imageRepair?: ImageRepairReport; // Images that were put back or removed after the model mishandled them
+  toolExecutions?: EditorToolExecution[]; // Set when the update came from editor tool calls rather than new HTML
 }
 
-console.log('🔄 Gemini Service v2.0 loaded - Smart Merge enabled');
-
-// Simple rate limiter
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 4000; // 4 seconds between requests (15 per minute = 1 every 4 seconds)
+// Live progress while a streamed reply arrives
+export interface StreamProgress {
+  receivedChars: number;
+  elementCount: number;
+  summary: string;
+}
 
-const waitForRateLimit = async () => {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    const waitTime = MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-    console.log(`Rate limiting: waiting ${waitTime}ms before next request`);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-  }
-  
-  lastRequestTime = Date.now();
-};
+console.log('🔄 Gemini Service v2.0 loaded - Smart Merge enabled');
 
 // Helper to strip heavy base64 images before sending to AI
 const protectImages = (html: string): { protectedHtml: string, imageMap: Map<string, string> } => {
@@ -56,36 +62,119 @@ const restoreImages = (html: string, imageMap: Map<string, string>): string => {
   return restoredHtml;
 };
 
-export const getDocumentEditSuggestions = async (
-  currentHtml: string,
-  userPrompt: string
-): Promise<AiResponse> => {
-  
-  // Save original document for merging later
-  const originalDocument = currentHtml;
-  const docSizeKB = currentHtml.length / 1024;
-  console.log('Document size:', docSizeKB.toFixed(1), 'KB');
-  console.log('Original document saved for merge protection');
-  
-  // 1. Protect Images (Strip Base64)
-  const { protectedHtml, imageMap } = protectImages(currentHtml);
+/**
+ * Repairs dropped, duplicated or invented image placeholders in a reply, then swaps the
+ * real image data back in and sanitizes the result. Image problems are fixed here, so they
+ * no longer count as validation failures.
+ */
+const finishImages = (
+  sentHtml: string,
+  reply: { html: string; removedBlockIds?: string[]; issues?: ValidationIssue[] },
+  imageMap: Map<string, string>
+): { html: string; imageRepair?: ImageRepairReport; validationIssues?: ValidationIssue[] } => {
+  const { html, report } = repairImagePlaceholders(sentHtml, reply.html, reply.removedBlockIds);
+  const repaired = hasImageRepairs(report);
+  const issues = (reply.issues || []).filter(issue => !repaired || issue.check !== 'images');
+  return {
+    html: sanitizeDocumentHtml(restoreImages(html, imageMap), 'ai'),
+    imageRepair: repaired ? report : undefined,
+    validationIssues: issues.length > 0 ? issues : undefined
+  };
+};
 
-  // System instruction for HTML editing with VERY STRONG anti-truncation
-  const systemInstruction = `You are an expert AI Editor for Word Documents. 
-  Your input is an HTML representation of a document. 
-  Your goal is to rewrite, edit, or format the HTML based on the user's request.
+// Pulls the model's short explanation out of a (possibly partial) reply:
+// "SUMMARY: ..." as the first line in HTML modes, or a "summary" field in patch JSON
+const extractSummary = (text: string): string => {
+  const lineMatch = text.match(/^\s*(?:```\w*\s*)?SUMMARY:\s*([^\n]*)/);
+  if (lineMatch) return lineMatch[1].trim();
 
-  🚨🚨🚨 CRITICAL ANTI-TRUNCATION RULES 🚨🚨🚨:
-  1. **MANDATORY: RETURN 100% OF THE DOCUMENT**: You MUST return EVERY SINGLE PARAGRAPH, TABLE, LIST, and SECTION from the original document. Even if you only edit ONE WORD, you must return THE ENTIRE DOCUMENT.
-  2. **COUNT VERIFICATION**: If the input has 50 paragraphs, your output MUST have 50 paragraphs. If input has 10 tables, output MUST have 10 tables.
-  3. **NO SUMMARIZING**: Do NOT summarize, shorten, or omit ANY content unless explicitly asked to delete it.
-  4. **PRESERVE EVERYTHING AFTER YOUR EDIT**: If you edit page 1, you MUST include pages 2, 3, 4, etc. in your response.
-  5. **Structure Preservation**: Maintain ALL HTML structure (paragraphs <p>, headers <h1>, lists <ul>, tables <table>) unless asked to change it.
-  6. **Style Preservation**: If an element has a 'style' attribute (e.g., style="text-align: center"), YOU MUST PRESERVE IT in the output unless explicitly asked to change the alignment.
-  7. **Clean Output**: Return *ONLY* the HTML content. Do not wrap in \`\`\`html code blocks. Do not add markdown. Just the raw HTML.
-  8. **IMAGE SAFETY**: You will see image tags like <img src="__IMG_PLACEHOLDER_0__">. **DO NOT CHANGE, REMOVE, OR REORDER THESE SRC ATTRIBUTES**. You must output the img tag exactly as is with the placeholder src.
-  9. **NO TRUNCATION**: If the document has multiple pages or sections, return ALL of them. Do not summarize or shorten the document unless explicitly asked.
+  const jsonMatch = text.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (jsonMatch) {
+    try {
+      return JSON.parse(`"${jsonMatch[1]}"`);
+    } catch {
+      return jsonMatch[1];
+    }
+  }
+  return '';
+};
 
+const stripSummaryLine = (text: string): string =>
+  text.replace(/^\s*SUMMARY:[^\n]*\n?/, '');
+
+const countElements = (text: string): number =>
+  (text.match(/<(p|h[1-6]|table|tr|ul|ol|li|div|img)\b/gi) || []).length;
+
+/**
+ * Sends a request to the active provider through the request queue, streaming when
+ * the caller wants progress and the provider supports it.
+ */
+const generate = async (
+  request: AiRequest,
+  onStream?: (progress: StreamProgress) => void,
+  onQueueStatus?: (status: QueueStatus) => void
+): Promise<string> => {
+  const provider = getActiveProvider();
+  console.log('🔌 Using AI provider:', provider.label, onStream && provider.streamText ? '(streaming)' : '');
+
+  return runQueued(() => {
+    if (!onStream || !provider.streamText) {
+      return provider.generateText(request);
+    }
+
+    // Restarts from zero if the queue retries the request
+    let received = '';
+    return provider.streamText(request, delta => {
+      received += delta;
+      onStream({
+        receivedChars: received.length,
+        elementCount: countElements(received),
+        summary: extractSummary(received)
+      });
+    });
+  }, { signal: request.signal, onStatus: onQueueStatus });
+};
+
+const cleanHtmlReply = (text: string): string =>
+  stripSummaryLine(text.replace(/```html/g, '').replace(/```/g, '').trim()).trim();
+
+// One model reply: the raw text (for the summary) and the HTML it produced
+interface ModelReply {
+  text: string;
+  html: string;
+  removedBlockIds?: string[];
+}
+
+/**
+ * Validates a reply against the HTML that was sent and, if it fails, asks once more with
+ * a corrective prompt listing the problems. Returns whichever reply has fewer issues,
+ * together with the issues it still has.
+ */
+const validateWithRetry = async (
+  originalHtml: string,
+  first: ModelReply,
+  retry: (correction: string) => Promise<ModelReply | null>
+): Promise<ModelReply & { issues: ValidationIssue[] }> => {
+  const firstIssues = validateStructure(originalHtml, first.html, { removedBlockIds: first.removedBlockIds });
+  if (firstIssues.length === 0) return { ...first, issues: [] };
+
+  console.warn('🧪 AI output failed structural validation, retrying with a corrective prompt:', firstIssues);
+  const second = await retry(buildCorrectivePrompt(firstIssues));
+  if (!second) return { ...first, issues: firstIssues };
+
+  const secondIssues = validateStructure(originalHtml, second.html, { removedBlockIds: second.removedBlockIds });
+  if (secondIssues.length > 0) {
+    console.warn('🧪 Retry still failed structural validation:', secondIssues);
+  }
+  return secondIssues.length <= firstIssues.length
+    ? { ...second, issues: secondIssues }
+    : { ...first, issues: firstIssues };
+};
+
+const SUMMARY_RULE = `Start your reply with ONE line in the form "SUMMARY: <one short sentence describing what you changed>", then the HTML on the following lines.`;
+
+// Prompt fragments shared by the full-document and patch edit modes
+const IMAGE_FORMATTING_RULES = `
   📷 IMAGE FORMATTING RULES:
   When user asks to format/align/center/position an image:
   - To CENTER an image: Wrap it in a div with style="text-align: center;" like: <div style="text-align: center;"><img src="__IMG_PLACEHOLDER_X__" style="display: inline-block;"></div>
@@ -95,7 +184,9 @@ export const getDocumentEditSuggestions = async (
   - "First page image" means the FIRST <img> tag in the document
   - "Second image" means the SECOND <img> tag, etc.
   - ALWAYS preserve the src="__IMG_PLACEHOLDER_X__" exactly as-is
+`;
 
+const PAGE_LAYOUT_RULES = `
   📄 PAGE LAYOUT & PAGE BREAK RULES:
   When user asks to move content to specific pages (e.g., "move abstract to page 2", "introduction should start on page 4"):
   - Use this PAGE BREAK marker to force content to a new page: <div style="page-break-before: always; break-before: page;"></div>
@@ -126,55 +217,250 @@ export const getDocumentEditSuggestions = async (
     [Chapter 1 content...]
     [Chapter 2 content...]
     [All remaining content - NO extra page breaks needed, system handles overflow]
+`;
+
+const PATCH_SYSTEM_INSTRUCTION = `You are an expert AI Editor for Word Documents.
+  Your input is an HTML representation of a document. Every top-level block carries a data-block-id attribute.
+  Instead of returning the document, return ONLY a JSON object of the form {"summary": "<one short sentence describing what you changed>", "operations": [...]} with the edit operations that apply the user's request.
+
+  OPERATIONS:
+  - {"op": "replace", "blockId": "blk_abc123", "html": "<p>New content</p>"} - replace a block with new HTML (one or more elements)
+  - {"op": "insert_after", "blockId": "blk_abc123", "html": "<p>Inserted</p>"} - insert new HTML after a block. Use "blockId": "START" to insert at the top of the document
+  - {"op": "delete", "blockId": "blk_abc123"} - remove a block
+  - {"op": "set_style", "blockId": "blk_abc123", "style": {"text-align": "center", "color": "#1f2937"}} - set inline CSS properties on a block (use "" to remove a property)
+
+  RULES:
+  1. Only touch the blocks the request is about. Blocks you don't mention stay exactly as they are.
+  2. Use only blockIds that appear in the input. Operations run in order.
+  3. Keep existing inline styles in replacement HTML unless the user asked to change them.
+  4. **IMAGE SAFETY**: Image sources look like src="__IMG_PLACEHOLDER_0__". Keep them exactly as-is in any HTML you return.
+  5. Output raw JSON only. No markdown, no commentary. Put "summary" first. If no change is needed, return an empty operations list.
+${IMAGE_FORMATTING_RULES}
+${PAGE_LAYOUT_RULES}
+  `;
+
+const TOOLS_SYSTEM_INSTRUCTION = `You are an expert AI Editor for Word Documents.
+  Your input is an HTML representation of a document. Every top-level block carries a data-block-id attribute.
+  Apply the user's request by calling the editor tools, addressed to those block ids. Calls run in the order you make them.
+
+  RULES:
+  1. Only touch the blocks the request is about.
+  2. Use only block ids that appear in the input.
+  3. The "find" text of replace_text must be copied exactly from the block.
+  4. If the request needs anything the tools can't do - adding, deleting or moving paragraphs, lists, fonts, colours - call no tools at all and reply with the single word UNSUPPORTED.
+  `;
+
+export type EditMode = 'tools' | 'patch' | 'full';
+
+export interface EditOptions {
+  // 'tools' lets the model call editor commands for formatting and structure requests (exact, falls
+  // back to 'patch' when the request needs more; other requests go to 'patch' directly); 'patch' asks for a JSON operation list (cheap, no truncation); 'full' regenerates the whole HTML
+  mode?: EditMode;
+  signal?: AbortSignal;
+  onStream?: (progress: StreamProgress) => void;
+  attachments?: AiAttachment[]; // Reference files from the chat (images, extracted PDF/DOCX/TXT text)
+  history?: string; // Bounded transcript of earlier turns, see buildConversationHistory
+  onQueueStatus?: (status: QueueStatus) => void; // Queue position / rate limit countdown before the request starts
+  instruction?: string; // System-instruction fragment from a slash command
+}
+
+// Slash commands can bring their own rules on top of the mode's system instruction
+const withCommandInstruction = (systemInstruction: string, instruction?: string): string =>
+  instruction ? `${systemInstruction}
+  ADDITIONAL INSTRUCTIONS FOR THIS REQUEST:
+  ${instruction}
+  ` : systemInstruction;
+
+// Earlier turns go right before the request so the model can resolve "it" / "that section"
+const historySection = (history?: string): string =>
+  history ? `CONVERSATION SO FAR (earlier requests and what was changed, most recent last):
+  ${history}
+
+  ` : '';
 
+// Patch mode: returns null when the model didn't produce a usable patch so the caller can fall back
+const requestPatchEdit = async (
+  annotatedHtml: string,
+  userPrompt: string,
+  { signal, onStream, onQueueStatus, attachments, history, instruction }: EditOptions,
+  correction = ''
+): Promise<ModelReply | null> => {
+  const userContent = `CURRENT DOCUMENT HTML (Images are placeholders):
+  ${annotatedHtml}
+
+  ${historySection(history)}USER REQUEST:
+  ${userPrompt}
+
+  Please return the JSON object with the summary and operations.
+  ${correction}`;
+
+  const systemInstruction = withCommandInstruction(PATCH_SYSTEM_INSTRUCTION, instruction);
+  const text = await generate({ systemInstruction, userContent, attachments, signal }, onStream, onQueueStatus);
+  const operations = parsePatchResponse(text);
+
+  if (!operations) {
+    console.warn('⚠️ Model did not return a valid patch, falling back to full document mode');
+    return null;
+  }
+
+  const errors = validatePatch(annotatedHtml, operations);
+  if (errors.length > 0) {
+    console.warn('⚠️ Patch rejected:', errors);
+    return null;
+  }
+
+  console.log('🩹 Applying patch:', operations.length, 'operation(s)');
+  return {
+    text,
+    html: ensureBlockIds(applyPatch(annotatedHtml, operations)),
+    // Explicit deletions are intended, so the validator leaves those blocks out
+    removedBlockIds: operations.filter(operation => operation.op === 'delete').map(operation => operation.blockId)
+  };
+};
+
+/**
+ * Tool mode: the model calls editor commands, which run here against the document. Returns
+ * null when the provider can't call tools, the model made no calls or none of them worked,
+ * so the caller can fall back to a patch.
+ */
+const requestToolEdit = async (
+  annotatedHtml: string,
+  userPrompt: string,
+  { signal, onQueueStatus, attachments, history, instruction }: EditOptions
+): Promise<{ html: string; summary?: string; executions: EditorToolExecution[] } | null> => {
+  const provider = getActiveProvider();
+  const { generateToolCalls } = provider;
+  if (!generateToolCalls) return null;
+  console.log('🔧 Asking', provider.label, 'for editor tool calls');
+
+  const userContent = `CURRENT DOCUMENT HTML (Images are placeholders):
+  ${annotatedHtml}
+
+  ${historySection(history)}USER REQUEST:
+  ${userPrompt}`;
+  const systemInstruction = withCommandInstruction(TOOLS_SYSTEM_INSTRUCTION, instruction);
+
+  let reply: AiToolReply;
+  try {
+    reply = await runQueued(
+      () => generateToolCalls({ systemInstruction, userContent, attachments, signal }, EDITOR_TOOLS),
+      { signal, onStatus: onQueueStatus }
+    );
+  } catch (error) {
+    // Endpoints and local models without function calling reject the request outright
+    if (signal?.aborted) throw error;
+    console.warn('⚠️ Tool calling failed, falling back to patch mode:', error);
+    return null;
+  }
+
+  if (reply.calls.length === 0) {
+    console.log('🔧 No tool calls for this request, falling back to patch mode');
+    return null;
+  }
+  const result = runEditorTools(annotatedHtml, reply.calls);
+  if (!result.executions.some(execution => execution.ok)) {
+    console.warn('⚠️ None of the tool calls could be run, falling back to patch mode');
+    return null;
+  }
+
+  const summary = reply.text.trim().split('\n')[0].trim();
+  return { html: result.html, summary: summary || undefined, executions: result.executions };
+};
+
+export const getDocumentEditSuggestions = async (
+  currentHtml: string,
+  userPrompt: string,
+  options: EditOptions = {}
+): Promise<AiResponse> => {
+  const { mode = 'tools', signal, onStream, onQueueStatus, attachments, history, instruction } = options;
+  
+  const docSizeKB = currentHtml.length / 1024;
+  console.log('Document size:', docSizeKB.toFixed(1), 'KB');
+  
+  // 1. Protect Images (Strip Base64)
+  const { protectedHtml, imageMap } = protectImages(currentHtml);
+
+  if (mode === 'tools' && looksLikeToolRequest(userPrompt)) {
+    const annotatedHtml = ensureBlockIds(protectedHtml);
+    const toolEdit = await requestToolEdit(annotatedHtml, userPrompt, options);
+    if (toolEdit) {
+      const { html, ...checks } = finishImages(annotatedHtml, toolEdit, imageMap);
+      return { type: 'update', content: html, summary: toolEdit.summary, toolExecutions: toolEdit.executions, ...checks };
+    }
+  }
+
+  if (mode !== 'full') {
+    try {
+      const annotatedHtml = ensureBlockIds(protectedHtml);
+      const first = await requestPatchEdit(annotatedHtml, userPrompt, options);
+      if (first) {
+        const patched = await validateWithRetry(
+          annotatedHtml,
+          first,
+          correction => requestPatchEdit(annotatedHtml, userPrompt, options, correction)
+        );
+        const { html, ...checks } = finishImages(annotatedHtml, patched, imageMap);
+        return { type: 'update', content: html, summary: extractSummary(patched.text) || undefined, ...checks };
+      }
+    } catch (error) {
+      console.error("AI Provider Error:", error);
+      throw error;
+    }
+  }
+
+  // System instruction for HTML editing with VERY STRONG anti-truncation
+  const systemInstruction = `You are an expert AI Editor for Word Documents. 
+  Your input is an HTML representation of a document. 
+  Your goal is to rewrite, edit, or format the HTML based on the user's request.
+
+  🚨🚨🚨 CRITICAL ANTI-TRUNCATION RULES 🚨🚨🚨:
+  1. **MANDATORY: RETURN 100% OF THE DOCUMENT**: You MUST return EVERY SINGLE PARAGRAPH, TABLE, LIST, and SECTION from the original document. Even if you only edit ONE WORD, you must return THE ENTIRE DOCUMENT.
+  2. **COUNT VERIFICATION**: If the input has 50 paragraphs, your output MUST have 50 paragraphs. If input has 10 tables, output MUST have 10 tables.
+  3. **NO SUMMARIZING**: Do NOT summarize, shorten, or omit ANY content unless explicitly asked to delete it.
+  4. **PRESERVE EVERYTHING AFTER YOUR EDIT**: If you edit page 1, you MUST include pages 2, 3, 4, etc. in your response.
+  5. **Structure Preservation**: Maintain ALL HTML structure (paragraphs <p>, headers <h1>, lists <ul>, tables <table>) unless asked to change it.
+  6. **Block IDs**: Top-level elements carry a data-block-id attribute. Keep it on every element you return, and never copy an existing id onto a new element.
+  7. **Style Preservation**: If an element has a 'style' attribute (e.g., style="text-align: center"), YOU MUST PRESERVE IT in the output unless explicitly asked to change the alignment.
+  8. **Clean Output**: After the SUMMARY line, return *ONLY* the HTML content. Do not wrap in \`\`\`html code blocks. Do not add markdown. Just the raw HTML.
+  9. **IMAGE SAFETY**: You will see image tags like <img src="__IMG_PLACEHOLDER_0__">. **DO NOT CHANGE, REMOVE, OR REORDER THESE SRC ATTRIBUTES**. You must output the img tag exactly as is with the placeholder src.
+  10. **NO TRUNCATION**: If the document has multiple pages or sections, return ALL of them. Do not summarize or shorten the document unless explicitly asked.
+
+${IMAGE_FORMATTING_RULES}
+${PAGE_LAYOUT_RULES}
   INPUT CONTEXT:
   The user will provide the current HTML of the document. You must return the ENTIRE document with the requested changes applied.
-  `;
 
-  const fullPrompt = `${systemInstruction}
+  OUTPUT FORMAT:
+  ${SUMMARY_RULE}
+  `;
+  const fullSystemInstruction = withCommandInstruction(systemInstruction, instruction);
 
-  CURRENT DOCUMENT HTML (Images are placeholders):
+  const userContent = `CURRENT DOCUMENT HTML (Images are placeholders):
   ${protectedHtml}
 
-  USER REQUEST:
+  ${historySection(history)}USER REQUEST:
   ${userPrompt}
 
   Please generate the updated HTML for the document.
   `;
 
+  const requestFullEdit = async (correction = ''): Promise<ModelReply> => {
+    const reply = await generate({ systemInstruction: fullSystemInstruction, userContent: userContent + correction, attachments, signal }, onStream, onQueueStatus);
+    // Strip markdown code blocks if Gemini adds them by accident
+    return { text: reply, html: cleanHtmlReply(reply) };
+  };
+
   try {
-    // Wait for rate limit before making request
-    await waitForRateLimit();
-    
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': API_KEY
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: fullPrompt }]
-        }]
-      })
-    });
+    const validated = await validateWithRetry(protectedHtml, await requestFullEdit(), requestFullEdit);
+    const summary = extractSummary(validated.text) || undefined;
+    const text = validated.html;
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error('⏱️ Rate limit exceeded. Please wait 1 minute before trying again.\n\nGemini API free tier allows:\n• 15 requests per minute\n• 1,500 requests per day');
-      }
-      if (response.status === 403) {
-        throw new Error('❌ API key invalid or expired. Please check your VITE_GEMINI_API_KEY in .env.local');
-      }
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+    // Still failing after the retry: hand the result back with a report instead of merging it silently
+    if (validated.issues.length > 0) {
+      const { html, ...checks } = finishImages(protectedHtml, validated, imageMap);
+      return { type: 'update', content: html, summary, ...checks };
     }
 
-    const data = await response.json();
-    let text = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-    
-    // Strip markdown code blocks if Gemini adds them by accident
-    text = text.replace(/```html/g, '').replace(/```/g, '').trim();
-
     // SMART MERGE: If AI truncated, merge AI changes with original document
     const originalLength = protectedHtml.length;
     const newLength = text.length;
@@ -206,7 +492,8 @@ export const getDocumentEditSuggestions = async (
         // Parse both documents
         const parser = new DOMParser();
         const aiDoc = parser.parseFromString(`<div>${text}</div>`, 'text/html');
-        const originalDoc = parser.parseFromString(`<div>${originalDocument}</div>`, 'text/html');
+        // Merge from the placeholder version so appended images go through the same repair/restore step
+        const originalDoc = parser.parseFromString(`<div>${protectedHtml}</div>`, 'text/html');
         
         const aiContainer = aiDoc.querySelector('div');
         const originalContainer = originalDoc.querySelector('div');
@@ -261,63 +548,540 @@ export const getDocumentEditSuggestions = async (
           });
           
           // Restore images in merged content
-          const finalHtml = restoreImages(mergedContent, imageMap);
+          const { html: finalHtml, ...checks } = finishImages(protectedHtml, { html: mergedContent }, imageMap);
           
           return { 
             type: 'update', 
-            content: finalHtml
+            content: finalHtml,
+            summary,
+            ...checks
           };
         } else {
           // AI returned most content, just use it
           console.log('✅ AI returned sufficient content, using as-is');
-          const finalHtml = restoreImages(text, imageMap);
-          return { type: 'update', content: finalHtml };
+          const { html: finalHtml, ...checks } = finishImages(protectedHtml, { html: text }, imageMap);
+          return { type: 'update', content: finalHtml, summary, ...checks };
         }
       }
     }
 
     // 2. Restore Images
-    const finalHtml = restoreImages(text, imageMap);
+    const { html: finalHtml, ...checks } = finishImages(protectedHtml, { html: text }, imageMap);
 
-    return { type: 'update', content: finalHtml };
+    return { type: 'update', content: finalHtml, summary, ...checks };
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    console.error("AI Provider Error:", error);
     throw error;
   }
 };
 
-export const generateImageForReport = async (prompt: string): Promise<string> => {
+const SELECTION_SYSTEM_INSTRUCTION = `You are an expert AI Editor for Word Documents.
+  You will receive a SELECTION of HTML blocks taken from a larger document, plus the plain text just before and after it for context.
+  Rewrite ONLY the selection according to the user's request and return the replacement HTML for it.
+
+  RULES:
+  1. Return ONLY the HTML that should replace the selection. Never repeat the surrounding context.
+  2. Keep the data-block-id attribute on the blocks you keep. New blocks don't need one.
+  3. Preserve inline styles unless the user asked to change them.
+  4. **IMAGE SAFETY**: Image sources look like src="__IMG_PLACEHOLDER_0__". Keep them exactly as-is.
+  5. Return raw HTML only. Do not wrap in \`\`\`html code blocks.
+  6. ${SUMMARY_RULE}
+${IMAGE_FORMATTING_RULES}
+  `;
+
+/**
+ * Selection-scoped edit: only the given blocks (plus a little read-only context) go to
+ * the model, and the result is spliced back in place of those blocks.
+ */
+export const getSelectionEditSuggestions = async (
+  currentHtml: string,
+  blockIds: string[],
+  userPrompt: string,
+  { signal, onStream, onQueueStatus, attachments, history, instruction }: EditOptions = {}
+): Promise<AiResponse> => {
+  const slice = sliceBlocks(currentHtml, blockIds);
+  if (!slice) {
+    return {
+      type: 'message',
+      content: "⚠️ The selected text is no longer in the document. Please select it again."
+    };
+  }
+
+  console.log('✂️ Selection edit:', blockIds.length, 'block(s),', (slice.selectedHtml.length / 1024).toFixed(1), 'KB');
+
+  const { protectedHtml, imageMap } = protectImages(slice.selectedHtml);
+
+  const userContent = `CONTEXT BEFORE THE SELECTION (read-only):
+  ${slice.contextBefore || '(start of document)'}
+
+  SELECTED HTML TO EDIT (Images are placeholders):
+  ${protectedHtml}
+
+  CONTEXT AFTER THE SELECTION (read-only):
+  ${slice.contextAfter || '(end of document)'}
+
+  ${historySection(history)}USER REQUEST:
+  ${userPrompt}
+
+  Please generate the replacement HTML for the selection only.
+  `;
+
+  const requestSelectionEdit = async (correction = ''): Promise<ModelReply> => {
+    const systemInstruction = withCommandInstruction(SELECTION_SYSTEM_INSTRUCTION, instruction);
+    const reply = await generate({ systemInstruction, userContent: userContent + correction, attachments, signal }, onStream, onQueueStatus);
+    return { text: reply, html: cleanHtmlReply(reply) };
+  };
+
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': API_KEY
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: `Generate an image: ${prompt}` }]
-        }]
-      })
-    });
+    const first = await requestSelectionEdit();
+    if (!first.html) {
+      return { type: 'message', content: "I couldn't produce a rewrite for that selection." };
+    }
+
+    const validated = await validateWithRetry(protectedHtml, first, requestSelectionEdit);
+    const { html: replacement, ...checks } = finishImages(protectedHtml, validated, imageMap);
+    return {
+      type: 'update',
+      content: replaceBlocks(currentHtml, blockIds, replacement),
+      summary: extractSummary(validated.text) || undefined,
+      ...checks
+    };
+  } catch (error) {
+    console.error("AI Provider Error:", error);
+    throw error;
+  }
+};
+
+const INTENT_SYSTEM_INSTRUCTION = `You route requests sent to a Word document assistant.
+  Reply with exactly one word:
+  - EDIT if the user wants the document changed in any way (rewrite, add, remove, format, translate, insert a summary...)
+  - QUESTION if the user only wants information about the document answered in the chat, with the document left as it is
+  `;
+
+/**
+ * Decides whether a chat request should edit the document or only be answered. Clear
+ * cases are decided locally; ambiguous wording costs one short model call. When in
+ * doubt the request is treated as an edit, which still goes through review.
+ */
+export const classifyRequestIntent = async (
+  userPrompt: string,
+  { signal, onQueueStatus, history }: Pick<EditOptions, 'signal' | 'onQueueStatus' | 'history'> = {}
+): Promise<RequestIntent> => {
+  const guess = guessIntent(userPrompt);
+  if (guess) {
+    console.log('🧭 Request intent (local):', guess);
+    return guess;
+  }
+
+  try {
+    const reply = await generate({
+      systemInstruction: INTENT_SYSTEM_INSTRUCTION,
+      userContent: `${historySection(history)}REQUEST:\n${userPrompt}`,
+      signal
+    }, undefined, onQueueStatus);
+    const intent = parseIntentReply(reply);
+    console.log('🧭 Request intent (model):', intent);
+    return intent;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('⚠️ Intent classification failed, treating the request as an edit:', error);
+    return 'edit';
+  }
+};
+
+const QUESTION_SYSTEM_INSTRUCTION = `You answer questions about a Word document. You never edit it.
+  The document is given as plain text, one block per line, each starting with a reference like [B12]. Headings start with #.
+
+  RULES:
+  1. Answer from the document only. If it doesn't contain the answer, say so plainly.
+  2. Cite the blocks your answer is based on by putting their references in square brackets right after the statement, e.g. "Revenue grew 12% [B14]." or "[B3, B4]".
+  3. Keep the answer short and in Markdown. Do not quote whole paragraphs.
+  4. Never return HTML or a rewritten document, even if the question mentions changes - describe them instead.
+  `;
+
+export interface QuestionOptions extends Pick<EditOptions, 'signal' | 'onQueueStatus' | 'attachments' | 'history' | 'instruction'> {
+  blockIds?: string[]; // Blocks the user selected - "this paragraph" refers to them
+}
+
+/**
+ * Read-only question answering over the document's plain text. The answer comes back as
+ * a chat message whose block references are links the chat can scroll to.
+ */
+export const answerDocumentQuestion = async (
+  currentHtml: string,
+  question: string,
+  { signal, onQueueStatus, attachments, history, instruction, blockIds = [] }: QuestionOptions = {}
+): Promise<AiResponse> => {
+  const cited = buildCitedDocument(currentHtml);
+  const selectedRefs = refsForBlocks(cited, blockIds);
+  console.log('❓ Answering a question over', cited.refs.size, 'blocks', cited.truncated ? '(truncated)' : '');
+
+  const userContent = `DOCUMENT:
+  ${cited.text}
+  ${cited.truncated ? '\n  (The document is longer - only the beginning is shown.)\n' : ''}
+  ${selectedRefs.length > 0 ? `THE USER HAS SELECTED: ${selectedRefs.map(ref => `[${ref}]`).join(' ')}\n\n  ` : ''}${historySection(history)}QUESTION:
+  ${question}`;
+
+  const reply = await generate({
+    systemInstruction: withCommandInstruction(QUESTION_SYSTEM_INSTRUCTION, instruction),
+    userContent,
+    attachments,
+    signal
+  }, undefined, onQueueStatus);
+
+  const answer = linkCitations(reply.trim(), cited.refs);
+  return { type: 'message', content: answer || "I couldn't find an answer to that in the document." };
+};
+
+export interface ChunkedEditOptions {
+  tokenBudget?: number;
+  concurrency?: number;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  attachments?: AiAttachment[];
+  history?: string;
+  instruction?: string;
+  onProgress?: (progress: ChunkProgress[]) => void;
+}
+
+export interface ChunkedEditResult {
+  html: string;
+  chunks: DocumentChunk[];
+  progress: ChunkProgress[];
+  imageRepairs: { label: string; report: ImageRepairReport }[]; // Per-chunk image repairs, for the chat
+}
+
+/**
+ * Edits a single chunk of a larger document. Used by the chunked mode and by the
+ * chat's per-chunk retry button. Resolves with the update response for the chunk.
+ */
+export const editDocumentChunk = async (
+  chunk: DocumentChunk,
+  totalChunks: number,
+  userPrompt: string,
+  options: Pick<EditOptions, 'signal' | 'attachments' | 'history' | 'instruction' | 'onQueueStatus'> = {}
+): Promise<AiResponse> => {
+  const chunkPrompt = `${userPrompt}
+
+  (Note: this is part ${chunk.index + 1} of ${totalChunks} of a larger document. Apply the request to this part only. If the request doesn't concern this part, leave it unchanged.)`;
+
+  // A chunk the request doesn't concern gets no tool calls, which would cost a second request to fall back
+  const response = await getDocumentEditSuggestions(chunk.html, chunkPrompt, { ...options, mode: 'patch' });
+  if (response.type !== 'update') {
+    throw new Error(response.content);
+  }
+  // A chunk that fails validation is left unchanged and reported, like any other failed chunk
+  if (response.validationIssues) {
+    throw new Error(`❌ Failed structural checks: ${response.validationIssues.map(issue => issue.message).join('; ')}`);
+  }
+  return response;
+};
+
+/**
+ * Chunked mode for large documents: splits at heading boundaries into chunks under the
+ * token budget, edits them with bounded concurrency (every request still goes through the
+ * request queue), retries failed chunks, and reassembles the results in order.
+ * A chunk that keeps failing is left as it was so the rest of the edit still lands.
+ */
+export const getChunkedEditSuggestions = async (
+  currentHtml: string,
+  userPrompt: string,
+  options: ChunkedEditOptions = {}
+): Promise<ChunkedEditResult> => {
+  const {
+    tokenBudget = DEFAULT_CHUNK_TOKEN_BUDGET,
+    concurrency = 3,
+    maxAttempts = 2,
+    signal,
+    attachments,
+    history,
+    instruction,
+    onProgress
+  } = options;
+
+  const chunks = splitIntoChunks(currentHtml, tokenBudget);
+  console.log('🧩 Chunked edit:', chunks.length, 'chunks, budget', tokenBudget, 'tokens, concurrency', concurrency);
+
+  const progress: ChunkProgress[] = chunks.map(chunk => ({
+    index: chunk.index,
+    label: chunk.label,
+    status: 'pending',
+    attempts: 0
+  }));
+
+  const report = (index: number, update: Partial<ChunkProgress>) => {
+    progress[index] = { ...progress[index], ...update };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
 
-    if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+  const imageRepairs: ChunkedEditResult['imageRepairs'] = [];
+  const outputs = await runWithConcurrency(chunks, concurrency, async (chunk) => {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      report(chunk.index, { status: attempt === 1 ? 'running' : 'retrying', attempts: attempt });
+      try {
+        const response = await editDocumentChunk(chunk, chunks.length, userPrompt, {
+          signal,
+          attachments,
+          history,
+          instruction,
+          onQueueStatus: status => report(chunk.index, { queue: status.state === 'running' ? undefined : status })
+        });
+        if (response.imageRepair) {
+          imageRepairs.push({ label: chunk.label, report: response.imageRepair });
+        }
+        report(chunk.index, { status: 'done', error: undefined, queue: undefined });
+        return response.content;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`⚠️ Chunk ${chunk.index + 1} attempt ${attempt} failed:`, message);
+        report(chunk.index, { status: attempt < maxAttempts ? 'retrying' : 'failed', error: message, queue: undefined });
+      }
     }
+    return chunk.html;
+  });
+
+  return { html: outputs.join(''), chunks, progress, imageRepairs };
+};
 
-    const data = await response.json();
-    const parts = data.candidates?.[0]?.content?.parts;
-    if (!parts) throw new Error("No content generated");
+const TRANSLATION_SYSTEM_INSTRUCTION = `You are a professional document translator.
+  You will receive HTML blocks from a Word document. Translate the human-readable text into the target language and return the same HTML.
 
-    const imagePart = parts.find((p: any) => p.inlineData);
-    
-    if (imagePart && imagePart.inlineData) {
-      return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
+  RULES:
+  1. Translate text content only. Every tag, attribute, inline style and data-block-id must come back exactly as it was sent.
+  2. Never add, remove, merge, split or reorder elements - including <span>, <strong>, <em>, <br> and table cells. Keep inline formatting around the translated words it applied to.
+  3. **IMAGE SAFETY**: Image sources look like src="__IMG_PLACEHOLDER_0__". Keep them exactly as-is. You may translate alt text.
+  4. Leave numbers, names, code, URLs and email addresses untranslated.
+  5. Return raw HTML only, with no explanation. Do not wrap in \`\`\`html code blocks.
+  `;
+
+export interface TranslationOptions {
+  tokenBudget?: number;
+  concurrency?: number;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ChunkProgress[]) => void;
+}
+
+export interface TranslationResult {
+  language: string;
+  html: string;
+  progress: ChunkProgress[];
+  untranslatedBlockIds: string[]; // Blocks kept in the original language because every attempt changed their markup
+}
+
+/**
+ * Translates a whole document while keeping its formatting. The document is split into
+ * chunks of blocks; each translated block is checked against the block that was sent and
+ * only accepted when its markup is identical. Rejected blocks are sent again on their own,
+ * and a block that still fails stays in the original language.
+ */
+export const translateDocument = async (
+  currentHtml: string,
+  language: string,
+  options: TranslationOptions = {}
+): Promise<TranslationResult> => {
+  // Translations run a little longer than the source, so leave more headroom than edits do
+  const { tokenBudget = DEFAULT_CHUNK_TOKEN_BUDGET / 2, concurrency = 3, maxAttempts = 2, signal, onProgress } = options;
+
+  const { protectedHtml, imageMap } = protectImages(ensureBlockIds(currentHtml));
+  // Chunks holding nothing but page break markers have nothing to translate
+  const chunks = splitIntoChunks(protectedHtml, tokenBudget).filter(chunk => chunk.blockIds.length > 0);
+  console.log('🌐 Translating into', language, '-', chunks.length, 'chunks');
+
+  const progress: ChunkProgress[] = chunks.map((chunk, position) => ({
+    index: position,
+    label: chunk.label,
+    status: 'pending',
+    attempts: 0
+  }));
+  const report = (position: number, update: Partial<ChunkProgress>) => {
+    progress[position] = { ...progress[position], ...update };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  const translated = new Map<string, string>();
+  const untranslatedBlockIds: string[] = [];
+
+  await runWithConcurrency(chunks, concurrency, async (chunk, position) => {
+    let remaining = chunk.blockIds;
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts && remaining.length > 0; attempt++) {
+      report(position, { status: attempt === 1 ? 'running' : 'retrying', attempts: attempt });
+      const sentHtml = selectBlocks(chunk.html, remaining);
+      try {
+        const reply = await generate({
+          systemInstruction: TRANSLATION_SYSTEM_INSTRUCTION,
+          userContent: `TARGET LANGUAGE: ${language}\n\nHTML TO TRANSLATE:\n${sentHtml}`,
+          signal
+        }, undefined, status => report(position, { queue: status.state === 'running' ? undefined : status }));
+
+        const { accepted, rejected } = checkTranslatedBlocks(sentHtml, cleanHtmlReply(reply));
+        accepted.forEach((html, id) => translated.set(id, html));
+        remaining = rejected;
+        lastError = rejected.length > 0 ? `${rejected.length} block(s) came back with different formatting` : '';
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+      }
+      if (lastError) {
+        console.warn(`⚠️ Translation of chunk ${position + 1} attempt ${attempt}:`, lastError);
+      }
+      report(position, { queue: undefined });
     }
 
-    throw new Error("No image data found in response");
+    untranslatedBlockIds.push(...remaining);
+    report(position, remaining.length === 0
+      ? { status: 'done', error: undefined }
+      : {
+          status: remaining.length === chunk.blockIds.length ? 'failed' : 'done',
+          error: `${remaining.length} of ${chunk.blockIds.length} blocks kept in the original language (${lastError})`
+        });
+  });
+
+  return {
+    language,
+    html: sanitizeDocumentHtml(restoreImages(assembleTranslation(protectedHtml, translated), imageMap), 'ai'),
+    progress,
+    untranslatedBlockIds
+  };
+};
+
+const OUTLINE_SYSTEM_INSTRUCTION = `You plan the structure of new reports.
+  You will receive the report type, its title and what it is about, plus the standard sections for that type of report.
+  Adapt the standard sections to this specific report: rename, add, merge or drop sections where the topic calls for it.
+
+  Return ONLY a JSON array of 4-12 sections in reading order, each of the form {"title": "<section heading>", "brief": "<one sentence on what the section covers>"}.
+  No markdown, no commentary.
+  `;
 
+const SECTION_SYSTEM_INSTRUCTION = `You write one section of a report at a time, as HTML for a Word document.
+  You will receive the report type, title and topic, the full outline, and which section to write.
+
+  RULES:
+  1. Write ONLY the section you are asked for - its body, without the section heading (the document adds it).
+  2. Use <p>, <h2>, <h3>, <ul>, <ol>, <li>, <table>, <tr>, <th>, <td>, <strong> and <em> only. No images, no <h1>, no inline styles.
+  3. Stay consistent with the rest of the outline: don't repeat what other sections cover.
+  4. Where you need facts you don't have (names, figures, dates), write a clearly marked placeholder such as [Insert figure].
+  5. Return raw HTML only, with no explanation. Do not wrap in \`\`\`html code blocks.
+  `;
+
+export interface DraftOptions {
+  signal?: AbortSignal;
+  onQueueStatus?: (status: QueueStatus) => void;
+}
+
+const describeReport = (brief: ReportBrief): string => {
+  const template = getReportTemplate(brief.type);
+  return `REPORT TYPE: ${template.label}
+  TITLE: ${brief.title.trim() || '(untitled)'}
+  ABOUT: ${brief.topic.trim() || '(not given)'}`;
+};
+
+/**
+ * Asks the model to tailor the report type's standard outline to this report.
+ * Callers fall back to the template outline if this fails.
+ */
+export const generateReportOutline = async (
+  brief: ReportBrief,
+  { signal, onQueueStatus }: DraftOptions = {}
+): Promise<OutlineSection[]> => {
+  const template = getReportTemplate(brief.type);
+  console.log('🗂️ Generating an outline for a new', template.label);
+
+  const reply = await generate({
+    systemInstruction: OUTLINE_SYSTEM_INSTRUCTION,
+    userContent: `${describeReport(brief)}
+
+  STANDARD SECTIONS:
+  ${template.sections.map(section => `- ${section.title}: ${section.brief}`).join('\n  ')}`,
+    signal
+  }, undefined, onQueueStatus);
+
+  return parseOutlineReply(reply);
+};
+
+/**
+ * Drafts the body of one outline section. Sections are drafted one request at a time,
+ * so any of them can be regenerated on its own later.
+ */
+export const draftReportSection = async (
+  brief: ReportBrief,
+  outline: OutlineSection[],
+  index: number,
+  { signal, onQueueStatus }: DraftOptions = {}
+): Promise<string> => {
+  const section = outline[index];
+  const template = getReportTemplate(brief.type);
+  console.log('✍️ Drafting section', index + 1, 'of', outline.length, '-', section.title);
+
+  const reply = await generate({
+    systemInstruction: SECTION_SYSTEM_INSTRUCTION,
+    userContent: `${describeReport(brief)}
+  TONE: ${template.tone}
+
+  OUTLINE:
+  ${outline.map((other, position) => `${position + 1}. ${other.title}${other.brief ? ` - ${other.brief}` : ''}`).join('\n  ')}
+
+  WRITE SECTION ${index + 1}: ${section.title}
+  ${section.brief ? `IT SHOULD COVER: ${section.brief}` : ''}`,
+    signal
+  }, undefined, onQueueStatus);
+
+  const html = sanitizeDocumentHtml(cleanSectionDraft(cleanHtmlReply(reply), section.title), 'ai');
+  if (!html) throw new Error('❌ The AI returned an empty section');
+  return html;
+};
+
+const REVIEW_SYSTEM_INSTRUCTION = `You review Word documents and give feedback as comments, like a careful editor. You never rewrite the document.
+  The document is given as plain text, one block per line, each starting with a reference like [B12]. Headings start with #.
+
+  Return ONLY a JSON array of up to 25 comments in document order, each of the form
+  {"block": "B12", "quote": "<text from that block>", "issue": "<what is wrong and why, in one or two sentences>", "suggestion": "<replacement for the quote, or an empty string>"}.
+
+  RULES:
+  1. "quote" must be copied exactly from the block, character for character - a few words up to one sentence, just enough to be unique within the block.
+  2. "suggestion" replaces the quote and nothing else, so it must read correctly in its place. Leave it empty when the fix isn't a rewrite (e.g. "add a source here").
+  3. Prefer substantive feedback - clarity, argument, structure, accuracy, consistency, tone - over typos a spellchecker would catch.
+  4. No markdown, no commentary outside the JSON. Return [] if there is nothing worth commenting on.
+  `;
+
+/**
+ * Review mode: asks for comments anchored to quoted text instead of an edited document.
+ * The document itself is never sent back or changed here.
+ */
+export const reviewDocument = async (
+  currentHtml: string,
+  focus: string,
+  { signal, onQueueStatus }: Pick<EditOptions, 'signal' | 'onQueueStatus'> = {}
+): Promise<ReviewComment[]> => {
+  const cited = buildCitedDocument(currentHtml);
+  console.log('🔍 Reviewing', cited.refs.size, 'blocks', cited.truncated ? '(truncated)' : '');
+
+  const reply = await generate({
+    systemInstruction: REVIEW_SYSTEM_INSTRUCTION,
+    userContent: `DOCUMENT:
+  ${cited.text}
+  ${cited.truncated ? '\n  (The document is longer - only the beginning is shown.)\n' : ''}
+  ${focus.trim() ? `FOCUS THE REVIEW ON: ${focus.trim()}` : 'Give a general review.'}`,
+    signal
+  }, undefined, onQueueStatus);
+
+  return parseReviewReply(reply, cited.refs);
+};
+
+export const generateImageForReport = async (prompt: string): Promise<string> => {
+  try {
+    const provider = getActiveProvider();
+    if (!provider.generateImage) {
+      throw new Error(`${provider.label} does not support image generation`);
+    }
+    const generateImage = provider.generateImage;
+    return await runQueued(() => generateImage(prompt));
   } catch (error) {
     console.error("Image Gen Error:", error);
     throw error;
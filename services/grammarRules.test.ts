@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { checkGrammar } from './grammarRules';
+
+// Each sentence with the rules that should flag it and the suggested replacement
+const CASES: { text: string; expected: { rule: string; text: string; suggestion: string }[] }[] = [
+  { text: 'The U.S. is big.', expected: [] },
+  { text: 'The meeting ends at 5 p.m. today.', expected: [] },
+  { text: 'See e.g. the appendix.', expected: [] },
+  { text: 'It ended. then it began.', expected: [{ rule: 'capitalization', text: 'then', suggestion: 'Then' }] },
+  { text: 'Appendix I has three parts.', expected: [] },
+  { text: 'and I has left.', expected: [{ rule: 'agreement', text: 'has', suggestion: 'have' }] },
+  { text: 'He have a plan.', expected: [{ rule: 'agreement', text: 'have', suggestion: 'has' }] },
+  { text: 'These is wrong.', expected: [{ rule: 'agreement', text: 'is', suggestion: 'are' }] },
+  { text: 'Each of these is important.', expected: [] },
+  { text: 'None of those has been tested.', expected: [] },
+  { text: 'Does it have a name?', expected: [] },
+  { text: 'Hello ,world', expected: [{ rule: 'space-before-punctuation', text: ' ,', suggestion: ', ' }] },
+  { text: 'Hello , world', expected: [{ rule: 'space-before-punctuation', text: ' ,', suggestion: ',' }] },
+  { text: 'Is it done ?', expected: [{ rule: 'space-before-punctuation', text: ' ?', suggestion: '?' }] },
+  { text: 'The ratio is 3 :1 overall.', expected: [] },
+  { text: 'Use the .docx format.', expected: [] },
+  { text: 'Hello,world', expected: [{ rule: 'space-after-punctuation', text: ',', suggestion: ', ' }] },
+  { text: 'This  is spaced.', expected: [{ rule: 'double-space', text: '  ', suggestion: ' ' }] },
+  { text: 'It was the the best.', expected: [{ rule: 'repeated-word', text: 'the the', suggestion: 'the' }] },
+  { text: 'He had had enough.', expected: [] },
+  { text: 'It is a apple and an university.', expected: [
+    { rule: 'article', text: 'a', suggestion: 'an' },
+    { rule: 'article', text: 'an', suggestion: 'a' }
+  ] },
+  { text: 'An hour and an FAQ.', expected: [] },
+  { text: 'Wait,, then stop.', expected: [{ rule: 'repeated-punctuation', text: ',,', suggestion: ',' }] },
+  { text: 'Visit www.example.com. then leave', expected: [{ rule: 'capitalization', text: 'then', suggestion: 'Then' }] }
+];
+
+describe('checkGrammar', () => {
+  it.each(CASES)('$text', ({ text, expected }) => {
+    const matches = checkGrammar(text).map(match => ({
+      rule: match.rule,
+      text: text.slice(match.start, match.end),
+      suggestion: match.suggestions[0]
+    }));
+    expect(matches).toEqual(expected);
+  });
+});
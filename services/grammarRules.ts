@@ -0,0 +1,210 @@
+// Rule-based grammar and punctuation checks for the offline proofing worker. Each rule
+// works on one block's plain text (lines separated by '\n') and reports character ranges
+// with a replacement, so no rule ever needs a model or a network connection.
+
+export interface GrammarMatch {
+  start: number;
+  end: number;
+  message: string;
+  suggestions: string[];
+  rule: string;
+}
+
+type GrammarRule = (text: string) => GrammarMatch[];
+
+// Links, e-mail addresses and file names are not prose
+const NON_PROSE_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+|\S+@\S+\.\w+|\b[\w-]+\.(?:com|org|net|edu|gov|io|pdf|docx?|xlsx?|pptx?|txt|csv|png|jpe?g)\b/gi;
+
+// Words before a full stop that don't end a sentence
+export const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'approx', 'al', 'cf', 'fig', 'figs', 'eq', 'no', 'vol', 'pp', 'p',
+  'ch', 'sec', 'dept', 'ca', 'incl', 'excl', 'resp', 'viz', 'ibid', 'mr', 'mrs', 'ms', 'dr', 'prof', 'st'
+]);
+
+// Words that legitimately repeat ("had had", "that that")
+const ALLOWED_REPEATS = new Set(['had', 'that', 'is', 'do']);
+
+// Vowel letters that sound like consonants, and silent h
+const CONSONANT_SOUND = /^(uni(?!mp|nf|nt|nh|ns|nv|nl)|use|usu|usa|uti|ure|uro|eu|ewe|one|once|ubiq)/i;
+const VOWEL_SOUND = /^(hour|honest|honou?r|heir)/i;
+
+// When the subject follows one of these, the verb after it is not a finite verb
+// ("does it have", "let them do", "will she have")
+const NON_FINITE_CONTEXT = new Set([
+  'does', 'did', 'do', 'will', 'would', 'can', 'could', 'should', 'shall', 'might', 'must', 'may',
+  'let', 'lets', 'make', 'makes', 'made', 'help', 'helps', 'helped', 'to', 'has', 'have', 'had', 'why', 'where', 'how', 'what'
+]);
+
+// "Each of these is", "none of those has": after "of" the pronoun isn't the subject - the
+// word before "of" is, and it can be singular
+const OBJECT_CONTEXT = new Set(['of']);
+
+const AGREEMENT: { subjects: RegExp; verbs: Record<string, string> }[] = [
+  { subjects: /^(he|she|it)$/i, verbs: { have: 'has', do: 'does', are: 'is', "don't": "doesn't" } },
+  { subjects: /^I$/, verbs: { is: 'am', has: 'have', does: 'do', "doesn't": "don't" } },
+  { subjects: /^(they|we|you)$/i, verbs: { is: 'are', was: 'were', has: 'have', does: 'do', "doesn't": "don't" } },
+  { subjects: /^(these|those)$/i, verbs: { is: 'are', was: 'were', has: 'have' } }
+];
+
+const matchAll = (text: string, pattern: RegExp, build: (match: RegExpExecArray) => GrammarMatch | null): GrammarMatch[] => {
+  const results: GrammarMatch[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const result = build(match);
+    if (result) results.push(result);
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return results;
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+const matchCase = (replacement: string, original: string) =>
+  /^\p{Lu}/u.test(original) ? capitalize(replacement) : replacement;
+
+const repeatedWords: GrammarRule = text =>
+  matchAll(text, /\b([A-Za-z']+)[ \t\u00a0]+\1\b/gi, match => {
+    if (ALLOWED_REPEATS.has(match[1].toLowerCase())) return null;
+    return {
+      start: match.index,
+      end: match.index + match[0].length,
+      message: `"${match[1]}" is repeated`,
+      suggestions: [match[1]],
+      rule: 'repeated-word'
+    };
+  });
+
+const articleAgreement: GrammarRule = text =>
+  matchAll(text, /\b(a|an)[ \t\u00a0]+([A-Za-z][A-Za-z'-]*)/gi, match => {
+    const [, article, word] = match;
+    // Acronyms are read letter by letter ("an FAQ", "a URL"), which spelling can't tell us
+    if (word.length < 2 || /^[A-Z0-9-]+$/.test(word)) return null;
+    // A capital "A" mid-sentence is a label ("Option A is"), not an article
+    if (article === 'A' && /[^.!?\n\s]\s*$/.test(text.slice(0, match.index))) return null;
+
+    const vowelSound = (/^[aeiou]/i.test(word) && !CONSONANT_SOUND.test(word)) || VOWEL_SOUND.test(word);
+    const expected = vowelSound ? 'an' : 'a';
+    if (article.toLowerCase() === expected) return null;
+    return {
+      start: match.index,
+      end: match.index + article.length,
+      message: vowelSound ? `Use "an" before a vowel sound` : `Use "a" before a consonant sound`,
+      suggestions: [matchCase(expected, article)],
+      rule: 'article'
+    };
+  });
+
+const subjectVerbAgreement: GrammarRule = text =>
+  matchAll(text, /\b(he|she|it|I|they|we|you|these|those)(?=([ \t\u00a0]+)([A-Za-z']+))/gi, match => {
+    const [, subject, gap, verb] = match;
+    const before = text.slice(0, match.index).match(/([A-Za-z']+)[ \t\u00a0]*$/);
+    if (before && (NON_FINITE_CONTEXT.has(before[1].toLowerCase()) || OBJECT_CONTEXT.has(before[1].toLowerCase()))) return null;
+    // After a capitalised word "I" is a label or numeral ("Appendix I has", "Part I was")
+    if (subject === 'I' && before && /^\p{Lu}/u.test(before[1])) return null;
+
+    const agreement = AGREEMENT.find(({ subjects }) => subjects.test(subject));
+    const replacement = agreement?.verbs[verb.toLowerCase()];
+    if (!replacement) return null;
+    const start = match.index + subject.length + gap.length;
+    return {
+      start,
+      end: start + verb.length,
+      message: `"${subject}" takes "${replacement}", not "${verb}"`,
+      suggestions: [matchCase(replacement, verb)],
+      rule: 'agreement'
+    };
+  });
+
+const spacing: GrammarRule = text => [
+  ...matchAll(text, /(?<=\S)[ \u00a0]{2,}(?=\S)/g, match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    message: 'More than one space between words',
+    suggestions: [' '],
+    rule: 'double-space'
+  })),
+  // "word ,next" has the space on the wrong side, so the suggestion moves it after the mark
+  ...matchAll(text, /(?<=[A-Za-z0-9)])[ \u00a0]+([,;:!?](?=[ \u00a0\n]|$|[A-Za-z])|\.(?=[ \u00a0\n]|$))/g, match => {
+    const end = match.index + match[0].length;
+    return {
+      start: match.index,
+      end,
+      message: 'No space before punctuation',
+      suggestions: [/[A-Za-z]/.test(text[end] || '') ? `${match[1]} ` : match[1]],
+      rule: 'space-before-punctuation'
+    };
+  }),
+  ...matchAll(text, /(?<=[a-z]{2})([,;]|[.!?](?=[A-Z][a-z]))(?=[A-Za-z])/g, match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    message: 'Missing space after punctuation',
+    suggestions: [`${match[1]} `],
+    rule: 'space-after-punctuation'
+  }))
+];
+
+const repeatedPunctuation: GrammarRule = text => [
+  ...matchAll(text, /([,;:])\1+/g, match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    message: 'Repeated punctuation',
+    suggestions: [match[1]],
+    rule: 'repeated-punctuation'
+  })),
+  ...matchAll(text, /(?<!\.)\.\.(?!\.)/g, match => ({
+    start: match.index,
+    end: match.index + 2,
+    message: 'Two full stops in a row',
+    suggestions: ['.', '...'],
+    rule: 'repeated-punctuation'
+  }))
+];
+
+const sentenceCapitalization: GrammarRule = text =>
+  matchAll(text, /([.!?])["')\]]?[ \u00a0]+([a-z][a-z']*)/g, match => {
+    const [, mark, word] = match;
+    if (mark === '.') {
+      const before = text.slice(0, match.index).match(/([A-Za-z.]+)$/);
+      if (text[match.index - 1] === '.' || /\d$/.test(text.slice(0, match.index))) return null;
+      // Abbreviations, initials and dotted initialisms ("U.S.", "p.m.")
+      if (before && (ABBREVIATIONS.has(before[1].toLowerCase()) || /^(?:[A-Za-z]\.)*[A-Za-z]$/.test(before[1]))) return null;
+    }
+    const start = match.index + match[0].length - word.length;
+    return {
+      start,
+      end: start + word.length,
+      message: 'Start a sentence with a capital letter',
+      suggestions: [capitalize(word)],
+      rule: 'capitalization'
+    };
+  });
+
+const RULES: GrammarRule[] = [repeatedWords, articleAgreement, subjectVerbAgreement, spacing, repeatedPunctuation, sentenceCapitalization];
+
+// Character ranges that aren't prose and should not be spell- or grammar-checked
+export const nonProseRanges = (text: string): [number, number][] =>
+  matchAll(text, NON_PROSE_PATTERN, match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    message: '',
+    suggestions: [],
+    rule: ''
+  })).map(({ start, end }) => [start, end]);
+
+export const overlapsRanges = (start: number, end: number, ranges: [number, number][]): boolean =>
+  ranges.some(([rangeStart, rangeEnd]) => start < rangeEnd && end > rangeStart);
+
+/**
+ * Runs every grammar rule over one block of text. Matches inside links and file names
+ * are dropped, and where two rules flag overlapping text only the first is kept.
+ */
+export const checkGrammar = (text: string): GrammarMatch[] => {
+  const skipped = nonProseRanges(text);
+  const matches = RULES.flatMap(rule => rule(text))
+    .filter(match => !overlapsRanges(match.start, match.end, skipped))
+    .sort((a, b) => a.start - b.start);
+
+  return matches.filter((match, index) =>
+    !matches.slice(0, index).some(earlier => match.start < earlier.end && match.end > earlier.start)
+  );
+};
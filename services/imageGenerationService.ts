@@ -0,0 +1,93 @@
+// AI image generation for the editor: candidate images for a prompt, a local history of
+// earlier prompts and results, and the HTML used to insert an image with its caption.
+import { generateImageForReport } from './geminiService';
+import { buildCaptionHtml, escapeHtml } from './editorCommands';
+import { GeneratedImage, ImageGeneration } from '../types';
+
+const HISTORY_STORAGE_KEY = 'reportremix.imageHistory';
+const MAX_HISTORY_ENTRIES = 12;
+
+// Inserted images fill most of the text column but never grow past a readable size
+const INSERTED_IMAGE_WIDTH = '70%';
+const INSERTED_IMAGE_MAX_WIDTH = '480px';
+
+const isImageGeneration = (value: any): value is ImageGeneration =>
+  !!value && typeof value.id === 'string' && typeof value.prompt === 'string' && Array.isArray(value.images);
+
+export const loadImageHistory = (): ImageGeneration[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isImageGeneration) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves the newest entries. Generated images are large data URLs, so when the browser's
+ * storage quota runs out the oldest entries are dropped until the rest fits.
+ */
+export const saveImageHistory = (history: ImageGeneration[]): ImageGeneration[] => {
+  let kept = history.slice(0, MAX_HISTORY_ENTRIES);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch {
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(HISTORY_STORAGE_KEY);
+  return kept;
+};
+
+// Image placeholder protection only recognises base64 data URLs, so remote URLs are inlined
+const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:image/')) return url;
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`❌ Could not download the generated image (${response.status})`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Asks the active provider for several candidate images for the same prompt. Every
+ * request goes through the request queue; candidates that fail are left out and the
+ * first error is reported alongside the ones that worked.
+ */
+export const generateImageCandidates = async (prompt: string, count: number): Promise<ImageGeneration> => {
+  console.log('🖼️ Generating', count, 'image candidate(s) for:', prompt);
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, async () => toDataUrl(await generateImageForReport(prompt)))
+  );
+
+  const images: GeneratedImage[] = results
+    .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+    .map(result => ({ url: result.value, prompt }));
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    prompt,
+    createdAt: Date.now(),
+    images,
+    error: failure ? (failure.reason instanceof Error ? failure.reason.message : String(failure.reason)) : undefined
+  };
+};
+
+/**
+ * Top-level blocks for an inserted image: a centred image wrapper (the same shape the
+ * AI uses when it aligns images) and, if given, an italic caption paragraph under it.
+ */
+export const buildGeneratedImageHtml = (image: GeneratedImage, caption: string): string => {
+  const alt = escapeHtml(caption.trim() || image.prompt);
+  const imageHtml = `<div style="text-align: center;"><img src="${image.url}" alt="${alt}" style="display: inline-block; width: ${INSERTED_IMAGE_WIDTH}; max-width: ${INSERTED_IMAGE_MAX_WIDTH}; height: auto;"></div>`;
+  const captionHtml = caption.trim() ? buildCaptionHtml(caption) : '';
+  return imageHtml + captionHtml;
+};
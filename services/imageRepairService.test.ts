@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { formatImageRepairReport, hasImageRepairs, repairImagePlaceholders } from './imageRepairService';
+
+const img = (index: number) => `<img src="__IMG_PLACEHOLDER_${index}__">`;
+const sent = `<p data-block-id="A">Intro</p><p data-block-id="B" style="text-align: center;">${img(0)}</p>` +
+  `<p data-block-id="C">${img(1)}Caption</p><p data-block-id="D">End</p>`;
+
+describe('repairImagePlaceholders', () => {
+  it('leaves a reply with every image exactly once alone', () => {
+    const { html, report } = repairImagePlaceholders(sent, sent);
+    expect(html).toBe(sent);
+    expect(hasImageRepairs(report)).toBe(false);
+  });
+
+  it('puts an image block back after its nearest surviving neighbour', () => {
+    const returned = `<p data-block-id="A">Intro, edited</p><p data-block-id="C">${img(1)}Caption</p><p data-block-id="D">End</p>`;
+    const { html, report } = repairImagePlaceholders(sent, returned);
+    expect(html).toBe(`<p data-block-id="A">Intro, edited</p><p data-block-id="B" style="text-align: center;">${img(0)}</p>` +
+      `<p data-block-id="C">${img(1)}Caption</p><p data-block-id="D">End</p>`);
+    expect(report.restored).toEqual(['__IMG_PLACEHOLDER_0__']);
+  });
+
+  it('puts an image back inside its paragraph when only the image was dropped', () => {
+    const returned = `<p data-block-id="A">Intro</p><p data-block-id="B" style="text-align: center;">${img(0)}</p>` +
+      '<p data-block-id="C">New caption</p><p data-block-id="D">End</p>';
+    expect(repairImagePlaceholders(sent, returned).html).toContain(`<p data-block-id="C">${img(1)}New caption</p>`);
+  });
+
+  it('removes duplicates and placeholders the model made up', () => {
+    const returned = `${sent}<p>${img(0)}</p><p>${img(7)}</p>`;
+    const { html, report } = repairImagePlaceholders(sent, returned);
+    expect(html).toBe(sent);
+    expect(report).toEqual({ restored: [], duplicatesRemoved: ['__IMG_PLACEHOLDER_0__'], inventedRemoved: ['__IMG_PLACEHOLDER_7__'] });
+  });
+
+  it('does not expect images back from blocks that were deleted on purpose', () => {
+    const returned = `<p data-block-id="A">Intro</p><p data-block-id="C">${img(1)}Caption</p><p data-block-id="D">End</p>`;
+    expect(hasImageRepairs(repairImagePlaceholders(sent, returned, ['B']).report)).toBe(false);
+  });
+});
+
+describe('formatImageRepairReport', () => {
+  it('describes each repair', () => {
+    const text = formatImageRepairReport({ restored: ['__IMG_PLACEHOLDER_0__'], duplicatesRemoved: [], inventedRemoved: ['__IMG_PLACEHOLDER_7__'] });
+    expect(text).toContain('Put back 1 missing image (image 1) where it was');
+    expect(text).toContain("Removed 1 image reference that didn't exist in the document");
+  });
+});
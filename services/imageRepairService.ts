@@ -0,0 +1,191 @@
+// Image placeholder repair: after every AI reply, make sure each image we sent comes back
+// exactly once. Missing images are put back where they were, duplicates and placeholders
+// the model made up are removed, and everything is reported so the user knows.
+import { BLOCK_ID_ATTR } from './blockService';
+
+export interface ImageRepairReport {
+  restored: string[]; // Placeholder keys that were missing and have been reinserted
+  duplicatesRemoved: string[];
+  inventedRemoved: string[];
+}
+
+const PLACEHOLDER_PATTERN = /^__IMG_PLACEHOLDER_(\d+)__$/;
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+const placeholderImages = (container: HTMLElement): HTMLImageElement[] =>
+  Array.from(container.querySelectorAll('img')).filter(img => PLACEHOLDER_PATTERN.test(img.getAttribute('src') || ''));
+
+const topLevelBlock = (node: Element, container: HTMLElement): Element | null => {
+  let block: Element | null = node;
+  while (block && block.parentElement !== container) {
+    block = block.parentElement;
+  }
+  return block;
+};
+
+const findBlockById = (container: HTMLElement, blockId: string | null): Element | undefined =>
+  blockId ? Array.from(container.children).find(child => child.getAttribute(BLOCK_ID_ATTR) === blockId) : undefined;
+
+const isEmptyBlock = (block: Element) =>
+  !block.textContent?.trim() && !block.querySelector('img, table, hr');
+
+// Removes an image, and its wrapper too when the wrapper held nothing else
+const removeImage = (img: HTMLImageElement, container: HTMLElement) => {
+  const block = topLevelBlock(img, container);
+  img.remove();
+  if (block && block !== img && isEmptyBlock(block)) {
+    block.remove();
+  }
+};
+
+// True when the image sits before the first bit of text in its block
+const isBeforeText = (img: Element, block: Element): boolean => {
+  const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode();
+  while (node && !node.textContent?.trim()) {
+    node = walker.nextNode();
+  }
+  return !node || !!(img.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING);
+};
+
+/**
+ * Puts a missing image back. If its paragraph survived, the image goes back inside it;
+ * otherwise the image (with its alignment wrapper) is inserted after the nearest preceding
+ * block that still exists, or before the nearest following one.
+ */
+const restoreImage = (key: string, sent: HTMLElement, returned: HTMLElement) => {
+  const img = sent.querySelector(`img[src="${key}"]`);
+  const block = img && topLevelBlock(img, sent);
+  if (!img || !block) return;
+
+  const blockId = block.getAttribute(BLOCK_ID_ATTR);
+  const existing = findBlockById(returned, blockId);
+  const hasText = !!block.textContent?.trim();
+
+  if (existing && hasText) {
+    const clone = img.cloneNode(true);
+    if (isBeforeText(img, block)) {
+      existing.prepend(clone);
+    } else {
+      existing.append(clone);
+    }
+    return;
+  }
+
+  // Don't duplicate the paragraph's text - bring back just the image in a paragraph of its own
+  let restored: Element;
+  if (hasText) {
+    restored = returned.ownerDocument.createElement('p');
+    restored.append(img.cloneNode(true));
+  } else {
+    restored = block.cloneNode(true) as Element;
+  }
+
+  if (existing) {
+    existing.replaceWith(restored);
+    return;
+  }
+
+  for (let sibling = block.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    const anchor = findBlockById(returned, sibling.getAttribute(BLOCK_ID_ATTR));
+    if (anchor) {
+      anchor.after(restored);
+      return;
+    }
+  }
+  for (let sibling = block.nextElementSibling; sibling; sibling = sibling.nextElementSibling) {
+    const anchor = findBlockById(returned, sibling.getAttribute(BLOCK_ID_ATTR));
+    if (anchor) {
+      anchor.before(restored);
+      return;
+    }
+  }
+
+  // No neighbour survived - keep it at the same end of the document it was at
+  const index = Array.from(sent.children).indexOf(block);
+  if (index < sent.children.length / 2) {
+    returned.prepend(restored);
+  } else {
+    returned.append(restored);
+  }
+};
+
+export const hasImageRepairs = (report: ImageRepairReport): boolean =>
+  report.restored.length + report.duplicatesRemoved.length + report.inventedRemoved.length > 0;
+
+/**
+ * Compares the image placeholders in the HTML we sent with the ones the model returned
+ * (both still in placeholder form) and repairs the returned HTML. Images in blocks the
+ * model deleted on purpose (patch "delete" operations) are not expected back.
+ */
+export const repairImagePlaceholders = (
+  sentHtml: string,
+  returnedHtml: string,
+  removedBlockIds: string[] = []
+): { html: string; report: ImageRepairReport } => {
+  const report: ImageRepairReport = { restored: [], duplicatesRemoved: [], inventedRemoved: [] };
+  const sent = parseContainer(sentHtml);
+  const returned = parseContainer(returnedHtml);
+  if (!sent || !returned) return { html: returnedHtml, report };
+
+  const removed = new Set(removedBlockIds);
+  Array.from(sent.children).forEach(child => {
+    if (removed.has(child.getAttribute(BLOCK_ID_ATTR) || '')) child.remove();
+  });
+
+  const expected = placeholderImages(sent).map(img => img.getAttribute('src') || '');
+  const expectedSet = new Set(expected);
+  const seen = new Set<string>();
+
+  placeholderImages(returned).forEach(img => {
+    const key = img.getAttribute('src') || '';
+    if (!expectedSet.has(key)) {
+      removeImage(img, returned);
+      report.inventedRemoved.push(key);
+    } else if (seen.has(key)) {
+      removeImage(img, returned);
+      report.duplicatesRemoved.push(key);
+    } else {
+      seen.add(key);
+    }
+  });
+
+  expected.filter(key => !seen.has(key)).forEach(key => {
+    restoreImage(key, sent, returned);
+    report.restored.push(key);
+  });
+
+  if (!hasImageRepairs(report)) return { html: returnedHtml, report };
+  console.warn('🖼️ Repaired image placeholders:', report);
+  return { html: returned.innerHTML, report };
+};
+
+// "Image 3" reads better in the chat than the placeholder key
+const imageLabel = (key: string): string => {
+  const match = key.match(PLACEHOLDER_PATTERN);
+  return match ? `image ${Number(match[1]) + 1}` : key;
+};
+
+const describe = (count: number, singular: string, plural: string) => `${count} ${count === 1 ? singular : plural}`;
+
+/**
+ * Markdown summary of the repairs for the chat.
+ */
+export const formatImageRepairReport = (report: ImageRepairReport): string => {
+  const lines: string[] = [];
+  if (report.restored.length > 0) {
+    lines.push(`- Put back ${describe(report.restored.length, 'missing image', 'missing images')} (${report.restored.map(imageLabel).join(', ')}) where ${report.restored.length === 1 ? 'it was' : 'they were'}`);
+  }
+  if (report.duplicatesRemoved.length > 0) {
+    lines.push(`- Removed ${describe(report.duplicatesRemoved.length, 'duplicate copy', 'duplicate copies')} of ${Array.from(new Set(report.duplicatesRemoved)).map(imageLabel).join(', ')}`);
+  }
+  if (report.inventedRemoved.length > 0) {
+    lines.push(`- Removed ${describe(report.inventedRemoved.length, 'image reference', 'image references')} that didn't exist in the document`);
+  }
+  return `🖼️ The AI mishandled some images, so I repaired them:\n\n${lines.join('\n')}`;
+};
@@ -0,0 +1,367 @@
+// Deterministic page layout commands ("abstract on page 2, introduction from page 4"):
+// parsed locally, applied by inserting or removing page breaks before the named sections,
+// and checked against the real pagination. Requests it can't parse still go to the model.
+import { BLOCK_ID_ATTR, ensureBlockIds, isPageBreakElement } from './blockService';
+import { paginateHtml } from './docService';
+
+// Same marker the editor uses when it joins pages
+const PAGE_BREAK_HTML = '<div style="page-break-before: always; break-before: page;"></div>';
+
+// Short paragraphs can act as headings (Word "Title" styles, bold one-liners)
+const MAX_HEADING_LIKE_CHARS = 80;
+// Long requests are edits that happen to mention a page, not layout commands
+const MAX_LAYOUT_PROMPT_CHARS = 300;
+
+export type LayoutInstruction =
+  | { kind: 'page'; section: string; page: number } // "abstract on page 2", "introduction from page 4 onwards"
+  | { kind: 'new_page'; section: string } // "start the conclusion on a new page"
+  | { kind: 'remove_break'; section: string } // "remove the page break before references"
+  | { kind: 'remove_all_breaks' };
+
+export interface LayoutCommandResult {
+  html: string;
+  summary: string;
+  changed: boolean;
+}
+
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+const ORDINAL_WORDS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth', 'eleventh', 'twelfth'];
+
+const PAGE_NUMBER = `(\\d+|${NUMBER_WORDS.join('|')})`;
+const PAGE_ORDINAL = `(\\d+(?:st|nd|rd|th)|${ORDINAL_WORDS.join('|')})`;
+// "page 2", "page two", "the second page", "the 2nd page"
+const PAGE_REF = `(?:the\\s+)?(?:page\\s+${PAGE_NUMBER}|${PAGE_ORDINAL}\\s+page)`;
+
+const REMOVE_BREAK = /^(?:remove|delete|take out|get rid of|drop)\s+(?:the\s+|all\s+(?:the\s+)?|any\s+)?page\s*-?\s*breaks?(?:\s+(?:before|above|ahead of|in front of)\s+(.+))?$/;
+const INSERT_BREAK = /^(?:insert|add|put)\s+(?:a\s+)?page\s*-?\s*break\s+(?:before|above|ahead of|in front of)\s+(.+)$/;
+const NEW_PAGE = /^(?:(?:start|begin|put|move|place|have)\s+)?(.+?)\s+(?:(?:should|must|needs to|to)\s+)?(?:(?:start|begin|go|be|appear)s?\s+)?on\s+(?:a\s+)?(?:new|separate|fresh|its own|their own)\s+page$/;
+const ON_PAGE = new RegExp(
+  `^(?:(?:start|begin|put|move|place|have|keep)\\s+)?(.+?)\\s+(?:(?:should|must|needs to|has to|will|to)\\s+)?(?:(?:start|begin|be|go|appear|sit|come|continue)s?\\s+)?(?:on|at|from|to|onto|in)\\s+${PAGE_REF}(?:\\s+(?:and\\s+)?onwards?)?$`
+);
+// "page 2 should be the abstract", "page 3: contents"
+const PAGE_IS = new RegExp(`^${PAGE_REF}\\s*(?:should be|must be|is|will be|has|for|:|-|=)\\s*(.+)$`);
+
+const LEADING_FILLER = /^(?:please|pls|kindly|ok|okay|now|then|also|and|so|can you|could you|would you|will you|i want|i'd like|i would like|make sure|ensure that|ensure|let's|lets)\b[\s,]*/;
+
+const parsePageNumber = (number?: string, ordinal?: string): number => {
+  if (number) return /^\d+$/.test(number) ? Number(number) : NUMBER_WORDS.indexOf(number) + 1;
+  if (ordinal) return /^\d/.test(ordinal) ? parseInt(ordinal, 10) : ORDINAL_WORDS.indexOf(ordinal) + 1;
+  return 0;
+};
+
+// "the introduction section onwards" -> "introduction". A name that still mentions a
+// page swallowed a second instruction ("abstract to page 2 and start the conclusion")
+const cleanSectionName = (name: string): string => {
+  const section = name
+    .replace(/["'“”‘’]/g, '')
+    .replace(/^(?:the|my|our|this)\s+/, '')
+    .replace(/^(?:section|heading)\s+(?=\D)/, '')
+    .replace(/\s+(?:and\s+)?(?:everything|all)\s+(?:after(?:\s+it)?|that follows)$/, '')
+    .replace(/\s+(?:and\s+)?onwards?$/, '')
+    .replace(/\s+(?:section|heading|part)$/, '')
+    .trim();
+  return /\bpages?\b/.test(section) ? '' : section;
+};
+
+const parseClause = (clause: string): LayoutInstruction | null => {
+  let text = clause.trim();
+  let previous = '';
+  while (text !== previous) {
+    previous = text;
+    text = text.replace(LEADING_FILLER, '').replace(/\s+please$/, '').trim();
+  }
+  if (!text) return null;
+
+  const remove = REMOVE_BREAK.exec(text);
+  if (remove) {
+    if (!remove[1]) return { kind: 'remove_all_breaks' };
+    const section = cleanSectionName(remove[1]);
+    return section ? { kind: 'remove_break', section } : null;
+  }
+
+  const insert = INSERT_BREAK.exec(text) || NEW_PAGE.exec(text);
+  if (insert) {
+    const section = cleanSectionName(insert[1]);
+    return section ? { kind: 'new_page', section } : null;
+  }
+
+  const onPage = ON_PAGE.exec(text);
+  if (onPage) {
+    const section = cleanSectionName(onPage[1]);
+    const page = parsePageNumber(onPage[2], onPage[3]);
+    return section && page > 0 ? { kind: 'page', section, page } : null;
+  }
+
+  const pageIs = PAGE_IS.exec(text);
+  if (pageIs) {
+    const section = cleanSectionName(pageIs[3]);
+    const page = parsePageNumber(pageIs[1], pageIs[2]);
+    return section && page > 0 ? { kind: 'page', section, page } : null;
+  }
+
+  return null;
+};
+
+// "and" also appears inside section names ("Results and Discussion"), so it only splits
+// the request when both sides parse on their own
+const parseClauses = (text: string): LayoutInstruction[] | null => {
+  const whole = parseClause(text);
+  if (whole) return [whole];
+
+  const separator = /\s+and\s+/g;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    const first = parseClause(text.slice(0, match.index));
+    if (!first) continue;
+    const rest = parseClauses(text.slice(match.index + match[0].length));
+    if (rest) return [first, ...rest];
+  }
+  return null;
+};
+
+/**
+ * Parses a chat request into layout instructions. Returns null unless every part of
+ * the request is a layout instruction, so mixed requests ("move the abstract to page 2
+ * and shorten it") go to the model.
+ */
+export const parseLayoutCommand = (prompt: string): LayoutInstruction[] | null => {
+  const text = prompt.trim().toLowerCase().replace(/[.!]+$/, '');
+  if (!text || text.length > MAX_LAYOUT_PROMPT_CHARS || !/\bpage/.test(text)) return null;
+
+  const instructions: LayoutInstruction[] = [];
+  for (const part of text.split(/\s*(?:[;,\n]|\.\s|\bthen\b)\s*/).filter(Boolean)) {
+    const parsed = parseClauses(part);
+    if (!parsed) return null;
+    instructions.push(...parsed);
+  }
+  return instructions.length > 0 ? instructions : null;
+};
+
+// Alternative titles for the sections reports usually have
+const SECTION_ALIASES: Record<string, string[]> = {
+  contents: ['table of contents', 'toc'],
+  'table of contents': ['contents', 'toc'],
+  toc: ['table of contents', 'contents'],
+  references: ['bibliography', 'works cited'],
+  bibliography: ['references'],
+  acknowledgements: ['acknowledgments', 'acknowledgement', 'acknowledgment'],
+  acknowledgments: ['acknowledgements', 'acknowledgement', 'acknowledgment'],
+  appendix: ['appendices'],
+  appendices: ['appendix'],
+  conclusion: ['conclusions'],
+  conclusions: ['conclusion'],
+  summary: ['executive summary']
+};
+
+const normalizeTitle = (text: string): string =>
+  text.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "1.2 Introduction" / "Chapter 3: Results" -> "introduction" / "results"
+const stripNumbering = (title: string): string =>
+  title.replace(/^(?:(?:chapter|section|part)\s+(?:\d+|[ivxlc]+)|\d+(?:\s+\d+)*)\s+/, '');
+
+const titleScore = (title: string, names: string[]): number => {
+  const variants = [title, stripNumbering(title)];
+  let best = 0;
+  names.forEach(name => {
+    variants.forEach(variant => {
+      if (variant === name) best = Math.max(best, 4);
+      else if (variant.startsWith(`${name} `)) best = Math.max(best, 3);
+      else if (variant.endsWith(` ${name}`)) best = Math.max(best, 2);
+      else if (` ${variant} `.includes(` ${name} `)) best = Math.max(best, 1);
+    });
+  });
+  return best;
+};
+
+/**
+ * Finds the top-level block that starts a section by its title. Real headings win
+ * over short heading-like paragraphs; ties go to the first one in the document.
+ */
+const findSection = (blocks: Element[], section: string): Element | null => {
+  const name = normalizeTitle(section);
+  if (!name) return null;
+  const names = [name, ...(SECTION_ALIASES[name] || [])];
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  blocks.forEach(block => {
+    const text = (block.textContent || '').replace(/\s+/g, ' ').trim();
+    const isHeading = /^H[1-6]$/.test(block.tagName);
+    if (!text || (!isHeading && (text.length > MAX_HEADING_LIKE_CHARS || !/^(P|DIV)$/.test(block.tagName)))) return;
+
+    const score = titleScore(normalizeTitle(text), names) * 2 + (isHeading ? 1 : 0);
+    if (score > 1 && score > bestScore) {
+      best = block;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const sectionLabel = (block: Element): string => {
+  const text = (block.textContent || '').replace(/\s+/g, ' ').trim();
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+const contentBlocks = (container: HTMLElement): Element[] =>
+  Array.from(container.children).filter(child => !isPageBreakElement(child));
+
+const createBreak = (container: HTMLElement): Element => {
+  const template = container.ownerDocument.createElement('template');
+  template.innerHTML = PAGE_BREAK_HTML;
+  return template.content.firstElementChild as Element;
+};
+
+const isBlankPage = (element: Element): boolean =>
+  element.tagName === 'P' && !element.textContent?.trim() && !element.querySelector('img, table') &&
+  !!element.previousElementSibling && isPageBreakElement(element.previousElementSibling);
+
+// Removes the page breaks directly above a block, including blank pages padded between them
+const removeBreaksBefore = (block: Element): number => {
+  let removed = 0;
+  let previous = block.previousElementSibling;
+  while (previous && (isPageBreakElement(previous) || (removed > 0 && isBlankPage(previous)))) {
+    const next = previous.previousElementSibling;
+    if (isPageBreakElement(previous)) removed++;
+    previous.remove();
+    previous = next;
+  }
+  return removed;
+};
+
+const pageOf = async (container: HTMLElement, blockId: string): Promise<number> => {
+  const pages = await paginateHtml(container.innerHTML);
+  return pages.findIndex(page => page.includes(`${BLOCK_ID_ATTR}="${blockId}"`)) + 1;
+};
+
+interface ResolvedTarget {
+  block: Element;
+  blockId: string;
+  page?: number; // Undefined for "on a new page"
+}
+
+/**
+ * Applies a layout request to the document without the model. Returns null when the
+ * request isn't a layout command or names a section the document doesn't have, so the
+ * caller can fall back to the model. Every requested page is checked against the same
+ * pagination the editor uses; blank pages are added when the content before a section
+ * is too short, and the summary says when a section can't land where it was asked to.
+ */
+export const applyLayoutCommand = async (html: string, prompt: string): Promise<LayoutCommandResult | null> => {
+  const instructions = parseLayoutCommand(prompt);
+  if (!instructions) return null;
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${ensureBlockIds(html)}</div>`, 'text/html');
+  const container = doc.querySelector('div');
+  if (!container) return null;
+  const originalHtml = container.innerHTML;
+
+  const blocks = contentBlocks(container);
+  const resolved = instructions.map(instruction =>
+    instruction.kind === 'remove_all_breaks' ? null : findSection(blocks, instruction.section)
+  );
+  if (instructions.some((instruction, index) => instruction.kind !== 'remove_all_breaks' && !resolved[index])) {
+    console.log('📐 Layout command names a section the document does not have - asking the model');
+    return null;
+  }
+  console.log('📐 Applying layout command locally:', instructions);
+
+  const lines: string[] = [];
+  const targets = new Map<string, ResolvedTarget>();
+
+  instructions.forEach((instruction, index) => {
+    const block = resolved[index];
+    if (instruction.kind === 'remove_all_breaks') {
+      const breaks = Array.from(container.children).filter(isPageBreakElement);
+      breaks.forEach(element => element.remove());
+      lines.push(`Removed ${breaks.length} page ${breaks.length === 1 ? 'break' : 'breaks'}.`);
+      return;
+    }
+    if (!block) return;
+
+    const blockId = block.getAttribute(BLOCK_ID_ATTR) || '';
+    if (instruction.kind === 'remove_break') {
+      const removed = removeBreaksBefore(block);
+      targets.delete(blockId);
+      lines.push(removed > 0
+        ? `Removed the page break before **${sectionLabel(block)}**.`
+        : `There was no page break before **${sectionLabel(block)}**.`);
+      return;
+    }
+    // A later instruction for the same section replaces an earlier one
+    targets.set(blockId, { block, blockId, page: instruction.kind === 'page' ? instruction.page : undefined });
+  });
+
+  // Earlier sections move everything after them, so place targets in document order
+  const position = new Map(blocks.map((block, index) => [block, index]));
+  const ordered = Array.from(targets.values()).sort((a, b) => (position.get(a.block) ?? 0) - (position.get(b.block) ?? 0));
+
+  let previousTarget: Element | null = null;
+  for (const target of ordered) {
+    const { block, blockId, page } = target;
+    const label = sectionLabel(block);
+    removeBreaksBefore(block);
+
+    const isFirst = contentBlocks(container)[0] === block;
+    if (!isFirst) {
+      block.before(createBreak(container));
+    }
+
+    if (page === undefined) {
+      lines.push(isFirst
+        ? `**${label}** is already at the top of the document.`
+        : `**${label}** now starts on a new page (page ${await pageOf(container, blockId)}).`);
+      previousTarget = block;
+      continue;
+    }
+
+    let actual = await pageOf(container, blockId);
+
+    // Too late: let the content since the previous placed section flow freely
+    if (actual > page && !isFirst) {
+      let element = block.previousElementSibling?.previousElementSibling || null;
+      while (element && element !== previousTarget) {
+        const next = element.previousElementSibling;
+        if (isPageBreakElement(element)) element.remove();
+        element = next;
+      }
+      actual = await pageOf(container, blockId);
+    }
+
+    // Too early: pad with blank pages
+    if (actual < page && !isFirst) {
+      const breakBefore = block.previousElementSibling as Element;
+      for (let i = actual; i < page; i++) {
+        breakBefore.before(createBreak(container));
+        // A blank page needs some content or the paginator skips it
+        const blank = doc.createElement('p');
+        blank.appendChild(doc.createElement('br'));
+        breakBefore.before(blank);
+      }
+      actual = await pageOf(container, blockId);
+    }
+
+    if (actual === page) {
+      lines.push(`**${label}** now starts on page ${page}.`);
+    } else if (isFirst) {
+      lines.push(`⚠️ **${label}** is the first thing in the document, so it stays on page 1.`);
+    } else if (actual > page) {
+      lines.push(`⚠️ **${label}** starts on page ${actual}: the content before it fills more than ${page - 1} ${page - 1 === 1 ? 'page' : 'pages'}.`);
+    } else {
+      lines.push(`⚠️ **${label}** starts on page ${actual} instead of page ${page}.`);
+    }
+    previousTarget = block;
+  }
+
+  const result = ensureBlockIds(container.innerHTML);
+  const changed = container.innerHTML !== originalHtml;
+  return {
+    html: result,
+    summary: changed
+      ? `📐 Updated the page layout:\n\n${lines.map(line => `- ${line}`).join('\n')}`
+      : `📐 The layout already matches:\n\n${lines.map(line => `- ${line}`).join('\n')}`,
+    changed
+  };
+};
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { applyPatch, DOCUMENT_START, parsePatchResponse, replaceBlocks, validatePatch } from './patchService';
+import { estimateTokens, splitIntoChunks } from './chunkService';
+
+const doc = '<p data-block-id="A">a</p><p data-block-id="B">b</p><p data-block-id="C">c</p>';
+
+describe('parsePatchResponse', () => {
+  it('reads a bare array and an object with operations, with or without code fences', () => {
+    expect(parsePatchResponse('[{"op":"delete","blockId":"A"}]')).toEqual([{ op: 'delete', blockId: 'A' }]);
+    expect(parsePatchResponse('```json\n{"summary":"x","operations":[{"type":"replace-block","block_id":"B","html":"<p>b</p>"}]}\n```'))
+      .toEqual([{ op: 'replace', blockId: 'B', html: '<p>b</p>' }]);
+  });
+
+  it('rejects replies that are not a patch or contain a malformed operation', () => {
+    expect(parsePatchResponse('<p>Just HTML</p>')).toBeNull();
+    expect(parsePatchResponse('{"operations": "none"}')).toBeNull();
+    expect(parsePatchResponse('[{"op":"replace","blockId":"A"}]')).toBeNull();
+    expect(parsePatchResponse('[{"op":"move","blockId":"A"}]')).toBeNull();
+  });
+});
+
+describe('validatePatch', () => {
+  it('accepts operations on existing blocks and chained inserts', () => {
+    expect(validatePatch(doc, [
+      { op: 'insert_after', blockId: 'A', html: '<p data-block-id="N">new</p>' },
+      { op: 'insert_after', blockId: 'N', html: '<p>newer</p>' },
+      { op: 'insert_after', blockId: DOCUMENT_START, html: '<h1>Title</h1>' },
+      { op: 'set_style', blockId: 'C', style: { textAlign: 'center' } }
+    ])).toEqual([]);
+  });
+
+  it('reports unknown and deleted targets and empty content', () => {
+    expect(validatePatch(doc, [
+      { op: 'replace', blockId: 'X', html: '<p>x</p>' },
+      { op: 'delete', blockId: 'B' },
+      { op: 'set_style', blockId: 'B', style: { color: 'red' } },
+      { op: 'replace', blockId: 'C', html: '  ' }
+    ])).toEqual([
+      'Operation 1 (replace X): unknown block',
+      'Operation 3 (set_style B): block was already deleted',
+      'Operation 4 (replace C): no block content (use delete to remove a block)'
+    ]);
+  });
+});
+
+describe('applyPatch', () => {
+  it('runs operations in order', () => {
+    const result = applyPatch(doc, [
+      { op: 'replace', blockId: 'A', html: '<h2>A2</h2>' },
+      { op: 'insert_after', blockId: 'A', html: '<p data-block-id="N">new</p>' },
+      { op: 'delete', blockId: 'B' },
+      { op: 'insert_after', blockId: DOCUMENT_START, html: '<h1>Top</h1>' },
+      { op: 'set_style', blockId: 'C', style: { textAlign: 'center' } }
+    ]);
+    expect(result).toBe(
+      '<h1>Top</h1><h2 data-block-id="A">A2</h2><p data-block-id="N">new</p><p data-block-id="C" style="text-align: center;">c</p>'
+    );
+  });
+
+  it('removes a style property given an empty value', () => {
+    const styled = '<p data-block-id="A" style="color: red; text-align: center;">a</p>';
+    expect(applyPatch(styled, [{ op: 'set_style', blockId: 'A', style: { color: '' } }]))
+      .toBe('<p data-block-id="A" style="text-align: center;">a</p>');
+  });
+
+  it('skips operations whose target is gone', () => {
+    expect(applyPatch(doc, [{ op: 'delete', blockId: 'X' }])).toBe(doc);
+  });
+});
+
+describe('replaceBlocks', () => {
+  it('replaces every block of the run when the new HTML keeps the block ids', () => {
+    const result = replaceBlocks(doc, ['A', 'B'], '<p data-block-id="A">A2</p><p data-block-id="B">B2</p>');
+    expect(result).toBe('<p data-block-id="A">A2</p><p data-block-id="B">B2</p><p data-block-id="C">c</p>');
+  });
+
+  it('gives the first new block the id of the first old one when the ids were stripped', () => {
+    const result = replaceBlocks(doc, ['B', 'C'], '<p>B2</p><p>C2</p>');
+    expect(result).toBe('<p data-block-id="A">a</p><p data-block-id="B">B2</p><p>C2</p>');
+  });
+
+  it('merges a run into one block', () => {
+    const result = replaceBlocks(doc, ['A', 'B', 'C'], '<p data-block-id="A">a b c</p>');
+    expect(result).toBe('<p data-block-id="A">a b c</p>');
+  });
+
+  it('splits a block into several', () => {
+    const result = replaceBlocks(doc, ['B'], '<p data-block-id="B">b1</p><p>b2</p>');
+    expect(result).toBe('<p data-block-id="A">a</p><p data-block-id="B">b1</p><p>b2</p><p data-block-id="C">c</p>');
+  });
+
+  it('leaves the document alone for an empty run', () => {
+    expect(replaceBlocks(doc, [], '<p>x</p>')).toBe(doc);
+  });
+});
+
+describe('retrying a chunk', () => {
+  it('splices the whole edited chunk back in place', () => {
+    const one = '<h1 data-block-id="H1">One</h1><p data-block-id="P1">first</p>';
+    const two = '<h1 data-block-id="H2">Two</h1><p data-block-id="P2">second</p><p data-block-id="P3">third</p>';
+    const html = one + two;
+    // A budget that fits each section but not both, so the second one is a chunk of its own
+    const chunks = splitIntoChunks(html, estimateTokens(two));
+    const chunk = chunks.find(candidate => candidate.blockIds.includes('P2'))!;
+    expect(chunk.blockIds).toEqual(['H2', 'P2', 'P3']);
+
+    // The model returns the chunk with every block id kept
+    const edited = chunk.html.replace('second', 'SECOND').replace('third', 'THIRD');
+    expect(replaceBlocks(html, chunk.blockIds, edited)).toBe(
+      `${one}<h1 data-block-id="H2">Two</h1><p data-block-id="P2">SECOND</p><p data-block-id="P3">THIRD</p>`
+    );
+  });
+});
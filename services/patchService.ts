@@ -0,0 +1,204 @@
+// Patch-based AI edits: the model returns a small list of operations addressed to
+// block identifiers instead of regenerating the whole document.
+import { BLOCK_ID_ATTR } from './blockService';
+
+export type PatchOperation =
+  | { op: 'replace'; blockId: string; html: string }
+  | { op: 'insert_after'; blockId: string; html: string }
+  | { op: 'delete'; blockId: string }
+  | { op: 'set_style'; blockId: string; style: Record<string, string> };
+
+// Special target for insert_after that means "at the very top of the document"
+export const DOCUMENT_START = 'START';
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+const normalizeOperation = (raw: any): PatchOperation | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const op = String(raw.op || raw.type || '').toLowerCase().replace(/[-\s]/g, '_');
+  const blockId = raw.blockId ?? raw.block_id ?? raw.id;
+  if (typeof blockId !== 'string' || !blockId) return null;
+
+  switch (op) {
+    case 'replace':
+    case 'replace_block':
+      return typeof raw.html === 'string' ? { op: 'replace', blockId, html: raw.html } : null;
+    case 'insert_after':
+    case 'insert':
+      return typeof raw.html === 'string' ? { op: 'insert_after', blockId, html: raw.html } : null;
+    case 'delete':
+    case 'remove':
+      return { op: 'delete', blockId };
+    case 'set_style':
+    case 'style':
+      if (!raw.style || typeof raw.style !== 'object') return null;
+      return { op: 'set_style', blockId, style: raw.style };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Extracts the operation list from the model's reply. Accepts either a bare JSON
+ * array or an object with an "operations" array, optionally wrapped in code fences.
+ * Returns null when the reply isn't a patch at all.
+ */
+export const parsePatchResponse = (text: string): PatchOperation[] | null => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const start = cleaned.search(/[\[{]/);
+  if (start === -1) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleaned.slice(start));
+  } catch {
+    return null;
+  }
+
+  const rawOps = Array.isArray(parsed) ? parsed : parsed?.operations;
+  if (!Array.isArray(rawOps)) return null;
+
+  const operations: PatchOperation[] = [];
+  for (const raw of rawOps) {
+    const operation = normalizeOperation(raw);
+    if (!operation) {
+      console.warn('⚠️ Ignoring malformed patch operation:', raw);
+      return null;
+    }
+    operations.push(operation);
+  }
+  return operations;
+};
+
+/**
+ * Checks that every operation targets a block that exists (or is brought in by an
+ * earlier replace or insert_after, for chained inserts), that no block is touched after
+ * being deleted, and that replacements and inserts carry some content.
+ * Returns a list of human readable problems - empty means the patch is safe.
+ */
+export const validatePatch = (html: string, operations: PatchOperation[]): string[] => {
+  const container = parseContainer(html);
+  if (!container) return ['Document could not be parsed'];
+
+  const known = new Set(
+    Array.from(container.children)
+      .map(child => child.getAttribute(BLOCK_ID_ATTR))
+      .filter((id): id is string => !!id)
+  );
+  const deleted = new Set<string>();
+  const errors: string[] = [];
+
+  operations.forEach((operation, index) => {
+    const label = `Operation ${index + 1} (${operation.op} ${operation.blockId})`;
+    const isStart = operation.op === 'insert_after' && operation.blockId === DOCUMENT_START;
+
+    if (!isStart && !known.has(operation.blockId)) {
+      errors.push(`${label}: unknown block`);
+      return;
+    }
+    if (deleted.has(operation.blockId)) {
+      errors.push(`${label}: block was already deleted`);
+      return;
+    }
+    if (operation.op === 'delete') {
+      deleted.add(operation.blockId);
+    }
+    if (operation.op === 'replace' || operation.op === 'insert_after') {
+      const content = parseContainer(operation.html);
+      if (!content || (content.children.length === 0 && !content.textContent?.trim())) {
+        errors.push(`${label}: no block content (use delete to remove a block)`);
+        return;
+      }
+      // Blocks brought in by this operation can be targeted by the ones after it
+      Array.from(content.children).forEach(child => {
+        const id = child.getAttribute(BLOCK_ID_ATTR);
+        if (id) known.add(id);
+      });
+    }
+  });
+
+  return errors;
+};
+
+const htmlToNodes = (html: string): Node[] => {
+  const container = parseContainer(html);
+  return container ? Array.from(container.childNodes) : [];
+};
+
+/**
+ * Applies a validated patch to the document HTML. Operations run in order, so a
+ * later operation sees the result of earlier ones.
+ */
+export const applyPatch = (html: string, operations: PatchOperation[]): string => {
+  const container = parseContainer(html);
+  if (!container) return html;
+
+  const findBlock = (blockId: string): HTMLElement | null =>
+    Array.from(container.children).find(child => child.getAttribute(BLOCK_ID_ATTR) === blockId) as HTMLElement | null;
+
+  operations.forEach(operation => {
+    if (operation.op === 'insert_after' && operation.blockId === DOCUMENT_START) {
+      const nodes = htmlToNodes(operation.html);
+      container.prepend(...nodes);
+      return;
+    }
+
+    const block = findBlock(operation.blockId);
+    if (!block) {
+      console.warn('⚠️ Patch target vanished, skipping:', operation);
+      return;
+    }
+
+    switch (operation.op) {
+      case 'replace': {
+        const nodes = htmlToNodes(operation.html);
+        // Keep the block's identity when the model replaces it with a single fresh element
+        const firstElement = nodes.find(node => node.nodeType === Node.ELEMENT_NODE) as HTMLElement | undefined;
+        if (firstElement && !firstElement.hasAttribute(BLOCK_ID_ATTR)) {
+          firstElement.setAttribute(BLOCK_ID_ATTR, operation.blockId);
+        }
+        block.replaceWith(...nodes);
+        break;
+      }
+      case 'insert_after': {
+        const nodes = htmlToNodes(operation.html);
+        block.after(...nodes);
+        break;
+      }
+      case 'delete':
+        block.remove();
+        break;
+      case 'set_style':
+        Object.entries(operation.style).forEach(([property, value]) => {
+          const cssProperty = property.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+          if (value === '' || value === null) {
+            block.style.removeProperty(cssProperty);
+          } else {
+            block.style.setProperty(cssProperty, String(value));
+          }
+        });
+        break;
+    }
+  });
+
+  return container.innerHTML;
+};
+
+/**
+ * Swaps a run of blocks for new HTML: the rest of the run is deleted, then the first
+ * block is replaced (keeping its id). The deletes go first because the new HTML usually
+ * carries the same block ids, and looking them up afterwards would find the new copies.
+ * Everything outside the run is left untouched.
+ */
+export const replaceBlocks = (html: string, blockIds: string[], newHtml: string): string => {
+  if (blockIds.length === 0) return html;
+  const [first, ...rest] = blockIds;
+  return applyPatch(html, [
+    ...rest.map(blockId => ({ op: 'delete' as const, blockId })),
+    { op: 'replace', blockId: first, html: newHtml }
+  ]);
+};
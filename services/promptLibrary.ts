@@ -0,0 +1,152 @@
+// Slash-command prompt library - reusable chat instructions like "/grammar" or "/tone formal".
+// Built-in commands ship with the app; users can add their own, which are kept in localStorage.
+
+export interface SlashCommand {
+  name: string; // Typed after the slash, lowercase, no spaces
+  description: string;
+  // Prompt sent to the model. {args} is replaced with everything typed after the command,
+  // {1}, {2}, ... with individual arguments
+  prompt: string;
+  parameterHint?: string; // Shown in autocomplete, e.g. "<language>"
+  defaultArgs?: string; // Used when the command is typed without arguments
+  instruction?: string; // Extra system-instruction fragment for this command
+  builtIn?: boolean;
+}
+
+export interface ParsedSlashCommand {
+  command: SlashCommand;
+  args: string[];
+  prompt: string;
+  instruction?: string;
+}
+
+const LIBRARY_STORAGE_KEY = 'reportremix.promptLibrary';
+
+export const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    name: 'grammar',
+    description: 'Fix spelling, grammar and punctuation',
+    prompt: 'Fix all spelling, grammar and punctuation mistakes in the document.',
+    instruction: 'Only correct mistakes. Do not rephrase sentences that are already correct, and keep all formatting.',
+    builtIn: true
+  },
+  {
+    name: 'tone',
+    description: 'Rewrite in a different tone',
+    parameterHint: '<formal|casual|persuasive|...>',
+    prompt: 'Rewrite the document in a {args} tone.',
+    instruction: 'Keep every fact, figure, heading and table. Change wording only.',
+    builtIn: true
+  },
+  {
+    name: 'table',
+    description: 'Convert lists into tables',
+    prompt: 'Convert the bulleted and numbered lists into well-structured tables with a header row.',
+    instruction: 'Only convert lists whose items share a clear structure. Leave plain text lists alone.',
+    builtIn: true
+  },
+  {
+    name: 'summary',
+    description: 'Add an executive summary at the top',
+    prompt: 'Add an "Executive Summary" section at the beginning of the document that summarizes its key points in one short paragraph and 3-5 bullet points.',
+    instruction: 'Insert the summary only. Do not change any existing content.',
+    builtIn: true
+  },
+  {
+    name: 'translate',
+    description: 'Translate the document',
+    parameterHint: '<language or code, e.g. es>',
+    prompt: 'Translate the document into {args} (a language name or ISO code).',
+    instruction: 'Translate text content only. Keep all HTML structure, inline styles, block ids and image placeholders exactly as they are.',
+    builtIn: true
+  },
+  {
+    name: 'shorten',
+    description: 'Make the document more concise',
+    parameterHint: '[percent]',
+    defaultArgs: '30',
+    prompt: 'Make the document about {args}% shorter without losing any key information.',
+    instruction: 'Keep all headings, tables and images.',
+    builtIn: true
+  }
+];
+
+const isSlashCommand = (value: any): value is SlashCommand =>
+  !!value && typeof value.name === 'string' && typeof value.prompt === 'string';
+
+export const normalizeCommandName = (name: string): string =>
+  name.trim().replace(/^\//, '').toLowerCase().replace(/[^a-z0-9_-]/g, '');
+
+export const loadCustomCommands = (): SlashCommand[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LIBRARY_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isSlashCommand).map(command => ({ ...command, builtIn: false })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomCommands = (commands: SlashCommand[]) => {
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(commands.map(({ builtIn, ...command }) => command)));
+  } catch (error) {
+    console.error('Could not save prompt library:', error);
+  }
+};
+
+/**
+ * Built-in commands plus the user's own. A saved command with the same name as a
+ * built-in one replaces it, so the defaults can be customised.
+ */
+export const getPromptLibrary = (custom: SlashCommand[] = loadCustomCommands()): SlashCommand[] => {
+  const customNames = new Set(custom.map(command => command.name));
+  return [...BUILT_IN_COMMANDS.filter(command => !customNames.has(command.name)), ...custom]
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Autocomplete candidates while the user is still typing the command name
+ * (input is "/" followed by a partial name and no space yet).
+ */
+export const matchCommands = (input: string, library: SlashCommand[]): SlashCommand[] => {
+  const match = input.match(/^\/([^\s]*)$/);
+  if (!match) return [];
+  const partial = match[1].toLowerCase();
+  return library.filter(command => command.name.startsWith(partial));
+};
+
+const fillTemplate = (template: string, args: string[]): string =>
+  template
+    .replace(/\{args\}/g, args.join(' '))
+    .replace(/\{(\d+)\}/g, (_, index: string) => args[Number(index) - 1] || '');
+
+const usesArgs = (command: SlashCommand): boolean =>
+  /\{args\}|\{\d+\}/.test(command.prompt + (command.instruction || ''));
+
+/**
+ * Turns "/tone formal" into the full prompt and instruction fragment. Returns null when
+ * the input isn't a slash command; throws with usage help when it's unknown or incomplete.
+ */
+export const parseSlashCommand = (input: string, library: SlashCommand[]): ParsedSlashCommand | null => {
+  const match = input.trim().match(/^\/(\S+)\s*([\s\S]*)$/);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const command = library.find(candidate => candidate.name === name);
+  if (!command) {
+    throw new Error(`Unknown command /${name}. Type / to see the available commands.`);
+  }
+
+  const rawArgs = match[2].trim() || command.defaultArgs || '';
+  const args = rawArgs ? rawArgs.split(/\s+/) : [];
+  if (args.length === 0 && usesArgs(command)) {
+    throw new Error(`/${command.name} needs a value: /${command.name} ${command.parameterHint || '<value>'}`);
+  }
+
+  return {
+    command,
+    args,
+    prompt: fillTemplate(command.prompt, args),
+    instruction: command.instruction ? fillTemplate(command.instruction, args) : undefined
+  };
+};
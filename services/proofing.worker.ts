@@ -0,0 +1,108 @@
+// Proofing worker: loads the bundled dictionary once and checks blocks of text off the main
+// thread, so long documents don't stall typing. Everything runs locally and works offline.
+import affixData from './dictionaries/en_US.aff?raw';
+import dictionaryData from './dictionaries/en_US.dic?raw';
+import extraDictionaryData from './dictionaries/en_US-extra.dic?raw';
+import { createSpellChecker } from './spellChecker';
+import { checkGrammar, nonProseRanges, overlapsRanges } from './grammarRules';
+import { ProofIssue } from '../types';
+
+export type ProofWorkerRequest =
+  | { type: 'check'; requestId: number; texts: string[] }
+  | { type: 'suggest'; requestId: number; word: string }
+  | { type: 'set_custom_words'; words: string[] };
+
+export type ProofWorkerResponse =
+  | { type: 'check'; requestId: number; results: ProofIssue[][] } // One issue list per text, ids relative to the text
+  | { type: 'suggest'; requestId: number; suggestions: string[] };
+
+const worker = self as unknown as Worker;
+const spellChecker = createSpellChecker(affixData, dictionaryData, extraDictionaryData);
+
+const WORD_PATTERN = /[A-Za-zÀ-ɏ]+(?:['’][A-Za-zÀ-ɏ]+)*/g;
+
+// The bundled dictionary is American English; reports written with British spellings
+// ("amortisation", "colour", "centre", "analyse", "travelled") are checked as their US form
+const BRITISH_TO_AMERICAN: [RegExp, string][] = [
+  [/is(e|ed|es|ing|er|ers|ation|ations|ational)$/i, 'iz$1'],
+  [/ys(e|ed|es|ing)$/i, 'yz$1'],
+  [/([a-z])our(s|ed|ing|able|ably|ite|ites|ful)?$/i, '$1or$2'],
+  [/([a-z])tre(s)?$/i, '$1ter$2'],
+  [/([aeiou][a-z]*l)l(ed|ing|er|ers)$/i, '$1$2']
+];
+
+const isCorrect = (word: string): boolean => {
+  if (spellChecker.check(word)) return true;
+  const american = BRITISH_TO_AMERICAN.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), word);
+  return american !== word && spellChecker.check(american);
+};
+
+const checkSpelling = (text: string): ProofIssue[] => {
+  const skipped = nonProseRanges(text);
+  const issues: ProofIssue[] = [];
+  let match: RegExpExecArray | null;
+  WORD_PATTERN.lastIndex = 0;
+
+  while ((match = WORD_PATTERN.exec(text)) !== null) {
+    const word = match[0];
+    const start = match.index;
+    const end = start + word.length;
+    if (word.length < 2 || overlapsRanges(start, end, skipped)) continue;
+    // Part numbers and codes ("A4", "x86") aren't words
+    if (/\d/.test(text[start - 1] || '') || /\d/.test(text[end] || '')) continue;
+    // Acronyms and brand casing ("NASA", "iPhone") are left alone
+    if (/\p{Lu}/u.test(word.slice(1))) continue;
+
+    if (/^\p{Lu}/u.test(word)) {
+      // Capitalised words mid-sentence are usually names
+      const before = text.slice(0, start).trimEnd();
+      const sentenceStart = before === '' || /[.!?:\n]["')\]]?$/.test(before);
+      if (!sentenceStart) continue;
+    }
+
+    if (!isCorrect(word)) {
+      issues.push({
+        id: `spelling:${start}`,
+        kind: 'spelling',
+        start,
+        end,
+        text: word,
+        message: 'Not in the dictionary',
+        suggestions: []
+      });
+    }
+  }
+  return issues;
+};
+
+const checkText = (text: string): ProofIssue[] => {
+  const grammar: ProofIssue[] = checkGrammar(text).map(match => ({
+    id: `grammar:${match.rule}:${match.start}`,
+    kind: 'grammar',
+    start: match.start,
+    end: match.end,
+    text: text.slice(match.start, match.end),
+    message: match.message,
+    suggestions: match.suggestions,
+    rule: match.rule
+  }));
+  // A misspelt word is the more useful flag when both cover the same text
+  const spelling = checkSpelling(text);
+  return [
+    ...spelling,
+    ...grammar.filter(issue => !spelling.some(word => issue.start < word.end && issue.end > word.start))
+  ].sort((a, b) => a.start - b.start);
+};
+
+worker.onmessage = (event: MessageEvent<ProofWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'set_custom_words') {
+    spellChecker.setCustomWords(request.words);
+  } else if (request.type === 'check') {
+    const response: ProofWorkerResponse = { type: 'check', requestId: request.requestId, results: request.texts.map(checkText) };
+    worker.postMessage(response);
+  } else if (request.type === 'suggest') {
+    const response: ProofWorkerResponse = { type: 'suggest', requestId: request.requestId, suggestions: spellChecker.suggest(request.word) };
+    worker.postMessage(response);
+  }
+};
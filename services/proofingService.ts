@@ -0,0 +1,198 @@
+// Offline spelling and grammar checking for the editor. Block text is checked in a worker
+// (see proofing.worker.ts), results are cached per block text so only edited blocks are
+// re-checked, and issues are underlined with CSS highlights so the document HTML is never
+// touched. Words the user adds to the dictionary are kept in localStorage.
+import { blockTextRange, collectBlockText } from './blockService';
+import { TOC_CLASS } from './tocService';
+import { ProofIssue } from '../types';
+import type { ProofWorkerRequest, ProofWorkerResponse } from './proofing.worker';
+
+const CUSTOM_DICTIONARY_STORAGE_KEY = 'reportremix.customDictionary';
+const MAX_CACHED_TEXTS = 2000;
+const HIGHLIGHT_NAMES: Record<ProofIssue['kind'], string> = {
+  spelling: 'spelling-error',
+  grammar: 'grammar-error'
+};
+
+// An issue together with the live DOM range it covers
+export interface ProofMatch {
+  issue: ProofIssue;
+  range: Range;
+}
+
+let proofWorker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, (response: ProofWorkerResponse | null) => void>();
+const resultCache = new Map<string, ProofIssue[]>();
+// "Ignore" lasts for the session: words for spelling, rule + text for grammar
+const ignoredWords = new Set<string>();
+const ignoredGrammar = new Set<string>();
+// Matches currently underlined, per editor, so split views don't clear each other's
+const paintedMatches = new Map<string, ProofMatch[]>();
+
+export const loadCustomWords = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_DICTIONARY_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((word): word is string => typeof word === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomWords = (words: string[]) => {
+  try {
+    localStorage.setItem(CUSTOM_DICTIONARY_STORAGE_KEY, JSON.stringify(words));
+  } catch (error) {
+    console.error('Could not save custom dictionary:', error);
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (proofWorker || workerUnavailable) return proofWorker;
+  try {
+    proofWorker = new Worker(new URL('./proofing.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.error('⚠️ Proofing is unavailable in this browser:', error);
+    workerUnavailable = true;
+    return null;
+  }
+
+  proofWorker.onmessage = (event: MessageEvent<ProofWorkerResponse>) => {
+    const resolve = pendingRequests.get(event.data.requestId);
+    pendingRequests.delete(event.data.requestId);
+    resolve?.(event.data);
+  };
+  proofWorker.onerror = (event) => {
+    console.error('⚠️ Proofing worker failed:', event.message);
+    workerUnavailable = true;
+    proofWorker?.terminate();
+    proofWorker = null;
+    pendingRequests.forEach(resolve => resolve(null));
+    pendingRequests.clear();
+  };
+
+  const message: ProofWorkerRequest = { type: 'set_custom_words', words: loadCustomWords() };
+  proofWorker.postMessage(message);
+  console.log('✍️ Proofing worker started');
+  return proofWorker;
+};
+
+const sendRequest = (build: (requestId: number) => ProofWorkerRequest): Promise<ProofWorkerResponse | null> => {
+  const worker = getWorker();
+  if (!worker) return Promise.resolve(null);
+  const requestId = nextRequestId++;
+  return new Promise(resolve => {
+    pendingRequests.set(requestId, resolve);
+    worker.postMessage(build(requestId));
+  });
+};
+
+export const addCustomWord = (word: string) => {
+  const words = loadCustomWords();
+  if (!words.some(existing => existing.toLowerCase() === word.toLowerCase())) {
+    words.push(word);
+    saveCustomWords(words);
+  }
+  const message: ProofWorkerRequest = { type: 'set_custom_words', words };
+  getWorker()?.postMessage(message);
+  resultCache.clear();
+};
+
+export const ignoreProofIssue = (issue: ProofIssue) => {
+  if (issue.kind === 'spelling') {
+    ignoredWords.add(issue.text.toLowerCase());
+  } else {
+    ignoredGrammar.add(`${issue.rule}:${issue.text}`);
+  }
+};
+
+const isIgnored = (issue: ProofIssue) =>
+  issue.kind === 'spelling'
+    ? ignoredWords.has(issue.text.toLowerCase())
+    : ignoredGrammar.has(`${issue.rule}:${issue.text}`);
+
+export const suggestWords = async (word: string): Promise<string[]> => {
+  const response = await sendRequest(requestId => ({ type: 'suggest', requestId, word }));
+  return response && response.type === 'suggest' ? response.suggestions : [];
+};
+
+/**
+ * Checks every top-level block on the given pages. Blocks whose text was checked before
+ * come from the cache; the rest go to the worker in one batch.
+ */
+export const proofPages = async (pages: HTMLElement[]): Promise<ProofMatch[]> => {
+  const blocks = pages
+    .flatMap(page => Array.from(page.children))
+    .filter((block): block is HTMLElement => block instanceof HTMLElement && !block.classList.contains(TOC_CLASS))
+    .map(collectBlockText)
+    .filter(block => block.text.trim());
+
+  const unchecked = Array.from(new Set(blocks.map(block => block.text).filter(text => !resultCache.has(text))));
+  if (unchecked.length > 0) {
+    const response = await sendRequest(requestId => ({ type: 'check', requestId, texts: unchecked }));
+    if (!response || response.type !== 'check') return [];
+    unchecked.forEach((text, index) => resultCache.set(text, response.results[index] || []));
+
+    // Oldest entries go first once the cache is full
+    while (resultCache.size > MAX_CACHED_TEXTS) {
+      const oldest = resultCache.keys().next().value;
+      if (oldest === undefined) break;
+      resultCache.delete(oldest);
+    }
+  }
+
+  return blocks.flatMap((block, blockIndex) =>
+    (resultCache.get(block.text) || [])
+      .filter(issue => !isIgnored(issue))
+      .flatMap(issue => {
+        const range = blockTextRange(block, issue.start, issue.end);
+        return range ? [{ issue: { ...issue, id: `${blockIndex}:${issue.id}` }, range }] : [];
+      })
+  );
+};
+
+const repaint = () => {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  const matches = Array.from(paintedMatches.values()).flat();
+  (Object.keys(HIGHLIGHT_NAMES) as ProofIssue['kind'][]).forEach(kind => {
+    const ranges = matches.filter(match => match.issue.kind === kind).map(match => match.range);
+    CSS.highlights.set(HIGHLIGHT_NAMES[kind], new Highlight(...ranges));
+  });
+};
+
+// Underlines one editor's issues, replacing whatever that editor showed before
+export const paintProofMatches = (owner: string, matches: ProofMatch[]) => {
+  paintedMatches.set(owner, matches);
+  repaint();
+};
+
+export const clearProofMatches = (owner: string) => {
+  paintedMatches.delete(owner);
+  repaint();
+};
+
+// The underlined issue under a point on screen, for the right-click menu
+export const findProofMatchAt = (matches: ProofMatch[], x: number, y: number): ProofMatch | null => {
+  let node: Node | null = null;
+  let offset = 0;
+  if ('caretPositionFromPoint' in document) {
+    const position = document.caretPositionFromPoint(x, y);
+    node = position?.offsetNode || null;
+    offset = position?.offset || 0;
+  } else if ('caretRangeFromPoint' in document) {
+    const range = (document as Document).caretRangeFromPoint(x, y);
+    node = range?.startContainer || null;
+    offset = range?.startOffset || 0;
+  }
+  if (!node) return null;
+
+  return matches.find(match => {
+    if (match.range.collapsed || !match.range.startContainer.isConnected) return false;
+    try {
+      return match.range.isPointInRange(node as Node, offset);
+    } catch {
+      return false;
+    }
+  }) || null;
+};
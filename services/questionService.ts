@@ -0,0 +1,134 @@
+// Read-only question answering: decides whether a chat request is a question about the
+// document or an edit, and turns the document into numbered plain-text blocks the model
+// can cite, so answers link back to the exact paragraphs they came from.
+import { BLOCK_ID_ATTR } from './blockService';
+
+export type RequestIntent = 'edit' | 'question';
+
+// Block references in answers look like [B12]; the chat turns them into links
+export const CITATION_LINK_PREFIX = '#block-';
+
+// Plain text is far smaller than the HTML, but very long documents are still cut off
+const MAX_QUESTION_CONTEXT_CHARS = 120000;
+
+// Words that follow a polite opener ("can you", "please") and say what to do
+const EDIT_VERBS = /^(rewrite|edit|change|make|fix|correct|format|add|insert|append|prepend|remove|delete|replace|translate|shorten|lengthen|expand|convert|turn|move|reorder|rename|bold|italici[sz]e|underline|center|centre|align|indent|split|merge|combine|update|improve|polish|proofread|rephrase|reword|simplify|restructure|apply|put|set|use|highlight|capitali[sz]e|number|bullet)\b/;
+const QUESTION_OPENERS = /^(what|what's|whats|why|how|who|whom|whose|when|where|which|is|are|was|were|does|do|did|has|have|had|tell me|explain|describe|compare|according to|in which)\b/;
+// Could go either way ("summarize section 4", "list the risks", "can the table have 3 columns?") - the model decides
+const AMBIGUOUS_OPENERS = /^(summari[sz]e|list|outline|find|show|check|review|analy[sz]e|give me|identify|can|could|would|will|should|may|might)\b/;
+const POLITE_OPENERS = /^(please|pls|kindly|hey|hi|ok|okay|now|then|also|and|so|can you|could you|would you|will you|can u|i want you to|i'd like you to|i would like you to|i need you to|help me|let's|lets)\b[\s,]*/;
+
+const stripPoliteOpeners = (text: string): string => {
+  let rest = text;
+  let previous = '';
+  while (rest !== previous) {
+    previous = rest;
+    rest = rest.replace(POLITE_OPENERS, '').trim();
+  }
+  return rest;
+};
+
+/**
+ * Fast local guess at the intent. Returns null when the wording is ambiguous and the
+ * model should decide. Edit verbs win over a trailing question mark, so "Can you
+ * rewrite the intro?" is still an edit.
+ */
+export const guessIntent = (prompt: string): RequestIntent | null => {
+  const text = prompt.trim().toLowerCase();
+  if (!text) return null;
+
+  const rest = stripPoliteOpeners(text);
+  if (EDIT_VERBS.test(rest)) return 'edit';
+  // "Is it possible to make the title bold?" is a request, not a question about the content
+  if (AMBIGUOUS_OPENERS.test(rest) || /\b(possible|able) to\b/.test(rest)) return null;
+  if (QUESTION_OPENERS.test(rest) || text.endsWith('?')) return 'question';
+  return null;
+};
+
+export const parseIntentReply = (reply: string): RequestIntent =>
+  /\bquestion\b/i.test(reply) && !/\bedit\b/i.test(reply) ? 'question' : 'edit';
+
+export interface CitedDocument {
+  text: string; // "[B1] First paragraph..." one block per line
+  refs: Map<string, string>; // "B1" -> block id
+  truncated: boolean;
+}
+
+const blockText = (block: Element): string => {
+  if (block.tagName === 'TABLE') {
+    return Array.from((block as HTMLTableElement).rows)
+      .map(row => Array.from(row.cells).map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()).join(' | '))
+      .join(' / ');
+  }
+  if (block.tagName === 'UL' || block.tagName === 'OL') {
+    return Array.from(block.querySelectorAll('li'))
+      .map(item => `• ${(item.textContent || '').replace(/\s+/g, ' ').trim()}`)
+      .join(' ');
+  }
+  const text = (block.textContent || '').replace(/\s+/g, ' ').trim();
+  if (text) return text;
+  const image = block.querySelector('img');
+  const alt = image?.getAttribute('alt');
+  return image ? `(image${alt ? `: ${alt}` : ''})` : '';
+};
+
+/**
+ * Numbers every top-level block with a short reference ([B1], [B2], ...) and keeps the
+ * text only. Headings are marked so the model can find "section 4".
+ */
+export const buildCitedDocument = (html: string): CitedDocument => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  const container = doc.querySelector('div');
+  const refs = new Map<string, string>();
+  const lines: string[] = [];
+  let length = 0;
+  let truncated = false;
+
+  Array.from(container?.children || []).forEach(block => {
+    const id = block.getAttribute(BLOCK_ID_ATTR);
+    const text = blockText(block);
+    if (!id || !text || truncated) return;
+
+    const ref = `B${refs.size + 1}`;
+    const heading = /^H([1-6])$/.exec(block.tagName);
+    const line = `[${ref}] ${heading ? `${'#'.repeat(Number(heading[1]))} ` : ''}${text}`;
+    if (length + line.length > MAX_QUESTION_CONTEXT_CHARS) {
+      truncated = true;
+      return;
+    }
+    refs.set(ref, id);
+    lines.push(line);
+    length += line.length + 1;
+  });
+
+  return { text: lines.join('\n'), refs, truncated };
+};
+
+// Short references for the blocks the user selected, so a question can be about "this"
+export const refsForBlocks = (cited: CitedDocument, blockIds: string[]): string[] => {
+  const wanted = new Set(blockIds);
+  return Array.from(cited.refs).filter(([, id]) => wanted.has(id)).map(([ref]) => ref);
+};
+
+/**
+ * Replaces [B12] / [B3, B4] references in the answer with numbered markdown links
+ * ([1](#block-blk_...)) in order of first use. References to blocks that don't exist
+ * are dropped.
+ */
+export const linkCitations = (answer: string, refs: Map<string, string>): string => {
+  const numbers = new Map<string, number>();
+  return answer.replace(/\[((?:B\d+\s*(?:,|;|and|-)?\s*)+)\]/g, (_, list: string) => {
+    const links = (list.match(/B\d+/g) || [])
+      .filter(ref => refs.has(ref))
+      .map(ref => {
+        if (!numbers.has(ref)) numbers.set(ref, numbers.size + 1);
+        return `[${numbers.get(ref)}](${CITATION_LINK_PREFIX}${refs.get(ref)})`;
+      });
+    return links.join(' ');
+  });
+};
+
+// Block id from a citation link's href, or null for ordinary links
+export const citationBlockId = (href?: string): string | null =>
+  href?.startsWith(CITATION_LINK_PREFIX) ? href.slice(CITATION_LINK_PREFIX.length) : null;
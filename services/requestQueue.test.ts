@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueueStatus } from '../types';
+
+// The queue keeps its spacing, quota and pause state at module level, so every test loads a
+// fresh copy - together with the AiHttpError class that copy checks errors against
+const loadQueue = async (env: Record<string, string> = {}) => {
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  vi.resetModules();
+  const [queue, { AiHttpError }] = await Promise.all([import('./requestQueue'), import('./aiProviders')]);
+  return { ...queue, AiHttpError };
+};
+
+const statuses = () => {
+  const list: QueueStatus[] = [];
+  return { list, onStatus: (status: QueueStatus) => list.push(status) };
+};
+
+describe('runQueued', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('spaces request starts four seconds apart', async () => {
+    const { runQueued } = await loadQueue();
+    const started: number[] = [];
+    const task = async () => started.push(Date.now());
+    const second = statuses();
+
+    const done = Promise.all([runQueued(task), runQueued(task, { onStatus: second.onStatus })]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(1);
+    expect(second.list[0]).toEqual({ state: 'waiting', until: Date.now() + 4000, reason: 'spacing' });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await done;
+    expect(started[1] - started[0]).toBe(4000);
+    expect(second.list.at(-1)).toEqual({ state: 'running' });
+  });
+
+  it('holds requests back once the per-minute quota is used up', async () => {
+    const { runQueued } = await loadQueue({ VITE_AI_REQUESTS_PER_MINUTE: '2' });
+    const first = Date.now();
+    const third = statuses();
+    let finished = 0;
+    const task = async () => finished++;
+
+    runQueued(task);
+    runQueued(task);
+    const last = runQueued(task, { onStatus: third.onStatus });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(finished).toBe(2);
+    expect(third.list.at(-1)).toEqual({ state: 'waiting', until: first + 60000, reason: 'minute-quota' });
+
+    await vi.advanceTimersByTimeAsync(56000);
+    await last;
+    expect(finished).toBe(3);
+  });
+
+  it('rejects requests once the daily quota is used up', async () => {
+    const { runQueued } = await loadQueue({ VITE_AI_REQUESTS_PER_DAY: '1' });
+    await runQueued(async () => 'ok');
+    await expect(runQueued(async () => 'too many')).rejects.toThrow('Daily AI request quota reached (1 requests per day)');
+  });
+
+  it('retries 429 and 5xx replies with exponential backoff', async () => {
+    const { runQueued, AiHttpError } = await loadQueue();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const { list, onStatus } = statuses();
+    const task = vi.fn()
+      .mockRejectedValueOnce(new AiHttpError('busy', 503))
+      .mockRejectedValueOnce(new AiHttpError('busy', 503))
+      .mockResolvedValue('done');
+
+    const result = runQueued(task, { onStatus });
+    await vi.advanceTimersByTimeAsync(0);
+    // Half the exponential delay plus jitter: 1s, then 2s (Math.random is 0)
+    expect(list.at(-1)).toEqual({ state: 'retrying', until: Date.now() + 1000, attempt: 2, maxAttempts: 5, httpStatus: 503 });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(list.at(-1)).toMatchObject({ state: 'retrying', until: Date.now() + 2000, attempt: 3 });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await expect(result).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry and never retries other errors', async () => {
+    const { runQueued, AiHttpError } = await loadQueue();
+    const failing = vi.fn().mockRejectedValue(new AiHttpError('down', 500));
+    const result = runQueued(failing);
+    const assertion = expect(result).rejects.toThrow('down');
+    await vi.advanceTimersByTimeAsync(5 * 60000);
+    await assertion;
+    expect(failing).toHaveBeenCalledTimes(5);
+
+    const badRequest = vi.fn().mockRejectedValue(new AiHttpError('bad', 400));
+    const rejected = expect(runQueued(badRequest)).rejects.toThrow('bad');
+    await vi.advanceTimersByTimeAsync(4000);
+    await rejected;
+    expect(badRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses every request for a 429 with Retry-After', async () => {
+    const { runQueued, AiHttpError } = await loadQueue();
+    const pausedAt = Date.now();
+    const task = vi.fn().mockRejectedValueOnce(new AiHttpError('slow down', 429, 30000)).mockResolvedValue('ok');
+    const other = statuses();
+
+    const first = runQueued(task);
+    await vi.advanceTimersByTimeAsync(0);
+    const second = runQueued(async () => 'other', { onStatus: other.onStatus });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(other.list.at(-1)).toEqual({ state: 'waiting', until: pausedAt + 30000, reason: 'server' });
+
+    await vi.advanceTimersByTimeAsync(30000);
+    await expect(first).resolves.toBe('ok');
+    await vi.advanceTimersByTimeAsync(4000);
+    await expect(second).resolves.toBe('other');
+  });
+
+  it('drops a waiting request when its signal aborts', async () => {
+    const { runQueued } = await loadQueue();
+    const controller = new AbortController();
+    const task = vi.fn().mockResolvedValue('late');
+
+    await runQueued(async () => 'first');
+    const waiting = runQueued(task, { signal: controller.signal });
+    const assertion = expect(waiting).rejects.toBe('stopped');
+    controller.abort('stopped');
+    await assertion;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeQueueStatus', () => {
+  it('describes each state with a countdown', async () => {
+    const { describeQueueStatus } = await loadQueue();
+    const now = 1_000_000;
+    expect(describeQueueStatus({ state: 'queued', position: 2 }, now)).toBe('Queued (position 2)');
+    expect(describeQueueStatus({ state: 'waiting', until: now + 61000, reason: 'minute-quota' }, now)).toBe('Per-minute quota reached, starting in 2 min');
+    expect(describeQueueStatus({ state: 'retrying', until: now + 3000, attempt: 2, maxAttempts: 5, httpStatus: 429 }, now))
+      .toBe('Rate limited - retry 2/5 in 3s');
+  });
+});
@@ -0,0 +1,237 @@
+// AI request queue - every model call goes through here so requests are spaced out,
+// per-minute and per-day quotas are respected, 429/5xx replies are retried with backoff,
+// and anything still waiting can be cancelled through its AbortSignal.
+import { QueueStatus } from '../types';
+import { AiHttpError } from './aiProviders';
+
+const env = import.meta.env;
+
+const MIN_REQUEST_INTERVAL = 4000; // 4 seconds between request starts
+const REQUESTS_PER_MINUTE = Number(env.VITE_AI_REQUESTS_PER_MINUTE) || 15; // Gemini free tier
+const REQUESTS_PER_DAY = Number(env.VITE_AI_REQUESTS_PER_DAY) || 1500;
+const MAX_CONCURRENT = 3;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF = 2000;
+const MAX_BACKOFF = 60000;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Start times of recent requests, persisted so the daily quota survives a page reload
+const REQUEST_LOG_STORAGE_KEY = 'reportremix.aiRequestLog';
+
+export interface QueueOptions {
+  signal?: AbortSignal;
+  onStatus?: (status: QueueStatus) => void;
+}
+
+interface QueueEntry {
+  start: () => void;
+  reject: (reason: unknown) => void;
+  onStatus?: (status: QueueStatus) => void;
+}
+
+const waiting: QueueEntry[] = [];
+let inFlight = 0;
+let lastStart = 0;
+let pausedUntil = 0; // A server Retry-After on a 429 holds back every request, not just the one that got it
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const loadRequestLog = (): number[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REQUEST_LOG_STORAGE_KEY) || '[]');
+    const cutoff = Date.now() - DAY;
+    return Array.isArray(stored) ? stored.filter((time): time is number => typeof time === 'number' && time > cutoff) : [];
+  } catch {
+    return [];
+  }
+};
+
+let requestLog = loadRequestLog();
+
+const recordStart = (time: number) => {
+  requestLog = [...requestLog.filter(t => t > time - DAY), time];
+  try {
+    localStorage.setItem(REQUEST_LOG_STORAGE_KEY, JSON.stringify(requestLog));
+  } catch {
+    // Quota still applies for this session
+  }
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+};
+
+// Earliest time the next request may start, and what it is waiting for
+const nextStart = (now: number): { at: number; reason: 'spacing' | 'minute-quota' | 'server' } => {
+  let at = Math.max(now, lastStart + MIN_REQUEST_INTERVAL);
+  let reason: 'spacing' | 'minute-quota' | 'server' = 'spacing';
+
+  const lastMinute = requestLog.filter(time => time > now - MINUTE);
+  if (lastMinute.length >= REQUESTS_PER_MINUTE) {
+    const freesUpAt = lastMinute[lastMinute.length - REQUESTS_PER_MINUTE] + MINUTE;
+    if (freesUpAt > at) {
+      at = freesUpAt;
+      reason = 'minute-quota';
+    }
+  }
+  if (pausedUntil > at) {
+    at = pausedUntil;
+    reason = 'server';
+  }
+  return { at, reason };
+};
+
+// Starts as many queued requests as the limits allow and tells the rest where they stand
+const pump = () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  let headStatus: QueueStatus | null = null;
+  while (waiting.length > 0 && inFlight < MAX_CONCURRENT) {
+    const now = Date.now();
+    requestLog = requestLog.filter(time => time > now - DAY);
+
+    if (requestLog.length >= REQUESTS_PER_DAY) {
+      const resetsIn = requestLog[0] + DAY - now;
+      const error = new Error(`❌ Daily AI request quota reached (${REQUESTS_PER_DAY} requests per day). It resets in ${formatDuration(resetsIn)}.`);
+      waiting.splice(0).forEach(entry => entry.reject(error));
+      return;
+    }
+
+    const { at, reason } = nextStart(now);
+    if (at > now) {
+      headStatus = { state: 'waiting', until: at, reason };
+      timer = setTimeout(pump, at - now);
+      break;
+    }
+
+    const entry = waiting.shift()!;
+    lastStart = now;
+    recordStart(now);
+    inFlight++;
+    entry.start();
+  }
+
+  waiting.forEach((entry, index) => {
+    entry.onStatus?.(index === 0 && headStatus ? headStatus : { state: 'queued', position: index + 1 });
+  });
+};
+
+// Waits for a turn in the queue; retries go to the front so they don't lose their place
+const acquireSlot = (front: boolean, { signal, onStatus }: QueueOptions): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      const index = waiting.indexOf(entry);
+      if (index !== -1) waiting.splice(index, 1);
+      reject(signal?.reason);
+      pump();
+    };
+
+    const entry: QueueEntry = {
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        onStatus?.({ state: 'running' });
+        resolve();
+      },
+      reject: (reason) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+      },
+      onStatus
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (front) {
+      waiting.unshift(entry);
+    } else {
+      waiting.push(entry);
+    }
+    pump();
+  });
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const isRetryable = (error: unknown): error is AiHttpError =>
+  error instanceof AiHttpError && (error.status === 429 || error.status >= 500);
+
+// Exponential backoff with jitter so parallel retries don't hit the server in lockstep
+const backoffDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+/**
+ * Runs an AI request through the queue. The task starts once spacing and quotas allow,
+ * is retried on 429/5xx (honouring Retry-After, otherwise with exponential backoff),
+ * and is dropped from the queue as soon as the signal aborts.
+ */
+export const runQueued = async <T>(task: () => Promise<T>, options: QueueOptions = {}): Promise<T> => {
+  const { signal, onStatus } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    await acquireSlot(attempt > 1, options);
+    let error: unknown;
+    try {
+      return await task();
+    } catch (taskError) {
+      error = taskError;
+    } finally {
+      // Free the slot before any backoff so other requests can use it meanwhile
+      inFlight--;
+      pump();
+    }
+
+    if (signal?.aborted || !isRetryable(error) || attempt > MAX_RETRIES) throw error;
+
+    const delay = error.retryAfterMs ?? backoffDelay(attempt);
+    if (error.status === 429 && error.retryAfterMs !== undefined) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    }
+    console.warn(`⏳ AI provider returned ${error.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES + 1})`);
+    onStatus?.({ state: 'retrying', until: Date.now() + delay, attempt: attempt + 1, maxAttempts: MAX_RETRIES + 1, httpStatus: error.status });
+    await sleep(delay, signal);
+  }
+};
+
+/**
+ * Short human readable description of a queue status, for the chat. Pass the current
+ * time so countdowns can be re-rendered every second.
+ */
+export const describeQueueStatus = (status: QueueStatus, now = Date.now()): string => {
+  switch (status.state) {
+    case 'queued':
+      return `Queued (position ${status.position})`;
+    case 'waiting':
+      return status.reason === 'server'
+        ? `Provider asked us to wait... ${formatDuration(status.until - now)}`
+        : status.reason === 'minute-quota'
+          ? `Per-minute quota reached, starting in ${formatDuration(status.until - now)}`
+          : `Starting in ${formatDuration(status.until - now)}`;
+    case 'retrying':
+      return `${status.httpStatus === 429 ? 'Rate limited' : `Server error ${status.httpStatus}`} - retry ${status.attempt}/${status.maxAttempts} in ${formatDuration(status.until - now)}`;
+    case 'running':
+      return 'Running';
+  }
+};
@@ -0,0 +1,108 @@
+// AI review comments: feedback anchored to quoted spans of the document instead of new HTML.
+// Comments are matched to the live pages by block id and quote whenever they are shown, so
+// they survive repagination and edits elsewhere, and the document only changes when a
+// suggestion is applied.
+import { BLOCK_ID_ATTR, blockTextRange, collectBlockText } from './blockService';
+import { ReviewComment } from '../types';
+
+const MAX_REVIEW_COMMENTS = 40;
+const HIGHLIGHT_NAME = 'review-comment';
+const ACTIVE_HIGHLIGHT_NAME = 'review-comment-active';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The match closest to where the quote was last seen
+const nearest = (matches: [number, number][], near: number): [number, number] | null =>
+  matches.reduce<[number, number] | null>(
+    (best, match) => !best || Math.abs(match[0] - near) < Math.abs(best[0] - near) ? match : best,
+    null
+  );
+
+/**
+ * Finds a quote in a block's text: exact first, then ignoring case, spacing and the
+ * style of quotation marks (models often straighten curly quotes).
+ */
+export const findQuote = (text: string, quote: string, near = 0): [number, number] | null => {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+
+  const exact: [number, number][] = [];
+  for (let index = text.indexOf(trimmed); index !== -1; index = text.indexOf(trimmed, index + 1)) {
+    exact.push([index, index + trimmed.length]);
+  }
+  if (exact.length > 0) return nearest(exact, near);
+
+  const pattern = trimmed
+    .split(/\s+/)
+    .map(word => escapeRegExp(word).replace(/['‘’]/g, "['‘’]").replace(/["“”]/g, '["“”]'))
+    .join('\\s+');
+  const loose = Array.from(text.matchAll(new RegExp(pattern, 'gi')))
+    .map(match => [match.index ?? 0, (match.index ?? 0) + match[0].length] as [number, number]);
+  return nearest(loose, near);
+};
+
+/**
+ * Reads the model's review: a JSON array of {block, quote, issue, suggestion}, possibly
+ * wrapped in a code fence. Block references ([B12]) are mapped back to block ids, and
+ * comments on unknown blocks or without a quote are dropped.
+ */
+export const parseReviewReply = (reply: string, refs: Map<string, string>): ReviewComment[] => {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) throw new Error('❌ The AI did not return any review comments');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    throw new Error('❌ The AI returned review comments that could not be read');
+  }
+
+  return (Array.isArray(parsed) ? parsed : [])
+    .filter((item: any) => item && typeof item.quote === 'string' && item.quote.trim() && typeof item.issue === 'string')
+    .map((item: any) => ({
+      blockId: refs.get(String(item.block || '').replace(/[[\]\s]/g, '')) || '',
+      quote: item.quote.trim(),
+      issue: item.issue.trim(),
+      suggestion: typeof item.suggestion === 'string' ? item.suggestion.trim() : ''
+    }))
+    .filter(comment => comment.blockId)
+    .slice(0, MAX_REVIEW_COMMENTS)
+    .map((comment, index) => ({ ...comment, id: `rev_${Date.now().toString(36)}_${index}` }));
+};
+
+const findBlock = (pages: HTMLElement[], blockId: string): HTMLElement | null =>
+  pages.map(page => page.querySelector<HTMLElement>(`:scope > [${BLOCK_ID_ATTR}="${blockId}"]`)).find(Boolean) || null;
+
+// Records where each quote sits now, so a repeated phrase keeps pointing at the same occurrence
+export const anchorComments = (pages: HTMLElement[], comments: ReviewComment[]): ReviewComment[] =>
+  comments.map(comment => {
+    const block = findBlock(pages, comment.blockId);
+    const found = block ? findQuote(collectBlockText(block).text, comment.quote) : null;
+    return found ? { ...comment, start: found[0] } : comment;
+  });
+
+/**
+ * Where a comment's quote is on the live pages right now, or null when its block is
+ * gone or the quoted text has been edited.
+ */
+export const resolveCommentRange = (pages: HTMLElement[], comment: ReviewComment): Range | null => {
+  const block = findBlock(pages, comment.blockId);
+  if (!block) return null;
+
+  const blockText = collectBlockText(block);
+  const found = findQuote(blockText.text, comment.quote, comment.start);
+  return found ? blockTextRange(blockText, found[0], found[1]) : null;
+};
+
+// Marks the commented spans, with the selected comment's span stronger than the rest
+export const paintReviewHighlights = (ranges: Range[], active: Range | null) => {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges.filter(range => range !== active)));
+  CSS.highlights.set(ACTIVE_HIGHLIGHT_NAME, new Highlight(...(active ? [active] : [])));
+};
+
+export const clearReviewHighlights = () => {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  CSS.highlights.delete(HIGHLIGHT_NAME);
+  CSS.highlights.delete(ACTIVE_HIGHLIGHT_NAME);
+};
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitizeService';
+
+describe('sanitizeHtml', () => {
+  it('cleans markup after a stray closing tag', () => {
+    const { html, removals } = sanitizeHtml('<p>ok</p></div><img src=x onerror="alert(1)"><a href="javascript:alert(2)">x</a>');
+    expect(html).toBe('<p>ok</p><img src="x"><a>x</a>');
+    expect(removals).toEqual(expect.arrayContaining([
+      { kind: 'attribute', name: 'onerror', count: 1 },
+      { kind: 'url', name: 'javascript:', count: 1 }
+    ]));
+  });
+
+  it('keeps the content after a stray closing tag when something else is removed', () => {
+    const { html } = sanitizeHtml('<script>alert(1)</script><p>one</p></div></div><p>two</p>');
+    expect(html).toBe('<p>one</p><p>two</p>');
+  });
+
+  it('returns clean documents unchanged', () => {
+    const clean = '<h1 data-block-id="rrb_1" style="text-align: center;">Title</h1><p data-block-id="rrb_2">Text <a href="#rrb_1">link</a></p>';
+    expect(sanitizeHtml(clean)).toEqual({ html: clean, removals: [] });
+  });
+
+  it('drops scripts, iframes and event handlers and unwraps unknown tags', () => {
+    const { html, removals } = sanitizeHtml('<p onclick="x()">a<iframe src="https://example.com"></iframe><o:p>b</o:p></p><script>bad()</script>');
+    expect(html).toBe('<p>ab</p>');
+    expect(removals).toEqual(expect.arrayContaining([
+      { kind: 'attribute', name: 'onclick', count: 1 },
+      { kind: 'element', name: 'iframe', count: 1 },
+      { kind: 'element', name: 'script', count: 1 },
+      { kind: 'tag', name: 'o:p', count: 1 }
+    ]));
+  });
+
+  it('catches javascript: links hidden with whitespace and control characters', () => {
+    expect(sanitizeHtml('<a href=" java\tscript:alert(1)">x</a>').html).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="https://example.com">x</a>').html).toBe('<a href="https://example.com">x</a>');
+  });
+
+  it('removes disallowed CSS and keeps the rest', () => {
+    const { html } = sanitizeHtml('<p style="color: red; position: fixed; background: url(javascript:alert(1))">x</p>');
+    expect(html).toBe('<p style="color: red">x</p>');
+  });
+
+  it('keeps embedded images and page breaks', () => {
+    const markup = '<p><img src="data:image/png;base64,AAAA"></p><div class="page-break-marker" style="page-break-after: always;">Page Break</div>';
+    expect(sanitizeHtml(markup).html).toBe(markup);
+  });
+});
@@ -0,0 +1,248 @@
+// Allowlist HTML sanitizer for everything that reaches the editor's innerHTML: imported Word
+// documents, AI replies, pasted content and restored history. Only known formatting tags,
+// attributes, CSS properties and URL schemes survive; whatever is removed is recorded so the
+// diagnostics view can show it.
+import { SanitizeLogEntry, SanitizeRemoval, SanitizeSource } from '../types';
+
+const MAX_LOG_ENTRIES = 50;
+
+// Kept as they are
+const ALLOWED_TAGS = new Set([
+  'P', 'DIV', 'SPAN', 'BR', 'HR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'B', 'STRONG', 'I', 'EM', 'U', 'S', 'STRIKE', 'DEL', 'INS', 'SUB', 'SUP', 'SMALL', 'BIG', 'MARK', 'FONT',
+  'A', 'IMG', 'FIGURE', 'FIGCAPTION', 'BLOCKQUOTE', 'PRE', 'CODE', 'CITE', 'ABBR',
+  'UL', 'OL', 'LI', 'DL', 'DT', 'DD',
+  'TABLE', 'CAPTION', 'COLGROUP', 'COL', 'THEAD', 'TBODY', 'TFOOT', 'TR', 'TD', 'TH'
+]);
+// Removed together with everything inside them; any other tag is unwrapped and its content kept
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'IFRAME', 'FRAME', 'FRAMESET', 'OBJECT', 'EMBED', 'APPLET', 'NOSCRIPT', 'TEMPLATE',
+  'SVG', 'MATH', 'FORM', 'INPUT', 'BUTTON', 'TEXTAREA', 'SELECT', 'OPTION', 'LINK', 'META', 'BASE', 'TITLE',
+  'AUDIO', 'VIDEO', 'SOURCE', 'TRACK', 'CANVAS', 'PORTAL', 'DIALOG', 'XML'
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['style', 'class', 'id', 'title', 'lang', 'dir', 'align', 'contenteditable', 'draggable']);
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  A: ['href', 'name', 'target', 'rel'],
+  IMG: ['src', 'alt', 'width', 'height'],
+  FONT: ['face', 'size', 'color'],
+  TABLE: ['border', 'cellpadding', 'cellspacing', 'width'],
+  TD: ['colspan', 'rowspan', 'width', 'height', 'valign'],
+  TH: ['colspan', 'rowspan', 'width', 'height', 'valign', 'scope'],
+  TR: ['valign'],
+  COL: ['span', 'width'],
+  COLGROUP: ['span', 'width'],
+  OL: ['start', 'type', 'reversed'],
+  UL: ['type'],
+  LI: ['value']
+};
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+// Property names; a trailing '-' allows the whole family (border-top, border-left-color, ...)
+const ALLOWED_CSS = [
+  'color', 'background', 'background-color', 'font', 'font-', 'text-', 'line-height', 'letter-spacing', 'word-spacing',
+  'white-space', 'vertical-align', 'direction', 'unicode-bidi', 'margin', 'margin-', 'padding', 'padding-',
+  'border', 'border-', 'width', 'height', 'min-width', 'max-width', 'min-height', 'max-height',
+  'display', 'float', 'clear', 'list-style', 'list-style-', 'page-break-', 'break-', 'table-layout',
+  'caption-side', 'empty-cells', 'tab-stops', 'orphans', 'widows'
+];
+
+const ALLOWED_LINK_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+const ALLOWED_IMAGE_SCHEMES = ['http:', 'https:', 'blob:'];
+// Images never run script, so any embedded image type is fine (Word exports EMF, TIFF, SVG...)
+const DATA_IMAGE_URL = /^data:image\/[a-z0-9.+-]+[;,]/i;
+
+const sanitizeLog: SanitizeLogEntry[] = [];
+const logListeners = new Set<(log: SanitizeLogEntry[]) => void>();
+
+const isAllowedAttribute = (tagName: string, name: string): boolean =>
+  GLOBAL_ATTRIBUTES.has(name) || name.startsWith('data-') || (TAG_ATTRIBUTES[tagName] || []).includes(name);
+
+const isAllowedCssProperty = (property: string): boolean =>
+  ALLOWED_CSS.some(allowed => allowed.endsWith('-') ? property.startsWith(allowed) : property === allowed);
+
+/**
+ * Whether a link or image URL is safe to keep. Relative URLs and fragments are fine (image
+ * placeholders are relative); absolute ones need an allowed scheme. Browsers ignore
+ * whitespace and control characters inside a scheme, so those are dropped before checking.
+ */
+const isAllowedUrl = (tagName: string, attribute: string, value: string): boolean => {
+  const url = value.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (attribute === 'src' && DATA_IMAGE_URL.test(url)) return true;
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (!scheme) return true;
+  const allowed = tagName === 'IMG' ? ALLOWED_IMAGE_SCHEMES : ALLOWED_LINK_SCHEMES;
+  return allowed.includes(`${scheme}:`);
+};
+
+// Splits a style attribute into declarations, leaving semicolons inside quotes and brackets alone
+const splitDeclarations = (style: string): string[] => {
+  const declarations: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote = '';
+  for (const char of style) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && depth === 0) {
+      declarations.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  declarations.push(current);
+  return declarations.map(declaration => declaration.trim()).filter(Boolean);
+};
+
+// url(...) values must point at an image we'd load anyway; expression() and bindings never pass
+const isAllowedCssValue = (value: string): boolean => {
+  const compact = value.replace(/\\/g, '').replace(/\s+/g, '').toLowerCase();
+  if (/expression\(|javascript:|vbscript:|-moz-binding|behavior:/.test(compact)) return false;
+  const urls = Array.from(compact.matchAll(/url\(["']?([^"')]*)/g)).map(match => match[1]);
+  return urls.every(url => DATA_IMAGE_URL.test(url) || /^https?:/.test(url));
+};
+
+export interface SanitizeResult {
+  html: string;
+  removals: SanitizeRemoval[];
+}
+
+/**
+ * Cleans an HTML fragment against the allowlists. The input is parsed as template content,
+ * so a stray closing tag can't end the fragment early and leave markup outside the
+ * cleaned tree. The result is always the re-serialised tree; for markup that was already
+ * clean that is the same serialisation the editor produces, so it doesn't show up as
+ * changes in the review diff.
+ */
+export const sanitizeHtml = (html: string): SanitizeResult => {
+  if (!html) return { html, removals: [] };
+  const parser = new DOMParser();
+  const doc = parser.parseFromString('', 'text/html');
+  const template = doc.createElement('template');
+  template.innerHTML = html;
+  const container = template.content;
+
+  const counts = new Map<string, SanitizeRemoval>();
+  const remove = (kind: SanitizeRemoval['kind'], name: string) => {
+    const key = `${kind}:${name}`;
+    const removal = counts.get(key) || { kind, name, count: 0 };
+    removal.count++;
+    counts.set(key, removal);
+  };
+
+  // Comments can carry conditional markup from Word that old engines would run
+  const comments = doc.createTreeWalker(container, NodeFilter.SHOW_COMMENT);
+  const commentNodes: Node[] = [];
+  while (comments.nextNode()) commentNodes.push(comments.currentNode);
+  commentNodes.forEach(comment => comment.parentNode?.removeChild(comment));
+
+  const clean = (element: ParentNode) => {
+    Array.from(element.children).forEach(child => {
+      const tagName = child.tagName.toUpperCase();
+      if (DROPPED_TAGS.has(tagName)) {
+        remove('element', tagName.toLowerCase());
+        child.remove();
+        return;
+      }
+
+      clean(child);
+
+      if (!ALLOWED_TAGS.has(tagName)) {
+        remove('tag', tagName.toLowerCase());
+        child.replaceWith(...Array.from(child.childNodes));
+        return;
+      }
+
+      Array.from(child.attributes).forEach(attribute => {
+        const name = attribute.name.toLowerCase();
+        if (!isAllowedAttribute(tagName, name)) {
+          remove('attribute', name);
+          child.removeAttribute(attribute.name);
+        } else if (URL_ATTRIBUTES.has(name) && !isAllowedUrl(tagName, name, attribute.value)) {
+          const scheme = attribute.value.replace(/[\u0000- \u007f-\u009f]/g, '').match(/^([a-z][a-z0-9+.-]*:)/i)?.[1].toLowerCase();
+          remove('url', scheme || name);
+          child.removeAttribute(attribute.name);
+        }
+      });
+
+      const style = child.getAttribute('style');
+      if (style !== null) {
+        const kept = splitDeclarations(style).filter(declaration => {
+          const colon = declaration.indexOf(':');
+          const property = (colon === -1 ? declaration : declaration.slice(0, colon)).trim().toLowerCase();
+          if (colon !== -1 && isAllowedCssProperty(property) && isAllowedCssValue(declaration.slice(colon + 1))) return true;
+          remove('style', property || 'invalid');
+          return false;
+        });
+        if (kept.length !== splitDeclarations(style).length) {
+          if (kept.length > 0) child.setAttribute('style', kept.join('; '));
+          else child.removeAttribute('style');
+        }
+      }
+    });
+  };
+  clean(container);
+
+  const output = doc.createElement('div');
+  output.append(container);
+  return { html: output.innerHTML, removals: Array.from(counts.values()) };
+};
+
+/**
+ * Sanitises HTML arriving from one of the editor's entry points and records what was
+ * removed for the diagnostics view.
+ */
+export const sanitizeDocumentHtml = (html: string, source: SanitizeSource): string => {
+  const result = sanitizeHtml(html);
+  if (result.removals.length > 0) {
+    console.warn('🧹 Removed unsafe or unsupported markup from', source, result.removals);
+    sanitizeLog.unshift({
+      id: `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      source,
+      timestamp: Date.now(),
+      removals: result.removals
+    });
+    sanitizeLog.splice(MAX_LOG_ENTRIES);
+    const snapshot = [...sanitizeLog];
+    logListeners.forEach(listener => listener(snapshot));
+  }
+  return result.html;
+};
+
+// Word puts the copied part between fragment markers inside a whole HTML page
+export const extractClipboardFragment = (html: string): string => {
+  const match = html.match(/<!--StartFragment-->([\s\S]*)<!--EndFragment-->/);
+  return match ? match[1] : html;
+};
+
+export const getSanitizeLog = (): SanitizeLogEntry[] => [...sanitizeLog];
+
+export const clearSanitizeLog = () => {
+  sanitizeLog.length = 0;
+  logListeners.forEach(listener => listener([]));
+};
+
+// Calls back with the whole log (newest first) whenever it changes; returns the unsubscribe function
+export const subscribeSanitizeLog = (listener: (log: SanitizeLogEntry[]) => void): (() => void) => {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+};
+
+const REMOVAL_LABELS: Record<SanitizeRemoval['kind'], (name: string) => string> = {
+  element: name => `<${name}> element and its content`,
+  tag: name => `<${name}> tag (content kept)`,
+  attribute: name => `${name} attribute`,
+  style: name => `${name} style`,
+  url: name => `${name} link`
+};
+
+export const describeRemoval = ({ kind, name }: SanitizeRemoval): string => REMOVAL_LABELS[kind](name);
@@ -0,0 +1,156 @@
+// New reports from scratch: report templates with a standard outline, parsing of
+// AI-generated outlines, and assembling drafted sections into a fresh document.
+import { ensureBlockIds } from './blockService';
+
+export type ReportType = 'lab-report' | 'project-proposal' | 'business-report';
+
+export interface ReportTemplate {
+  id: ReportType;
+  label: string;
+  description: string;
+  tone: string; // Passed to the model so every section reads the same way
+  sections: { title: string; brief: string }[];
+}
+
+export interface OutlineSection {
+  id: string;
+  title: string;
+  brief: string; // What the section should cover
+}
+
+export interface ReportBrief {
+  type: ReportType;
+  title: string;
+  topic: string;
+}
+
+// Outlines outside this range are almost always a model misunderstanding
+const MIN_OUTLINE_SECTIONS = 2;
+const MAX_OUTLINE_SECTIONS = 15;
+
+export const REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'lab-report',
+    label: 'Lab report',
+    description: 'An experiment write-up: aim, method, results and what they mean.',
+    tone: 'formal, objective scientific writing in the past tense, passive voice where natural',
+    sections: [
+      { title: 'Abstract', brief: 'A one-paragraph summary of the aim, method, key results and conclusion.' },
+      { title: 'Introduction', brief: 'Background theory, the aim of the experiment and the hypothesis.' },
+      { title: 'Materials and Methods', brief: 'Equipment, materials and the step-by-step procedure, detailed enough to repeat.' },
+      { title: 'Results', brief: 'The observations and measurements, with a table of the data.' },
+      { title: 'Discussion', brief: 'Interpretation of the results, comparison with the hypothesis, sources of error and improvements.' },
+      { title: 'Conclusion', brief: 'Whether the aim was met and the main finding.' },
+      { title: 'References', brief: 'The sources cited, in a consistent citation style.' }
+    ]
+  },
+  {
+    id: 'project-proposal',
+    label: 'Project proposal',
+    description: 'A pitch for a project: the problem, the plan, the cost and the payoff.',
+    tone: 'clear, persuasive professional writing aimed at decision makers',
+    sections: [
+      { title: 'Executive Summary', brief: 'The problem, the proposed project and the expected benefit in a few sentences.' },
+      { title: 'Background and Problem Statement', brief: 'The current situation and why it needs to change.' },
+      { title: 'Objectives', brief: 'Specific, measurable goals as a bulleted list.' },
+      { title: 'Scope and Approach', brief: 'What is in and out of scope, and how the work will be done.' },
+      { title: 'Timeline and Milestones', brief: 'The phases of the project with dates or durations, as a table.' },
+      { title: 'Budget and Resources', brief: 'Estimated costs and the people and tools needed, as a table.' },
+      { title: 'Risks and Mitigation', brief: 'The main risks and how each will be handled.' },
+      { title: 'Conclusion', brief: 'Why the project should go ahead and the decision being asked for.' }
+    ]
+  },
+  {
+    id: 'business-report',
+    label: 'Business report',
+    description: 'An analysis of a business question with findings and recommendations.',
+    tone: 'concise, professional business writing with evidence-backed statements',
+    sections: [
+      { title: 'Executive Summary', brief: 'The purpose, the key findings and the main recommendations.' },
+      { title: 'Introduction', brief: 'The purpose and scope of the report and how the information was gathered.' },
+      { title: 'Findings', brief: 'The facts and analysis, organised under short subheadings.' },
+      { title: 'Analysis', brief: 'What the findings mean for the business, including strengths, weaknesses and trends.' },
+      { title: 'Recommendations', brief: 'Specific, actionable recommendations as a numbered list.' },
+      { title: 'Conclusion', brief: 'A short wrap-up of the findings and recommended next steps.' }
+    ]
+  }
+];
+
+export const getReportTemplate = (type: ReportType): ReportTemplate =>
+  REPORT_TEMPLATES.find(template => template.id === type) || REPORT_TEMPLATES[0];
+
+export const createOutlineSection = (title = '', brief = ''): OutlineSection => ({
+  id: `sec_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  title,
+  brief
+});
+
+// The template's standard outline, used as-is or when the AI outline fails
+export const templateOutline = (type: ReportType): OutlineSection[] =>
+  getReportTemplate(type).sections.map(section => createOutlineSection(section.title, section.brief));
+
+/**
+ * Reads the model's outline reply: a JSON array of {title, brief}, possibly wrapped
+ * in a code fence or surrounded by text.
+ */
+export const parseOutlineReply = (reply: string): OutlineSection[] => {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) throw new Error('❌ The AI did not return an outline');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    throw new Error('❌ The AI returned an outline that could not be read');
+  }
+
+  const sections = (Array.isArray(parsed) ? parsed : [])
+    .filter((item: any) => item && typeof item.title === 'string' && item.title.trim())
+    .map((item: any) => createOutlineSection(item.title.trim(), typeof item.brief === 'string' ? item.brief.trim() : ''));
+  if (sections.length < MIN_OUTLINE_SECTIONS || sections.length > MAX_OUTLINE_SECTIONS) {
+    throw new Error(`❌ The AI returned an outline with ${sections.length} sections`);
+  }
+  return sections;
+};
+
+/**
+ * Tidies a drafted section: drops a leading heading that repeats the section title
+ * (the document adds its own) and demotes h1s so they don't compete with section headings.
+ */
+export const cleanSectionDraft = (html: string, title: string): string => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  const container = doc.querySelector('div');
+  if (!container) return html;
+
+  const first = container.firstElementChild;
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  if (first && /^H[1-6]$/.test(first.tagName) && normalize(first.textContent || '') === normalize(title)) {
+    first.remove();
+  }
+
+  container.querySelectorAll('h1').forEach(heading => {
+    const replacement = doc.createElement('h2');
+    replacement.innerHTML = heading.innerHTML;
+    heading.replaceWith(replacement);
+  });
+  container.querySelectorAll('script, style, img').forEach(element => element.remove());
+  return container.innerHTML.trim();
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The new document: a title, then every section as a Heading 1 followed by its draft.
+ * Sections without a draft keep their brief as a placeholder to write over.
+ */
+export const buildReportHtml = (brief: ReportBrief, outline: OutlineSection[], drafts: Record<string, string>): string => {
+  const title = brief.title.trim() || getReportTemplate(brief.type).label;
+  const sections = outline.map(section => {
+    const body = drafts[section.id]
+      || `<p style="color: #6b7280; font-style: italic;">${escapeHtml(section.brief || 'Write this section.')}</p>`;
+    return `<h1>${escapeHtml(section.title)}</h1>${body}`;
+  });
+  return ensureBlockIds(`<p class="doc-title">${escapeHtml(title)}</p>${sections.join('')}`);
+};
@@ -0,0 +1,224 @@
+// Offline spell checker for Hunspell-format dictionaries (.aff + .dic). Supports the parts
+// of the format the bundled dictionary uses: SET, TRY, REP, ICONV, NOSUGGEST and one level
+// of PFX/SFX rules with cross products. Compounding isn't supported; the bundled dictionary
+// only uses it for ordinals like "21st", and numbers are never checked, so ONLYINCOMPOUND
+// entries are skipped. Every word form is expanded up front, so a check is a Set lookup.
+
+interface AffixRule {
+  strip: string;
+  add: string;
+  condition: RegExp;
+}
+
+interface AffixClass {
+  kind: 'PFX' | 'SFX';
+  crossProduct: boolean;
+  rules: AffixRule[];
+}
+
+export interface SpellChecker {
+  check: (word: string) => boolean;
+  suggest: (word: string, limit?: number) => string[];
+  setCustomWords: (words: string[]) => void;
+}
+
+interface ParsedAffixes {
+  classes: Map<string, AffixClass>;
+  tryChars: string;
+  replacements: [string, string][];
+  conversions: [string, string][]; // ICONV: typographic characters mapped before lookup
+  noSuggestFlag?: string;
+  onlyInCompoundFlag?: string;
+}
+
+// Second-round edits are only worth their cost on short words
+const MAX_EDITS2_LENGTH = 10;
+const DEFAULT_SUGGESTIONS = 5;
+
+const parseAffixes = (aff: string): ParsedAffixes => {
+  const classes = new Map<string, AffixClass>();
+  let tryChars = 'esianrtolcdugmphbyfvkwz';
+  const replacements: [string, string][] = [];
+  const conversions: [string, string][] = [];
+  let noSuggestFlag: string | undefined;
+  let onlyInCompoundFlag: string | undefined;
+
+  aff.split(/\r?\n/).forEach(line => {
+    const parts = line.trim().split(/\s+/);
+    if (!parts[0] || parts[0].startsWith('#')) return;
+
+    if (parts[0] === 'TRY' && parts[1]) {
+      tryChars = parts[1];
+    } else if (parts[0] === 'REP' && parts.length >= 3) {
+      replacements.push([parts[1], parts[2].replace(/_/g, ' ')]);
+    } else if (parts[0] === 'ICONV' && parts.length >= 3) {
+      conversions.push([parts[1], parts[2]]);
+    } else if (parts[0] === 'NOSUGGEST' && parts[1]) {
+      noSuggestFlag = parts[1];
+    } else if (parts[0] === 'ONLYINCOMPOUND' && parts[1]) {
+      onlyInCompoundFlag = parts[1];
+    } else if (parts[0] === 'PFX' || parts[0] === 'SFX') {
+      const kind = parts[0];
+      const flag = parts[1];
+      const existing = classes.get(flag);
+      if (!existing) {
+        // Header line: PFX flag cross_product count
+        classes.set(flag, { kind, crossProduct: parts[2] === 'Y', rules: [] });
+        return;
+      }
+      const strip = parts[2] === '0' ? '' : parts[2];
+      const add = parts[3] === '0' ? '' : (parts[3] || '').split('/')[0];
+      const condition = parts[4] && parts[4] !== '.' ? parts[4] : '.';
+      existing.rules.push({
+        strip,
+        add,
+        condition: new RegExp(kind === 'SFX' ? `(${condition})$` : `^(${condition})`)
+      });
+    }
+  });
+
+  return { classes, tryChars, replacements, conversions, noSuggestFlag, onlyInCompoundFlag };
+};
+
+const applyAffix = (word: string, affix: AffixClass): string[] =>
+  affix.rules.flatMap(rule => {
+    if (!rule.condition.test(word)) return [];
+    if (affix.kind === 'SFX') {
+      if (!word.endsWith(rule.strip)) return [];
+      return [word.slice(0, word.length - rule.strip.length) + rule.add];
+    }
+    if (!word.startsWith(rule.strip)) return [];
+    return [rule.add + word.slice(rule.strip.length)];
+  });
+
+// All forms of one .dic entry: the stem, each affixed form and prefix + suffix combinations
+const expandEntry = (word: string, flags: string, classes: Map<string, AffixClass>): string[] => {
+  const forms = [word];
+  const affixes = Array.from(flags).map(flag => classes.get(flag)).filter((affix): affix is AffixClass => !!affix);
+  const suffixes = affixes.filter(affix => affix.kind === 'SFX');
+  const prefixes = affixes.filter(affix => affix.kind === 'PFX');
+
+  const suffixed = suffixes.flatMap(suffix => applyAffix(word, suffix).map(form => ({ form, suffix })));
+  forms.push(...suffixed.map(({ form }) => form));
+
+  prefixes.forEach(prefix => {
+    forms.push(...applyAffix(word, prefix));
+    if (!prefix.crossProduct) return;
+    suffixed
+      .filter(({ suffix }) => suffix.crossProduct)
+      .forEach(({ form }) => forms.push(...applyAffix(form, prefix)));
+  });
+  return forms;
+};
+
+const isCapitalized = (word: string) => /^\p{Lu}[^\p{Lu}]*$/u.test(word);
+const isAllCaps = (word: string) => word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase();
+
+const matchCase = (suggestion: string, original: string): string => {
+  if (isAllCaps(original)) return suggestion.toUpperCase();
+  if (isCapitalized(original)) return suggestion.charAt(0).toUpperCase() + suggestion.slice(1);
+  return suggestion;
+};
+
+// Several .dic files can share one .aff: the main dictionary plus supplementary word lists
+export const createSpellChecker = (aff: string, ...dics: string[]): SpellChecker => {
+  const { classes, tryChars, replacements, conversions, noSuggestFlag, onlyInCompoundFlag } = parseAffixes(aff);
+  const words = new Set<string>();
+  // Correct but never offered as a suggestion (the dictionary marks offensive words this way)
+  const noSuggest = new Set<string>();
+  let customWords = new Set<string>();
+
+  // The first line of a .dic file is the entry count
+  dics.flatMap(dic => dic.split(/\r?\n/).slice(1)).forEach(line => {
+    const entry = line.trim();
+    if (!entry) return;
+    const slash = entry.indexOf('/');
+    const word = slash === -1 ? entry : entry.slice(0, slash);
+    const flags = slash === -1 ? '' : entry.slice(slash + 1);
+    if (onlyInCompoundFlag && flags.includes(onlyInCompoundFlag)) return;
+    const forms = expandEntry(word, flags, classes);
+    forms.forEach(form => words.add(form));
+    if (noSuggestFlag && flags.includes(noSuggestFlag)) forms.forEach(form => noSuggest.add(form));
+  });
+
+  const convert = (word: string) => conversions.reduce((result, [from, to]) => result.split(from).join(to), word);
+
+  const letters = Array.from(new Set(tryChars.toLowerCase()));
+
+  const isKnown = (word: string) => words.has(word) || customWords.has(word.toLowerCase());
+
+  const check = (input: string): boolean => {
+    const word = convert(input);
+    if (isKnown(word)) return true;
+    // Sentence-initial or all-caps forms of lower-case words
+    if ((isCapitalized(word) || isAllCaps(word)) && isKnown(word.toLowerCase())) return true;
+    if (isAllCaps(word) && isKnown(word.charAt(0) + word.slice(1).toLowerCase())) return true;
+    // Possessives: report's, reports'
+    if (/'s$/i.test(word)) return check(word.slice(0, -2));
+    if (/s'$/i.test(word)) return check(word.slice(0, -1));
+    return false;
+  };
+
+  const edits = (word: string): string[] => {
+    const results: string[] = [];
+    for (let i = 0; i < word.length - 1; i++) {
+      results.push(word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2));
+    }
+    for (let i = 0; i < word.length; i++) {
+      results.push(word.slice(0, i) + word.slice(i + 1));
+      letters.forEach(letter => results.push(word.slice(0, i) + letter + word.slice(i + 1)));
+    }
+    for (let i = 0; i <= word.length; i++) {
+      letters.forEach(letter => results.push(word.slice(0, i) + letter + word.slice(i)));
+    }
+    return results;
+  };
+
+  const suggest = (input: string, limit = DEFAULT_SUGGESTIONS): string[] => {
+    const original = convert(input);
+    const word = original.toLowerCase();
+    const found: string[] = [];
+    const accept = (candidate: string) => {
+      if (candidate === word || found.includes(candidate)) return;
+      if (candidate.split(' ').every(part => check(part) && !noSuggest.has(part))) {
+        found.push(candidate);
+      }
+    };
+
+    // Known misspellings first, then single edits, then words run together
+    replacements.forEach(([from, to]) => {
+      if (word.includes(from)) accept(word.split(from).join(to));
+    });
+    const firstEdits = edits(word);
+    firstEdits.forEach(accept);
+    for (let i = 1; i < word.length; i++) {
+      accept(`${word.slice(0, i)} ${word.slice(i)}`);
+    }
+
+    if (found.length === 0 && word.length <= MAX_EDITS2_LENGTH) {
+      const seen = new Set<string>();
+      for (const edit of firstEdits) {
+        for (const candidate of edits(edit)) {
+          if (seen.has(candidate)) continue;
+          seen.add(candidate);
+          accept(candidate);
+          if (found.length >= limit) break;
+        }
+        if (found.length >= limit) break;
+      }
+    }
+
+    // Same first letter reads as the more likely intent
+    const ranked = found
+      .map((candidate, index) => ({ candidate, index, sameStart: candidate[0] === word[0] }))
+      .sort((a, b) => Number(b.sameStart) - Number(a.sameStart) || a.index - b.index)
+      .map(({ candidate }) => matchCase(candidate, original));
+    return ranked.slice(0, limit);
+  };
+
+  const setCustomWords = (list: string[]) => {
+    customWords = new Set(list.map(word => word.toLowerCase()));
+  };
+
+  return { check, suggest, setCustomWords };
+};
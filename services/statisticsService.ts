@@ -0,0 +1,235 @@
+// Word counts and readability for the statistics panel. The text analysis of each block is
+// cached by its text, so while the user types only the edited block is analysed again and
+// the totals are re-summed from the cache.
+import { blockTextRange, collectBlockText, isPageBreakElement } from './blockService';
+import { ABBREVIATIONS } from './grammarRules';
+import { TOC_CLASS } from './tocService';
+
+// Sentences longer than this are flagged as hard to follow
+export const LONG_SENTENCE_WORDS = 25;
+const LONGEST_SENTENCES_SHOWN = 5;
+const MAX_CACHED_TEXTS = 2000;
+// Headings that start a new section; smaller headings belong to the section above
+const SECTION_HEADINGS = ['H1', 'H2'];
+// Blocks whose text is read as running sentences (headings and tables are not)
+const PROSE_BLOCKS = ['P', 'DIV', 'BLOCKQUOTE', 'UL', 'OL'];
+
+export interface SentenceStatistic {
+  blockIndex: number; // Among the top-level blocks of all pages
+  start: number; // Offsets into the block's plain text
+  end: number;
+  text: string;
+  words: number;
+}
+
+export interface ReadabilityStatistics {
+  words: number;
+  sentences: number;
+  readingEase: number | null; // Flesch reading ease: 0-100, higher is easier
+  gradeLevel: number | null; // Flesch-Kincaid grade level
+  averageSentenceLength: number | null; // Words per sentence
+  longestSentences: SentenceStatistic[];
+}
+
+export interface SectionStatistics extends ReadabilityStatistics {
+  title: string;
+  blockIndex: number; // The section's heading, -1 for text before the first heading
+}
+
+export interface DocumentStatistics {
+  words: number;
+  characters: number;
+  charactersWithoutSpaces: number;
+  paragraphs: number;
+  pages: number;
+  images: number;
+  tables: number;
+  readability: ReadabilityStatistics;
+  sections: SectionStatistics[];
+}
+
+interface SentenceAnalysis {
+  start: number;
+  end: number;
+  words: number;
+  syllables: number;
+}
+
+interface TextAnalysis {
+  words: number;
+  characters: number;
+  charactersWithoutSpaces: number;
+  sentences: SentenceAnalysis[];
+}
+
+interface ScopeTotals {
+  words: number;
+  sentences: (SentenceAnalysis & { blockIndex: number; text: string })[];
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’.-][\p{L}\p{N}]+)*/gu;
+const analysisCache = new Map<string, TextAnalysis>();
+
+const countWords = (text: string): string[] => text.match(WORD_PATTERN) || [];
+
+// Vowel-group heuristic: close enough for readability formulas, which were built on estimates too
+const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 1;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+};
+
+// Sentence boundaries: . ! ? followed by a space or the end, and line breaks
+const splitSentences = (text: string): [number, number][] => {
+  const sentences: [number, number][] = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (/[\p{L}\p{N}]/u.test(text.slice(start, end))) sentences.push([start, end]);
+  };
+
+  const boundary = /([.!?]+)["')\]’”]*(?=\s|$)|\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    if (match[1] === '.') {
+      const before = text.slice(start, match.index).match(/([A-Za-z.]+)$/);
+      if (before && (ABBREVIATIONS.has(before[1].toLowerCase()) || /^[A-Za-z]$/.test(before[1]))) continue;
+    }
+    const end = match.index + match[0].length;
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+  return sentences;
+};
+
+const analyseText = (text: string): TextAnalysis => {
+  const cached = analysisCache.get(text);
+  if (cached) return cached;
+
+  const analysis: TextAnalysis = {
+    words: countWords(text).length,
+    characters: text.replace(/\n/g, '').length,
+    charactersWithoutSpaces: text.replace(/\s/g, '').length,
+    sentences: splitSentences(text).map(([start, end]) => {
+      const words = countWords(text.slice(start, end));
+      return { start, end, words: words.length, syllables: words.reduce((sum, word) => sum + countSyllables(word), 0) };
+    })
+  };
+
+  analysisCache.set(text, analysis);
+  if (analysisCache.size > MAX_CACHED_TEXTS) {
+    const oldest = analysisCache.keys().next().value;
+    if (oldest !== undefined) analysisCache.delete(oldest);
+  }
+  return analysis;
+};
+
+const readability = ({ words, sentences }: ScopeTotals): ReadabilityStatistics => {
+  const sentenceWords = sentences.reduce((sum, sentence) => sum + sentence.words, 0);
+  const syllables = sentences.reduce((sum, sentence) => sum + sentence.syllables, 0);
+  const wordsPerSentence = sentences.length > 0 ? sentenceWords / sentences.length : null;
+  const syllablesPerWord = sentenceWords > 0 ? syllables / sentenceWords : null;
+
+  return {
+    words,
+    sentences: sentences.length,
+    readingEase: wordsPerSentence !== null && syllablesPerWord !== null
+      ? 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord
+      : null,
+    gradeLevel: wordsPerSentence !== null && syllablesPerWord !== null
+      ? 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59
+      : null,
+    averageSentenceLength: wordsPerSentence,
+    longestSentences: [...sentences]
+      .sort((a, b) => b.words - a.words)
+      .slice(0, LONGEST_SENTENCES_SHOWN)
+      .map(({ blockIndex, start, end, text, words: count }) => ({ blockIndex, start, end, text, words: count }))
+  };
+};
+
+// The top-level blocks of the live pages, in document order
+const documentBlocks = (pages: HTMLElement[]): HTMLElement[] =>
+  pages
+    .flatMap(page => Array.from(page.children))
+    .filter((block): block is HTMLElement => block instanceof HTMLElement && !isPageBreakElement(block));
+
+/**
+ * Statistics for the live pages. The page count comes from the editor's last pagination
+ * so it always matches the pages on screen.
+ */
+export const collectStatistics = (pages: HTMLElement[], pageCount: number): DocumentStatistics => {
+  const totals = { words: 0, characters: 0, charactersWithoutSpaces: 0, paragraphs: 0, images: 0, tables: 0 };
+  const whole: ScopeTotals = { words: 0, sentences: [] };
+  const sections: (ScopeTotals & { title: string; blockIndex: number })[] = [];
+  let section = { title: 'Before the first heading', blockIndex: -1, words: 0, sentences: [] as ScopeTotals['sentences'] };
+
+  documentBlocks(pages).forEach((block, blockIndex) => {
+    totals.images += block.tagName === 'IMG' ? 1 : block.querySelectorAll('img').length;
+    totals.tables += block.tagName === 'TABLE' ? 1 : block.querySelectorAll('table').length;
+    // The table of contents repeats the headings
+    if (block.classList.contains(TOC_CLASS)) return;
+
+    const { text } = collectBlockText(block);
+    if (!text.trim()) return;
+    const analysis = analyseText(text);
+    totals.words += analysis.words;
+    totals.characters += analysis.characters;
+    totals.charactersWithoutSpaces += analysis.charactersWithoutSpaces;
+    if (block.tagName !== 'TABLE') {
+      totals.paragraphs += ['UL', 'OL'].includes(block.tagName) ? block.querySelectorAll('li').length : 1;
+    }
+
+    if (SECTION_HEADINGS.includes(block.tagName)) {
+      if (section.words > 0 || section.blockIndex !== -1) sections.push(section);
+      section = { title: text.replace(/\s+/g, ' ').trim(), blockIndex, words: 0, sentences: [] };
+    }
+    section.words += analysis.words;
+    whole.words += analysis.words;
+
+    if (PROSE_BLOCKS.includes(block.tagName)) {
+      const sentences = analysis.sentences.map(sentence => ({ ...sentence, blockIndex, text: text.slice(sentence.start, sentence.end) }));
+      section.sentences.push(...sentences);
+      whole.sentences.push(...sentences);
+    }
+  });
+  if (section.words > 0 || section.blockIndex !== -1) sections.push(section);
+
+  return {
+    ...totals,
+    pages: pageCount,
+    readability: readability(whole),
+    sections: sections.map(({ title, blockIndex, ...scope }) => ({ ...readability(scope), title, blockIndex }))
+  };
+};
+
+/**
+ * Finds a sentence from the statistics on the live pages. Falls back to searching every
+ * block when the text has moved since the statistics were collected.
+ */
+export const findSentenceRange = (pages: HTMLElement[], sentence: SentenceStatistic): Range | null => {
+  const blocks = documentBlocks(pages);
+  const candidates = [blocks[sentence.blockIndex], ...blocks].filter(Boolean);
+  for (const block of candidates) {
+    const blockText = collectBlockText(block);
+    const start = blockText.text.slice(sentence.start, sentence.end) === sentence.text
+      ? sentence.start
+      : blockText.text.indexOf(sentence.text);
+    if (start !== -1) return blockTextRange(blockText, start, start + sentence.text.length);
+  }
+  return null;
+};
+
+// Plain-language band for a Flesch reading ease score
+export const describeReadingEase = (score: number): string => {
+  if (score >= 90) return 'Very easy';
+  if (score >= 80) return 'Easy';
+  if (score >= 70) return 'Fairly easy';
+  if (score >= 60) return 'Plain English';
+  if (score >= 50) return 'Fairly difficult';
+  if (score >= 30) return 'Difficult';
+  return 'Very difficult';
+};
@@ -0,0 +1,201 @@
+// Table of contents built from the h1-h3 headings, with page numbers taken from the same
+// pagination the editor shows. Every TOC line is its own top-level block (so a long TOC
+// paginates like any other content), and the whole TOC is rebuilt in place on refresh.
+import { BLOCK_ID_ATTR, blockBookmarkName, ensureBlockIds } from './blockService';
+import { paginateHtml } from './docService';
+
+export const TOC_CLASS = 'toc-block';
+const TOC_TITLE = 'Contents';
+const TOC_LEVELS = ['H1', 'H2', 'H3'];
+// A longer TOC pushes headings to later pages, which can change the numbers again
+const MAX_TOC_PASSES = 3;
+// Right tab stop for the page numbers in Word: page width minus the export margins (8.5in - 2in)
+const WORD_TOC_TAB_STOP = '468pt';
+
+export interface TocLinkArea {
+  x: number; // CSS pixels relative to the page, unscaled
+  y: number;
+  width: number;
+  height: number;
+  pageNumber: number; // 1-based page the link jumps to
+}
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const tocBlocks = (container: HTMLElement): Element[] =>
+  Array.from(container.children).filter(child => child.classList.contains(TOC_CLASS));
+
+export const hasToc = (html: string): boolean => html.includes(TOC_CLASS);
+
+// 1-based page of every block id, from the pages paginateHtml produced
+const pageNumbers = (pages: string[]): Map<string, number> => {
+  const numbers = new Map<string, number>();
+  const pattern = new RegExp(`${BLOCK_ID_ATTR}="([^"]+)"`, 'g');
+  pages.forEach((page, index) => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(page)) !== null) {
+      if (!numbers.has(match[1])) numbers.set(match[1], index + 1);
+    }
+  });
+  return numbers;
+};
+
+const buildTocHtml = (container: HTMLElement, pages: string[]): string => {
+  const numbers = pageNumbers(pages);
+  const headings = Array.from(container.children).filter(child =>
+    TOC_LEVELS.includes(child.tagName) && child.hasAttribute(BLOCK_ID_ATTR) && (child.textContent || '').trim()
+  );
+
+  const title = `<p class="${TOC_CLASS} toc-title" style="font-size: 16pt; font-weight: bold; margin-bottom: 12pt;">${TOC_TITLE}</p>`;
+  if (headings.length === 0) {
+    return title + `<p class="${TOC_CLASS} toc-empty" style="color: #6b7280; font-style: italic;">Add Heading 1-3 headings to build the table of contents.</p>`;
+  }
+
+  return title + headings.map(heading => {
+    const level = TOC_LEVELS.indexOf(heading.tagName) + 1;
+    const id = heading.getAttribute(BLOCK_ID_ATTR) || '';
+    const text = escapeHtml((heading.textContent || '').replace(/\s+/g, ' ').trim());
+    return `<p class="${TOC_CLASS} toc-entry toc-level-${level}" data-toc-target="${id}" style="display: flex; align-items: baseline; margin: 0 0 4pt ${(level - 1) * 1.5}em;${level === 1 ? ' font-weight: bold;' : ''}">` +
+      `<a href="#${id}" style="color: inherit; text-decoration: none;">${text}</a>` +
+      `<span class="toc-leader" style="flex: 1; border-bottom: 1px dotted #9ca3af; margin: 0 6px;"></span>` +
+      `<span class="toc-page">${numbers.get(id) ?? ''}</span></p>`;
+  }).join('');
+};
+
+/**
+ * Rebuilds the TOC from the current headings and pages. Existing TOC block ids are
+ * reused in order so a refresh doesn't churn ids. Returns the html unchanged when the
+ * TOC is already up to date.
+ */
+const rebuildToc = (html: string, pages: string[]): string => {
+  const container = parseContainer(html);
+  if (!container) return html;
+  const existing = tocBlocks(container);
+  if (existing.length === 0) return html;
+
+  const template = container.ownerDocument.createElement('template');
+  template.innerHTML = buildTocHtml(container, pages);
+  const fresh = Array.from(template.content.children);
+  fresh.forEach((block, index) => {
+    const id = existing[index]?.getAttribute(BLOCK_ID_ATTR);
+    if (id) block.setAttribute(BLOCK_ID_ATTR, id);
+  });
+
+  const withoutIds = (blocks: Element[]) => blocks.map(block => {
+    const clone = block.cloneNode(true) as Element;
+    clone.removeAttribute(BLOCK_ID_ATTR);
+    return clone.outerHTML;
+  }).join('');
+  if (existing.length === fresh.length && withoutIds(existing) === withoutIds(fresh)) return html;
+
+  existing[0].before(...fresh);
+  existing.forEach(block => block.remove());
+  return ensureBlockIds(container.innerHTML);
+};
+
+/**
+ * Brings the page numbers and titles of an existing TOC up to date. Pass the pages the
+ * editor already has to skip the first pagination. Documents without a TOC are returned
+ * as-is.
+ */
+export const refreshToc = async (html: string, pages?: string[]): Promise<string> => {
+  if (!hasToc(html)) return html;
+
+  let current = ensureBlockIds(html);
+  let currentPages = pages && current === html ? pages : await paginateHtml(current);
+  for (let pass = 0; pass < MAX_TOC_PASSES; pass++) {
+    const next = rebuildToc(current, currentPages);
+    if (next === current) break;
+    current = next;
+    currentPages = await paginateHtml(current);
+  }
+  return current;
+};
+
+/**
+ * Inserts a TOC after the given block (or at the top of the document) and fills in its
+ * page numbers. An existing TOC is moved rather than duplicated.
+ */
+export const insertToc = async (html: string, afterBlockId: string | null): Promise<string> => {
+  const container = parseContainer(ensureBlockIds(html));
+  if (!container) return html;
+
+  tocBlocks(container).forEach(block => block.remove());
+  const placeholder = container.ownerDocument.createElement('p');
+  placeholder.className = TOC_CLASS;
+
+  const anchor = afterBlockId ? container.querySelector(`:scope > [${BLOCK_ID_ATTR}="${afterBlockId}"]`) : null;
+  if (anchor) {
+    anchor.after(placeholder);
+  } else {
+    container.prepend(placeholder);
+  }
+  console.log('📑 Inserting table of contents');
+  return refreshToc(ensureBlockIds(container.innerHTML));
+};
+
+/**
+ * Before DOCX export: turns the TOC into a real Word TOC field. The entries become the
+ * field's cached result (with links to the heading bookmarks), so Word shows them as-is
+ * and rebuilds them when the user updates the field.
+ */
+export const prepareTocForWord = (root: HTMLElement) => {
+  const doc = root.ownerDocument;
+  const entries = Array.from(root.querySelectorAll('.toc-entry'));
+  root.querySelectorAll('.toc-empty').forEach(block => block.remove());
+  if (entries.length === 0) return;
+
+  entries.forEach(entry => {
+    const level = Number(/toc-level-(\d)/.exec(entry.className)?.[1] || 1);
+    const target = entry.getAttribute('data-toc-target') || '';
+    const text = entry.querySelector('a')?.textContent || '';
+    const page = entry.querySelector('.toc-page')?.textContent || '';
+
+    const paragraph = doc.createElement('p');
+    paragraph.className = `MsoToc${level}`;
+    const blockId = entry.getAttribute(BLOCK_ID_ATTR);
+    if (blockId) paragraph.setAttribute(BLOCK_ID_ATTR, blockId);
+    paragraph.setAttribute('style', `margin: 0 0 4pt ${(level - 1) * 1.5}em; tab-stops: right dotted ${WORD_TOC_TAB_STOP};${level === 1 ? ' font-weight: bold;' : ''}`);
+    paragraph.innerHTML = `<a href="#${blockBookmarkName(target)}">${escapeHtml(text)}<span style="mso-tab-count: 1 dotted"> </span>${escapeHtml(page)}</a>`;
+    entry.replaceWith(paragraph);
+  });
+
+  const paragraphs = Array.from(root.querySelectorAll('p[class^="MsoToc"]'));
+  paragraphs[0].prepend(doc.createComment(
+    `[if supportFields]><span style='mso-element:field-begin'></span> TOC \\o "1-3" \\h \\z \\u <span style='mso-element:field-separator'></span><![endif]`
+  ));
+  paragraphs[paragraphs.length - 1].append(doc.createComment(
+    `[if supportFields]><span style='mso-element:field-end'></span><![endif]`
+  ));
+};
+
+/**
+ * Clickable areas of the TOC entries on one rendered page, for internal links in the
+ * PDF export. Coordinates are unscaled, so they hold at any zoom level.
+ */
+export const tocLinkAreas = (page: HTMLElement, pages: HTMLElement[]): TocLinkArea[] => {
+  const pageRect = page.getBoundingClientRect();
+  const scale = page.offsetWidth > 0 ? pageRect.width / page.offsetWidth : 1;
+
+  return Array.from(page.querySelectorAll('.toc-entry')).flatMap(entry => {
+    const target = entry.getAttribute('data-toc-target');
+    const targetIndex = target ? pages.findIndex(other => other.querySelector(`[${BLOCK_ID_ATTR}="${target}"]`)) : -1;
+    if (targetIndex === -1) return [];
+
+    const rect = entry.getBoundingClientRect();
+    return [{
+      x: (rect.left - pageRect.left) / scale,
+      y: (rect.top - pageRect.top) / scale,
+      width: rect.width / scale,
+      height: rect.height / scale,
+      pageNumber: targetIndex + 1
+    }];
+  });
+};
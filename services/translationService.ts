@@ -0,0 +1,98 @@
+// Format-preserving translation helpers: a translated block is only accepted when its
+// markup skeleton (every tag, attribute, inline style and image placeholder) matches the
+// block we sent, so the translated document has exactly the layout of the original.
+import { BLOCK_ID_ATTR } from './blockService';
+
+export interface BlockTranslationCheck {
+  accepted: Map<string, string>; // Block id -> translated outerHTML
+  rejected: string[]; // Block ids that came back missing or with different markup
+}
+
+// Attributes that hold human-readable text and may be translated along with the content
+const TRANSLATABLE_ATTRIBUTES = new Set(['alt', 'title']);
+
+const parseContainer = (html: string): HTMLElement | null => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  return doc.querySelector('div');
+};
+
+// Models often re-serialize inline styles ("color: red;" -> "color:red"), which isn't a real change
+const normalizeAttribute = (name: string, value: string): string => {
+  const collapsed = value.replace(/\s+/g, ' ').trim();
+  return name === 'style'
+    ? collapsed.replace(/\s*([:;])\s*/g, '$1').replace(/;$/, '')
+    : collapsed;
+};
+
+/**
+ * Tag names and attributes of an element and all its descendants, in document order,
+ * with the text left out. Two blocks with the same skeleton differ only in their wording.
+ */
+export const markupSkeleton = (element: Element): string => {
+  const attributes = Array.from(element.attributes)
+    .filter(attribute => !TRANSLATABLE_ATTRIBUTES.has(attribute.name))
+    .map(attribute => `${attribute.name}="${normalizeAttribute(attribute.name, attribute.value)}"`)
+    .sort()
+    .join(' ');
+  const children = Array.from(element.children).map(markupSkeleton).join('');
+  return `<${element.tagName.toLowerCase()} ${attributes}>${children}</${element.tagName.toLowerCase()}>`;
+};
+
+/**
+ * Compares the blocks we sent with the model's translation, block by block. Blocks
+ * without an id (page break markers) are never sent for translation, so they're ignored.
+ */
+export const checkTranslatedBlocks = (sentHtml: string, returnedHtml: string): BlockTranslationCheck => {
+  const accepted = new Map<string, string>();
+  const rejected: string[] = [];
+  const sent = parseContainer(sentHtml);
+  const returned = parseContainer(returnedHtml);
+  if (!sent) return { accepted, rejected };
+
+  // A block id that comes back twice means the model split or repeated something - reject both
+  const returnedBlocks = new Map<string, Element | null>();
+  Array.from(returned?.children || []).forEach(child => {
+    const id = child.getAttribute(BLOCK_ID_ATTR);
+    if (id) returnedBlocks.set(id, returnedBlocks.has(id) ? null : child);
+  });
+
+  Array.from(sent.children).forEach(block => {
+    const id = block.getAttribute(BLOCK_ID_ATTR);
+    if (!id) return;
+    const translated = returnedBlocks.get(id);
+    if (translated && markupSkeleton(translated) === markupSkeleton(block)) {
+      accepted.set(id, translated.outerHTML);
+    } else {
+      rejected.push(id);
+    }
+  });
+
+  return { accepted, rejected };
+};
+
+// The top-level blocks with the given ids, in document order
+export const selectBlocks = (html: string, blockIds: string[]): string => {
+  const container = parseContainer(html);
+  if (!container) return '';
+  const wanted = new Set(blockIds);
+  return Array.from(container.children)
+    .filter(child => wanted.has(child.getAttribute(BLOCK_ID_ATTR) || ''))
+    .map(child => child.outerHTML)
+    .join('');
+};
+
+/**
+ * Swaps translated blocks into the source HTML by block id. Anything without a
+ * translation stays in the original language.
+ */
+export const assembleTranslation = (sourceHtml: string, translated: Map<string, string>): string => {
+  const container = parseContainer(sourceHtml);
+  if (!container) return sourceHtml;
+
+  Array.from(container.children).forEach(child => {
+    const html = translated.get(child.getAttribute(BLOCK_ID_ATTR) || '');
+    if (html) child.outerHTML = html;
+  });
+  return container.innerHTML;
+};
@@ -0,0 +1,205 @@
+// Structural validation of AI output: compares the document (or selection) we sent with
+// what came back, so dropped headings, tables, lists and images are caught before the
+// result reaches the user.
+import { BLOCK_ID_ATTR } from './blockService';
+
+export type ValidationCheck = 'headings' | 'tables' | 'lists' | 'images' | 'markup';
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  message: string;
+}
+
+export interface ValidationOptions {
+  // Blocks the model removed on purpose (patch "delete" operations) - left out of the comparison
+  removedBlockIds?: string[];
+}
+
+interface StructureInventory {
+  headings: { level: number; text: string }[];
+  tables: { rows: number; columns: number }[];
+  lists: number;
+  listItems: number;
+}
+
+const PLACEHOLDER_PATTERN = /__IMG_PLACEHOLDER_\d+__/g;
+
+// Elements whose closing tag HTML lets you leave out - never reported as unclosed
+const OPTIONAL_CLOSE_TAGS = new Set(['p', 'li', 'td', 'th', 'tr', 'thead', 'tbody', 'tfoot', 'dt', 'dd', 'option', 'colgroup']);
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const CHECK_LABELS: Record<ValidationCheck, string> = {
+  headings: 'Headings',
+  tables: 'Tables',
+  lists: 'Lists',
+  images: 'Images',
+  markup: 'HTML'
+};
+
+const takeInventory = (html: string, removedBlockIds: string[] = []): StructureInventory => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  const container = doc.querySelector('div');
+  if (!container) return { headings: [], tables: [], lists: 0, listItems: 0 };
+
+  const removed = new Set(removedBlockIds);
+  Array.from(container.children).forEach(child => {
+    if (removed.has(child.getAttribute(BLOCK_ID_ATTR) || '')) child.remove();
+  });
+
+  return {
+    headings: Array.from(container.querySelectorAll('h1, h2, h3, h4, h5, h6')).map(heading => ({
+      level: Number(heading.tagName[1]),
+      text: (heading.textContent || '').replace(/\s+/g, ' ').trim()
+    })),
+    tables: Array.from(container.querySelectorAll('table')).map(table => {
+      const rows = Array.from(table.rows);
+      return {
+        rows: rows.length,
+        columns: rows.reduce((max, row) => Math.max(max, row.cells.length), 0)
+      };
+    }),
+    lists: container.querySelectorAll('ul, ol').length,
+    listItems: container.querySelectorAll('li').length
+  };
+};
+
+const countPlaceholders = (html: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  (html.match(PLACEHOLDER_PATTERN) || []).forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  return counts;
+};
+
+/**
+ * Walks the tags of the raw model output and reports the first structural problem:
+ * a closing tag with no matching opener, or an element still open at the end.
+ * DOMParser silently repairs both, which is how truncated replies slip through.
+ */
+export const findMarkupProblem = (html: string): string | null => {
+  const stack: string[] = [];
+  const tagPattern = /<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    const [tag, rawName, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    if (VOID_TAGS.has(name) || selfClosing) continue;
+
+    if (!tag.startsWith('</')) {
+      stack.push(name);
+      continue;
+    }
+
+    const openIndex = stack.lastIndexOf(name);
+    if (openIndex === -1) {
+      return `Unexpected closing tag </${name}>`;
+    }
+    const unclosed = stack.slice(openIndex + 1).find(open => !OPTIONAL_CLOSE_TAGS.has(open));
+    if (unclosed) {
+      return `<${unclosed}> was never closed before </${name}>`;
+    }
+    stack.length = openIndex;
+  }
+
+  // Cut-off replies usually end with a dangling opening tag as well
+  if (/<[^>]*$/.test(html)) {
+    return 'The output ends in the middle of a tag';
+  }
+  const unclosed = stack.find(open => !OPTIONAL_CLOSE_TAGS.has(open));
+  return unclosed ? `<${unclosed}> was never closed` : null;
+};
+
+/**
+ * Compares the HTML we sent with the HTML the model returned. Only losses are reported -
+ * a request can legitimately add headings, tables or list items, but it should never
+ * silently drop them. Every image placeholder must appear exactly once.
+ */
+export const validateStructure = (
+  originalHtml: string,
+  returnedHtml: string,
+  { removedBlockIds = [] }: ValidationOptions = {}
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const before = takeInventory(originalHtml, removedBlockIds);
+  const after = takeInventory(returnedHtml);
+
+  // Headings: compare per level, and name the ones whose text is gone
+  const returnedTexts = new Set(after.headings.map(heading => heading.text));
+  for (let level = 1; level <= 6; level++) {
+    const expected = before.headings.filter(heading => heading.level === level);
+    const returned = after.headings.filter(heading => heading.level === level);
+    if (returned.length >= expected.length) continue;
+
+    const missing = expected.filter(heading => !returnedTexts.has(heading.text)).map(heading => `"${heading.text}"`);
+    issues.push({
+      check: 'headings',
+      message: missing.length > 0
+        ? `Missing H${level} ${missing.length === 1 ? 'heading' : 'headings'}: ${missing.join(', ')}`
+        : `H${level} headings dropped from ${expected.length} to ${returned.length}`
+    });
+  }
+
+  // Tables: count, then dimensions of each table that is still there
+  if (after.tables.length < before.tables.length) {
+    issues.push({ check: 'tables', message: `${before.tables.length} tables in the original, ${after.tables.length} returned` });
+  }
+  before.tables.slice(0, after.tables.length).forEach((table, index) => {
+    const returned = after.tables[index];
+    if (returned.rows < table.rows || returned.columns < table.columns) {
+      issues.push({
+        check: 'tables',
+        message: `Table ${index + 1} shrank from ${table.rows}×${table.columns} to ${returned.rows}×${returned.columns} (rows×columns)`
+      });
+    }
+  });
+
+  // Lists
+  if (after.lists < before.lists) {
+    issues.push({ check: 'lists', message: `${before.lists} lists in the original, ${after.lists} returned` });
+  }
+  if (after.listItems < before.listItems) {
+    issues.push({ check: 'lists', message: `${before.listItems} list items in the original, ${after.listItems} returned` });
+  }
+
+  // Images: every placeholder exactly once, and no placeholders we never sent
+  const expectedImages = countPlaceholders(originalHtml);
+  const returnedImages = countPlaceholders(returnedHtml);
+  expectedImages.forEach((_, key) => {
+    const count = returnedImages.get(key) || 0;
+    if (count === 0) {
+      issues.push({ check: 'images', message: `${key} is missing` });
+    } else if (count > 1) {
+      issues.push({ check: 'images', message: `${key} appears ${count} times` });
+    }
+  });
+  returnedImages.forEach((_, key) => {
+    if (!expectedImages.has(key)) {
+      issues.push({ check: 'images', message: `${key} was not in the original` });
+    }
+  });
+
+  // Well-formed HTML
+  const markupProblem = findMarkupProblem(returnedHtml);
+  if (markupProblem) {
+    issues.push({ check: 'markup', message: markupProblem });
+  }
+
+  return issues;
+};
+
+// Appended to the request when a reply fails validation, so the retry knows exactly what to fix
+export const buildCorrectivePrompt = (issues: ValidationIssue[]): string => `
+
+  YOUR PREVIOUS REPLY FAILED THESE CHECKS:
+  ${issues.map(issue => `- ${CHECK_LABELS[issue.check]}: ${issue.message}`).join('\n  ')}
+
+  Reply again with these problems fixed and everything else unchanged. Keep every heading, table (all rows and columns), list and image placeholder from the input unless the user's request explicitly asked to remove it, and make sure every tag is closed.
+  `;
+
+/**
+ * Markdown report shown in the chat when a reply still fails validation after the retry.
+ */
+export const formatValidationReport = (issues: ValidationIssue[]): string =>
+  `⚠️ The AI output still failed ${issues.length} structural ${issues.length === 1 ? 'check' : 'checks'} after an automatic retry:\n\n` +
+  issues.map(issue => `- **${CHECK_LABELS[issue.check]}:** ${issue.message}`).join('\n') +
+  '\n\nNothing was merged automatically - review each change carefully before applying it.';
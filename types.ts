@@ -1,9 +1,26 @@
+// Where an AI request is in the request queue
+export type QueueStatus =
+  | { state: 'queued'; position: number }
+  | { state: 'waiting'; until: number; reason: 'spacing' | 'minute-quota' | 'server' }
+  | { state: 'retrying'; until: number; attempt: number; maxAttempts: number; httpStatus: number }
+  | { state: 'running' };
+
+export interface ChunkProgress {
+  index: number;
+  label: string;
+  status: 'pending' | 'running' | 'retrying' | 'done' | 'failed';
+  attempts: number;
+  error?: string;
+  queue?: QueueStatus; // Set while the chunk's request is waiting in the queue
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'model' | 'system';
   content: string;
   type?: 'text' | 'image';
   timestamp: number;
+  chunks?: ChunkProgress[]; // Per-chunk progress for chunked edits of large documents
 }
 
 export interface DocumentState {
@@ -15,14 +32,76 @@ export interface DocumentState {
   lastUpdated: number;
 }
 
+// Blocks the user selected in the editor for a scoped AI edit
+export interface SelectionScope {
+  blockIds: string[];
+  preview: string; // Selected text, shown as a quote in the chat
+}
+
 export interface GeneratedImage {
   url: string;
   prompt: string;
 }
 
+// One run of the image generation panel, kept in the local history
+export interface ImageGeneration {
+  id: string;
+  prompt: string;
+  createdAt: number;
+  images: GeneratedImage[];
+  error?: string; // Why some or all candidates failed
+}
+
 export interface TextStyle {
   fontSize: number;
   isBold: boolean;
   isItalic: boolean;
   isSerif: boolean;
-}
\ No newline at end of file
+}
+
+// A spelling or grammar problem found by the offline proofing checker
+export interface ProofIssue {
+  id: string;
+  kind: 'spelling' | 'grammar';
+  start: number; // Offsets into the block's plain text
+  end: number;
+  text: string; // The flagged text
+  message: string;
+  suggestions: string[]; // Empty for spelling until the suggestions menu asks for them
+  rule?: string; // Grammar rule that raised it
+}
+
+// Feedback from the AI review mode, anchored to a quoted span instead of rewriting the document
+export interface ReviewComment {
+  id: string;
+  blockId: string;
+  quote: string; // Exact text the comment is about
+  issue: string;
+  suggestion: string; // Replacement for the quote; empty when the fix isn't a rewrite
+  start?: number; // Where the quote sat in the block text, to tell repeated quotes apart
+}
+
+// One editor tool call the model made during an edit, as logged in the chat
+export interface EditorToolExecution {
+  tool: string;
+  args: Record<string, unknown>;
+  summary: string; // What was done, or why the call was skipped
+  ok: boolean;
+}
+
+// Where HTML entered the editor when the sanitizer cleaned it
+export type SanitizeSource = 'import' | 'ai' | 'paste' | 'history';
+
+// One kind of markup the sanitizer removed, with how often it was found
+export interface SanitizeRemoval {
+  kind: 'element' | 'tag' | 'attribute' | 'style' | 'url'; // element drops its content, tag keeps it
+  name: string;
+  count: number;
+}
+
+export interface SanitizeLogEntry {
+  id: string;
+  source: SanitizeSource;
+  timestamp: number;
+  removals: SanitizeRemoval[];
+}
@@ -2,6 +2,15 @@
 
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string;
+  readonly VITE_GEMINI_MODEL?: string;
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_MODEL?: string;
+  readonly VITE_OLLAMA_URL?: string;
+  readonly VITE_OLLAMA_MODEL?: string;
+  readonly VITE_AI_REQUESTS_PER_MINUTE?: string;
+  readonly VITE_AI_REQUESTS_PER_DAY?: string;
 }
 
 interface ImportMeta {